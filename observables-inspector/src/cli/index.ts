@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { inspect } from '../inspector.js';
+import { listen } from '../webSocketServer.js';
+
+const USAGE = `
+observables-inspector - Inspect observables of a running app
+
+Usage:
+  observables-inspector [options]
+
+Waits for an app to connect and prints its observable declarations and state updates.
+Connect the app with:
+
+  import { createWebSocketChannelFactory, DevToolsLogger } from '@vscode/observables';
+  DevToolsLogger.getInstance().connect(createWebSocketChannelFactory(new WebSocket('ws://localhost:8790')));
+
+Options:
+  --port <port>    Port to listen on (default: 8790)
+  --host <host>    Host to listen on (default: 127.0.0.1)
+  --list           Only list the declarations, then exit
+  --help, -h       Show this help message
+`.trim();
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8790' },
+      host: { type: 'string', default: '127.0.0.1' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port)) {
+    console.error(`Error: Invalid port "${values.port}"`);
+    process.exit(1);
+  }
+
+  const server = await listen(port, values.host!, socket => {
+    console.log('App connected.');
+    socket.addEventListener('close', () => {
+      console.log('App disconnected.');
+    });
+    inspect(socket, { tail: !values.list, print: line => console.log(line) }).then(() => {
+      if (values.list) {
+        socket.close();
+        server.close();
+      }
+    }, error => {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+  });
+
+  console.log(`Waiting for an app to connect to ws://${values.host}:${port} ...`);
+}
+
+main().catch(error => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
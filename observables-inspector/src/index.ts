@@ -0,0 +1,2 @@
+export { inspect, applyUpdate, formatDeclaration, type InspectOptions } from './inspector.js';
+export { listen, ServerWebSocket } from './webSocketServer.js';
@@ -0,0 +1,82 @@
+import { autorunOpts, createWebSocketChannelFactory, DevToolsLogger, observableValueOpts, type IWebSocketLike } from '@vscode/observables';
+import { describe, expect, it } from 'vitest';
+import { applyUpdate, formatDeclaration, inspect } from './inspector.js';
+
+type Listener = (e: { data?: unknown }) => void;
+
+/**
+ * One end of an in-memory web socket pair.
+ */
+class MemoryWebSocket implements IWebSocketLike {
+  public readyState = 1;
+  public other: MemoryWebSocket | undefined = undefined;
+  private readonly _listeners: { type: string; listener: Listener }[] = [];
+
+  send(data: string): void {
+    queueMicrotask(() => this.other!._fire('message', { data }));
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    this._listeners.push({ type, listener });
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    const idx = this._listeners.findIndex(l => l.type === type && l.listener === listener);
+    if (idx !== -1) {
+      this._listeners.splice(idx, 1);
+    }
+  }
+
+  private _fire(type: string, e: { data?: unknown }): void {
+    for (const l of [...this._listeners]) {
+      if (l.type === type) {
+        l.listener(e);
+      }
+    }
+  }
+}
+
+describe('inspector', () => {
+  it('describes added, changed and removed instances', () => {
+    const instances = new Map();
+    expect(applyUpdate(instances, {
+      decls: { 1: { id: 1, type: 'observable/value', url: 'app.ts', line: 3, column: 7 } },
+      instances: { 10: { instanceId: 10, declarationId: 1, name: 'count', type: 'observable/value', formattedValue: '1' } },
+    })).toEqual([
+      '+ declaration #1 observable/value app.ts:3:7',
+      '+ #10 observable/value count = 1',
+    ]);
+
+    expect(applyUpdate(instances, { instances: { 10: { formattedValue: '2' } } })).toEqual(['~ #10 count = 2']);
+    expect(applyUpdate(instances, { instances: { 10: null } })).toEqual(['- #10 count']);
+    expect(instances.size).toBe(0);
+  });
+
+  it('formats declarations', () => {
+    expect(formatDeclaration({ id: 2, type: 'autorun', url: 'app.ts', line: 10, column: 1 })).toBe('#2 autorun app.ts:10:1');
+  });
+
+  it('lists the declarations of the connected app and tails its updates', async () => {
+    const app = new MemoryWebSocket();
+    const inspector = new MemoryWebSocket();
+    app.other = inspector;
+    inspector.other = app;
+
+    const value = observableValueOpts({ debugName: 'inspectedValue' }, 1);
+    const a = autorunOpts({ debugName: 'inspectedAutorun' }, reader => { value.read(reader); });
+    const connection = DevToolsLogger.getInstance().connect(createWebSocketChannelFactory(app));
+
+    const lines: string[] = [];
+    await inspect(inspector, { tail: true, print: line => lines.push(line) });
+    expect(lines[0]).toMatch(/^\d+ declaration\(s\):$/);
+    expect(lines.some(l => / autorun .*inspector\.test\.ts:\d+:\d+$/.test(l))).toBe(true);
+    expect(lines.at(-1)).toBe('Tailing updates (Ctrl+C to stop)...');
+
+    value.set(2, undefined);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(lines.some(l => /^~ #\d+ inspectedValue = 2$/.test(l))).toBe(true);
+
+    a.dispose();
+    connection.dispose();
+  });
+});
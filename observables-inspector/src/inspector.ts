@@ -0,0 +1,109 @@
+import {
+  createWebSocketChannelFactory,
+  SimpleTypedRpcConnection,
+  type IObsDeclaration,
+  type IWebSocketLike,
+  type ObsDebuggerApi,
+  type ObsStateUpdate,
+} from '@vscode/observables';
+
+export interface InspectOptions {
+  /** Print state updates until the connection closes. */
+  tail: boolean;
+  print: (line: string) => void;
+}
+
+interface InstanceState {
+  name?: string;
+  type?: string;
+  formattedValue?: string;
+  runCount?: number;
+  recomputationCount?: number;
+}
+
+/**
+ * Lists the declarations of the connected app and (optionally) prints the `handleChange` updates it sends.
+ */
+export async function inspect(socket: IWebSocketLike, options: InspectOptions): Promise<void> {
+  const { print } = options;
+  const instances = new Map<number, InstanceState>();
+  let listed = false;
+
+  const connection = SimpleTypedRpcConnection.createHost<ObsDebuggerApi>(
+    createWebSocketChannelFactory(socket),
+    () => ({
+      notifications: {
+        handleChange: (update, clearState) => {
+          if (clearState) {
+            instances.clear();
+          }
+          const lines = applyUpdate(instances, update);
+          if (options.tail && listed && !clearState) {
+            lines.forEach(print);
+          }
+        },
+      },
+      requests: {},
+    }),
+  );
+
+  const { decls } = await connection.api.requests.getDeclarations();
+  const declarations = Object.values(decls);
+  print(`${declarations.length} declaration(s):`);
+  for (const decl of declarations) {
+    print(`  ${formatDeclaration(decl)}`);
+  }
+
+  listed = true;
+  if (options.tail) {
+    print('');
+    print('Tailing updates (Ctrl+C to stop)...');
+    connection.api.notifications.flushUpdates();
+  }
+}
+
+export function formatDeclaration(decl: IObsDeclaration): string {
+  return `#${decl.id} ${decl.type} ${decl.url}:${decl.line}:${decl.column}`;
+}
+
+/**
+ * Applies the update to the known instances and describes what changed.
+ */
+export function applyUpdate(instances: Map<number, InstanceState>, update: ObsStateUpdate): string[] {
+  const lines: string[] = [];
+
+  for (const decl of Object.values(update.decls ?? {})) {
+    if (decl) {
+      lines.push(`+ declaration ${formatDeclaration(decl as IObsDeclaration)}`);
+    }
+  }
+
+  for (const [key, change] of Object.entries(update.instances ?? {})) {
+    const id = Number(key);
+    const existing = instances.get(id);
+    if (change === null) {
+      instances.delete(id);
+      lines.push(`- #${id} ${existing?.name ?? ''}`.trimEnd());
+      continue;
+    }
+    if (!change) {
+      continue;
+    }
+    const partial = change as InstanceState;
+    const state: InstanceState = { ...existing, ...partial };
+    instances.set(id, state);
+    if (!existing) {
+      lines.push(`+ #${id} ${state.type} ${state.name}${formatValue(state)}`);
+    } else if (partial.formattedValue !== undefined || partial.recomputationCount !== undefined) {
+      lines.push(`~ #${id} ${state.name}${formatValue(state)}${state.recomputationCount !== undefined ? ` (recomputed ${state.recomputationCount}x)` : ''}`);
+    } else if (partial.runCount !== undefined) {
+      lines.push(`~ #${id} ${state.name} ran (${state.runCount}x)`);
+    }
+  }
+
+  return lines;
+}
+
+function formatValue(state: InstanceState): string {
+  return state.formattedValue !== undefined ? ` = ${state.formattedValue}` : '';
+}
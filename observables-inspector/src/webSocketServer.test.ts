@@ -0,0 +1,292 @@
+import * as http from 'node:http';
+import * as net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { afterEach, describe, expect, it } from 'vitest';
+import { listen, ServerWebSocket } from './webSocketServer.js';
+
+interface Frame {
+  fin: boolean;
+  opCode: number;
+  payload: Buffer;
+}
+
+/**
+ * A raw TCP client that speaks just enough web socket to test the server.
+ */
+class TestClient {
+  private _buffer = Buffer.alloc(0);
+  private readonly _frames: Frame[] = [];
+  private _onData: (() => void) | undefined;
+
+  public static async connect(port: number, key = 'dGhlIHNhbXBsZSBub25jZQ=='): Promise<{ client: TestClient; response: string }> {
+    const socket = net.connect(port, '127.0.0.1');
+    await new Promise<void>(resolve => socket.once('connect', () => resolve()));
+    const client = new TestClient(socket);
+    socket.write([
+      'GET / HTTP/1.1',
+      `Host: 127.0.0.1:${port}`,
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Key: ${key}`,
+      'Sec-WebSocket-Version: 13',
+      '',
+      '',
+    ].join('\r\n'));
+    const response = await client._readHandshake();
+    return { client, response };
+  }
+
+  private constructor(public readonly socket: net.Socket) {
+    socket.on('data', (data: Buffer) => {
+      this._buffer = Buffer.concat([this._buffer, data]);
+      this._onData?.();
+    });
+  }
+
+  public send(opCode: number, payload: Buffer, fin = true): void {
+    this.socket.write(encodeClientFrame(opCode, payload, fin));
+  }
+
+  public async readFrame(): Promise<Frame> {
+    while (this._frames.length === 0) {
+      const frame = decodeServerFrame(this._buffer);
+      if (frame) {
+        this._buffer = this._buffer.subarray(frame.length);
+        this._frames.push(frame);
+      } else {
+        await new Promise<void>(resolve => { this._onData = resolve; });
+      }
+    }
+    return this._frames.shift()!;
+  }
+
+  private async _readHandshake(): Promise<string> {
+    while (true) {
+      const end = this._buffer.indexOf('\r\n\r\n');
+      if (end !== -1) {
+        const response = this._buffer.subarray(0, end).toString('utf8');
+        this._buffer = this._buffer.subarray(end + 4);
+        return response;
+      }
+      await new Promise<void>(resolve => { this._onData = resolve; });
+    }
+  }
+}
+
+function encodeClientFrame(opCode: number, payload: Buffer, fin: boolean): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([(fin ? 0x80 : 0) | opCode, 0x80 | payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = (fin ? 0x80 : 0) | opCode;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = (fin ? 0x80 : 0) | opCode;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+  const masked = Buffer.from(payload.map((b, i) => b ^ mask[i % 4]));
+  return Buffer.concat([header, mask, masked]);
+}
+
+function decodeServerFrame(buffer: Buffer): (Frame & { length: number }) | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+  if (payloadLength === 126) {
+    if (buffer.length < 4) { return undefined; }
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) { return undefined; }
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (buffer.length < offset + payloadLength) {
+    return undefined;
+  }
+  return {
+    fin: (buffer[0] & 0x80) !== 0,
+    opCode: buffer[0] & 0x0f,
+    payload: Buffer.from(buffer.subarray(offset, offset + payloadLength)),
+    length: offset + payloadLength,
+  };
+}
+
+describe('webSocketServer', () => {
+  let server: http.Server | undefined;
+  let sockets: ServerWebSocket[];
+  let messages: string[];
+  let nextConnection: ((socket: ServerWebSocket) => void) | undefined;
+  let rawSockets: Duplex[];
+
+  async function start(): Promise<number> {
+    sockets = [];
+    messages = [];
+    rawSockets = [];
+    server = await listen(0, '127.0.0.1', socket => {
+      sockets.push(socket);
+      socket.addEventListener('message', e => messages.push(e.data as string));
+      nextConnection?.(socket);
+    });
+    // Upgraded sockets are not closed by `server.close`
+    server.on('upgrade', (_req, socket) => rawSockets.push(socket));
+    return (server.address() as AddressInfo).port;
+  }
+
+  function waitFor(predicate: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const start = Date.now();
+      const check = () => {
+        if (predicate()) {
+          resolve();
+        } else if (Date.now() - start > 2000) {
+          reject(new Error('Timeout'));
+        } else {
+          setTimeout(check, 5);
+        }
+      };
+      check();
+    });
+  }
+
+  afterEach(async () => {
+    nextConnection = undefined;
+    for (const socket of rawSockets) {
+      socket.destroy();
+    }
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('accepts the handshake', async () => {
+    const { client, response } = await TestClient.connect(await start());
+    expect(response.split('\r\n')).toEqual([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      // The example of RFC 6455, section 1.3
+      'Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=',
+    ]);
+    expect(sockets).toHaveLength(1);
+    client.socket.destroy();
+  });
+
+  it('rejects plain http requests', async () => {
+    const port = await start();
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${port}/`, res => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+    expect(status).toBe(426);
+  });
+
+  it('unmasks text messages', async () => {
+    const { client } = await TestClient.connect(await start());
+    client.send(0x1, Buffer.from('hello', 'utf8'));
+    client.send(0x1, Buffer.from('wörld', 'utf8'));
+    await waitFor(() => messages.length === 2);
+    expect(messages).toEqual(['hello', 'wörld']);
+    client.socket.destroy();
+  });
+
+  it('joins fragmented messages', async () => {
+    const { client } = await TestClient.connect(await start());
+    client.send(0x1, Buffer.from('frag', 'utf8'), false);
+    client.send(0x0, Buffer.from('men', 'utf8'), false);
+    client.send(0x0, Buffer.from('ted', 'utf8'), true);
+    await waitFor(() => messages.length === 1);
+    expect(messages).toEqual(['fragmented']);
+    client.socket.destroy();
+  });
+
+  it('handles frames that are split across packets', async () => {
+    const { client } = await TestClient.connect(await start());
+    const data = encodeClientFrame(0x1, Buffer.from('split frame', 'utf8'), true);
+    client.socket.write(data.subarray(0, 1));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    client.socket.write(data.subarray(1, 7));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    client.socket.write(data.subarray(7));
+    await waitFor(() => messages.length === 1);
+    expect(messages).toEqual(['split frame']);
+    client.socket.destroy();
+  });
+
+  it('reads and writes large payloads', async () => {
+    const { client } = await TestClient.connect(await start());
+    const medium = 'm'.repeat(300);
+    const large = 'l'.repeat(70000);
+    client.send(0x1, Buffer.from(medium, 'utf8'));
+    client.send(0x1, Buffer.from(large, 'utf8'));
+    await waitFor(() => messages.length === 2);
+    expect(messages.map(m => m.length)).toEqual([300, 70000]);
+
+    sockets[0].send(medium);
+    sockets[0].send(large);
+    expect((await client.readFrame()).payload.toString('utf8')).toBe(medium);
+    const frame = await client.readFrame();
+    expect(frame).toMatchObject({ fin: true, opCode: 0x1 });
+    expect(frame.payload.toString('utf8')).toBe(large);
+    client.socket.destroy();
+  });
+
+  it('answers pings', async () => {
+    const { client } = await TestClient.connect(await start());
+    client.send(0x9, Buffer.from('ping', 'utf8'));
+    const frame = await client.readFrame();
+    expect(frame.opCode).toBe(0xa);
+    expect(frame.payload.toString('utf8')).toBe('ping');
+    client.socket.destroy();
+  });
+
+  it('answers close frames and reports the close', async () => {
+    const { client } = await TestClient.connect(await start());
+    let closed = false;
+    sockets[0].addEventListener('close', () => { closed = true; });
+
+    client.send(0x8, Buffer.alloc(0));
+    const frame = await client.readFrame();
+    expect(frame.opCode).toBe(0x8);
+    expect(sockets[0].readyState).not.toBe(1);
+
+    client.socket.end();
+    await waitFor(() => closed);
+    expect(sockets[0].readyState).toBe(3);
+  });
+
+  it('drops messages sent after closing', async () => {
+    const { client } = await TestClient.connect(await start());
+    sockets[0].close();
+    sockets[0].send('ignored');
+    const frame = await client.readFrame();
+    expect(frame.opCode).toBe(0x8);
+    client.socket.destroy();
+  });
+
+  it('stops calling removed listeners', async () => {
+    const received: string[] = [];
+    nextConnection = socket => {
+      const listener = (e: { data?: unknown }) => {
+        received.push(e.data as string);
+        socket.removeEventListener('message', listener);
+      };
+      socket.addEventListener('message', listener);
+    };
+    const { client } = await TestClient.connect(await start());
+    client.send(0x1, Buffer.from('a', 'utf8'));
+    client.send(0x1, Buffer.from('b', 'utf8'));
+    await waitFor(() => messages.length === 2);
+    expect(received).toEqual(['a']);
+    client.socket.destroy();
+  });
+});
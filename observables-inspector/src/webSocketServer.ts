@@ -0,0 +1,201 @@
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { IWebSocketLike } from '@vscode/observables';
+
+const WEB_SOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const enum OpCode {
+  Continuation = 0x0,
+  Text = 0x1,
+  Binary = 0x2,
+  Close = 0x8,
+  Ping = 0x9,
+  Pong = 0xa,
+}
+
+type Listener = (e: { data?: unknown }) => void;
+
+/**
+ * The server side of a web socket connection.
+ * Only supports what the DevTools protocol needs: text messages, ping and close.
+ */
+export class ServerWebSocket implements IWebSocketLike {
+  public readyState = 1;
+
+  private _buffer = Buffer.alloc(0);
+  private _fragments: Buffer[] = [];
+  private readonly _listeners: { type: string; listener: Listener }[] = [];
+
+  constructor(private readonly _socket: Duplex) {
+    _socket.on('data', (data: Buffer) => this._handleData(data));
+    _socket.on('close', () => this._handleClose());
+    _socket.on('error', () => this._handleClose());
+  }
+
+  public send(data: string): void {
+    if (this.readyState === 1) {
+      this._socket.write(encodeFrame(OpCode.Text, Buffer.from(data, 'utf8')));
+    }
+  }
+
+  public addEventListener(type: 'open' | 'message' | 'close', listener: Listener): void {
+    this._listeners.push({ type, listener });
+  }
+
+  public removeEventListener(type: 'open' | 'message' | 'close', listener: Listener): void {
+    const idx = this._listeners.findIndex(l => l.type === type && l.listener === listener);
+    if (idx !== -1) {
+      this._listeners.splice(idx, 1);
+    }
+  }
+
+  public close(): void {
+    if (this.readyState === 1) {
+      this.readyState = 2;
+      this._socket.end(encodeFrame(OpCode.Close, Buffer.alloc(0)));
+    }
+  }
+
+  private _fire(type: string, e: { data?: unknown }): void {
+    for (const l of [...this._listeners]) {
+      if (l.type === type) {
+        l.listener(e);
+      }
+    }
+  }
+
+  private _handleClose(): void {
+    if (this.readyState !== 3) {
+      this.readyState = 3;
+      this._fire('close', {});
+    }
+  }
+
+  private _handleData(data: Buffer): void {
+    this._buffer = Buffer.concat([this._buffer, data]);
+    while (true) {
+      const frame = decodeFrame(this._buffer);
+      if (!frame) {
+        return;
+      }
+      this._buffer = this._buffer.subarray(frame.length);
+      this._handleFrame(frame.fin, frame.opCode, frame.payload);
+    }
+  }
+
+  private _handleFrame(fin: boolean, opCode: number, payload: Buffer): void {
+    switch (opCode) {
+      case OpCode.Text:
+      case OpCode.Binary:
+      case OpCode.Continuation: {
+        this._fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this._fragments).toString('utf8');
+          this._fragments = [];
+          this._fire('message', { data: message });
+        }
+        break;
+      }
+      case OpCode.Ping:
+        this._socket.write(encodeFrame(OpCode.Pong, payload));
+        break;
+      case OpCode.Close:
+        this.close();
+        break;
+    }
+  }
+}
+
+/**
+ * Starts an HTTP server that accepts web socket connections on any path.
+ */
+export function listen(
+  port: number,
+  host: string,
+  onConnection: (socket: ServerWebSocket) => void,
+): Promise<http.Server> {
+  const server = http.createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Expected a web socket connection');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = crypto.createHash('sha1').update(key + WEB_SOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n'));
+    onConnection(new ServerWebSocket(socket));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+}
+
+function encodeFrame(opCode: OpCode, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opCode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opCode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opCode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Returns undefined if the buffer does not contain a complete frame yet.
+ */
+function decodeFrame(buffer: Buffer): { fin: boolean; opCode: number; payload: Buffer; length: number } | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opCode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+  if (payloadLength === 126) {
+    if (buffer.length < 4) { return undefined; }
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) { return undefined; }
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) {
+    offset += 4;
+  }
+  if (buffer.length < offset + payloadLength) {
+    return undefined;
+  }
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + payloadLength));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { fin, opCode, payload, length: offset + payloadLength };
+}
@@ -507,4 +507,27 @@ test.describe('observables-react', () => {
             await expect(result).toHaveText('16');
         });
     });
+
+    test.describe('ObservableDevtoolsPanel', () => {
+        test('lists and filters live observables', async ({ page }) => {
+            const rows = page.getByTestId('devtools-row');
+            await page.getByTestId('devtools-search').fill('devtoolsValue');
+
+            await expect(rows).toHaveCount(1);
+            await expect(rows.first()).toContainText('devtoolsValue');
+            await expect(rows.first()).toContainText('1');
+        });
+
+        test('sets the value of the selected observable', async ({ page }) => {
+            await page.getByTestId('devtools-search').fill('devtoolsValue');
+            await page.getByTestId('devtools-row').first().click();
+            await expect(page.getByTestId('devtools-selected')).toHaveText('devtoolsValue');
+
+            await page.getByTestId('devtools-json-value').fill('42');
+            await page.getByTestId('devtools-set-value').click();
+
+            await expect(page.getByTestId('devtools-value')).toHaveText('42');
+            await expect(page.getByTestId('devtools-row').first()).toContainText('42');
+        });
+    });
 });
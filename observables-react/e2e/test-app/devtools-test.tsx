@@ -0,0 +1,21 @@
+import { observableValue } from '@vscode/observables';
+import { ObsView, ObservableDevtoolsPanel } from '../../src';
+
+// ============================================================================
+// Test: ObservableDevtoolsPanel
+// ============================================================================
+const devtoolsValue = observableValue('devtoolsValue', 1);
+
+export function DevtoolsPanelTestSection() {
+    return (
+        <section>
+            <h2>Devtools Panel</h2>
+            <div data-testid="devtools-test">
+                <ObsView>
+                    {(reader) => <span data-testid="devtools-value">{devtoolsValue.read(reader)}</span>}
+                </ObsView>
+                <ObservableDevtoolsPanel />
+            </div>
+        </section>
+    );
+}
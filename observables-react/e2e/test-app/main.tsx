@@ -11,6 +11,7 @@ import {
     ListRenderTestSection,
     MultipleObservablesTestSection,
 } from './advanced-tests';
+import { DevtoolsPanelTestSection } from './devtools-test';
 
 // ============================================================================
 // Test Component 1: Basic obsView with counter
@@ -261,6 +262,8 @@ function App() {
             <ListRenderTestSection />
 
             <MultipleObservablesTestSection />
+
+            <DevtoolsPanelTestSection />
         </div>
     );
 }
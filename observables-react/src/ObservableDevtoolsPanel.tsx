@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { DevToolsLogger, IObsInstanceRef, IObsPushState, ObsInstanceId, ObsInstancePushState } from "@vscode/observables";
+
+export interface ObservableDevtoolsPanelProps {
+    /** Defaults to {@link DevToolsLogger.getInstance}. */
+    logger?: DevToolsLogger;
+    style?: React.CSSProperties;
+}
+
+/**
+ * Lists all live observables and autoruns with their values, recomputation counts and dependencies.
+ * Allows to set values and to rerun deriveds and autoruns.
+ *
+ * Uses plain React state, so that the panel does not show up in itself.
+ */
+export function ObservableDevtoolsPanel(props: ObservableDevtoolsPanelProps): React.ReactElement {
+    const logger = props.logger ?? DevToolsLogger.getInstance();
+    const [state, setState] = useState<IObsPushState>(() => logger.requests.getSummarizedInstances());
+    const [search, setSearch] = useState("");
+    const [selectedId, setSelectedId] = useState<ObsInstanceId | undefined>(undefined);
+
+    useEffect(() => {
+        const listener = logger.addStateListener(() => {
+            setState(logger.requests.getSummarizedInstances());
+        });
+        return () => listener.dispose();
+    }, [logger]);
+
+    const instances = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return Object.values(state.instances)
+            .filter((i): i is ObsInstancePushState => !!i)
+            .filter(i => query === "" || i.name.toLowerCase().includes(query) || i.type.includes(query))
+            .sort((a, b) => a.instanceId - b.instanceId);
+    }, [state, search]);
+
+    const selected = selectedId !== undefined ? state.instances[selectedId] ?? undefined : undefined;
+
+    return (
+        <div style={{ ...styles.panel, ...props.style }}>
+            <div style={styles.list}>
+                <input
+                    data-testid="devtools-search"
+                    style={styles.search}
+                    placeholder="Search observables..."
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                />
+                {instances.map(i => (
+                    <div
+                        key={i.instanceId}
+                        data-testid="devtools-row"
+                        style={i.instanceId === selectedId ? { ...styles.row, ...styles.selectedRow } : styles.row}
+                        onClick={() => setSelectedId(i.instanceId)}
+                    >
+                        <span style={styles.type}>{formatType(i)}</span>
+                        <span>{i.name}</span>
+                        <span style={styles.value}>{formatSummary(i)}</span>
+                    </div>
+                ))}
+            </div>
+            <div style={styles.details}>
+                {selected
+                    ? <InstanceDetails key={selected.instanceId} logger={logger} instance={selected} onSelect={setSelectedId} />
+                    : <div style={styles.muted}>Select an observable to see its dependencies.</div>}
+                <TransactionState logger={logger} />
+            </div>
+        </div>
+    );
+}
+
+function InstanceDetails(props: { logger: DevToolsLogger; instance: ObsInstancePushState; onSelect: (id: ObsInstanceId) => void }): React.ReactElement {
+    const { logger, instance } = props;
+    const [jsonValue, setJsonValue] = useState("");
+    const [error, setError] = useState<string | undefined>(undefined);
+
+    const run = (fn: () => void) => {
+        try {
+            fn();
+            setError(undefined);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const graph = getDependencyGraph(logger, instance);
+    const declaration = logger.requests.getDeclarations().decls[instance.declarationId];
+
+    return (
+        <div>
+            <div data-testid="devtools-selected" style={styles.title}>{instance.name}</div>
+            <div style={styles.muted}>
+                {formatType(instance)} #{instance.instanceId}
+                {declaration && ` · ${declaration.url}:${declaration.line}:${declaration.column}`}
+            </div>
+            {instance.type !== "autorun" && <pre style={styles.pre}>{instance.formattedValue ?? "(no value)"}</pre>}
+
+            {graph.dependencies && <RefList title="Dependencies" refs={graph.dependencies} onSelect={props.onSelect} />}
+            {graph.observers && <RefList title="Observers" refs={graph.observers} onSelect={props.onSelect} />}
+
+            <div style={styles.actions}>
+                {instance.type !== "autorun" && (
+                    <>
+                        <input
+                            data-testid="devtools-json-value"
+                            style={styles.search}
+                            placeholder="New value as JSON"
+                            value={jsonValue}
+                            onChange={e => setJsonValue(e.target.value)}
+                        />
+                        <button data-testid="devtools-set-value" onClick={() => run(() => logger.requests.setValue(instance.instanceId, JSON.parse(jsonValue)))}>Set value</button>
+                    </>
+                )}
+                {instance.type !== "observable/value" && (
+                    <button data-testid="devtools-rerun" onClick={() => run(() => logger.requests.rerun(instance.instanceId))}>Rerun</button>
+                )}
+                <button onClick={() => run(() => logger.requests.logValue(instance.instanceId))}>Log to console</button>
+            </div>
+            {error && <div style={styles.error}>{error}</div>}
+        </div>
+    );
+}
+
+function RefList(props: { title: string; refs: IObsInstanceRef[]; onSelect: (id: ObsInstanceId) => void }): React.ReactElement {
+    return (
+        <div>
+            <div style={styles.heading}>{props.title} ({props.refs.length})</div>
+            {props.refs.map(r => (
+                <div key={r.instanceId} data-testid="devtools-ref" style={styles.link} onClick={() => props.onSelect(r.instanceId)}>{r.name}</div>
+            ))}
+        </div>
+    );
+}
+
+function TransactionState(props: { logger: DevToolsLogger }): React.ReactElement | null {
+    const state = props.logger.requests.getTransactionState();
+    if (!state) {
+        return null;
+    }
+    return (
+        <div>
+            <div style={styles.heading}>Running transactions: {state.names.join(", ")}</div>
+            {state.affected.map(a => (
+                <div key={a.instanceId}>{a.name}: {a.state}</div>
+            ))}
+        </div>
+    );
+}
+
+function getDependencyGraph(logger: DevToolsLogger, instance: ObsInstancePushState): { dependencies?: IObsInstanceRef[]; observers?: IObsInstanceRef[] } {
+    try {
+        switch (instance.type) {
+            case "observable/value":
+                return logger.requests.getObservableValueInfo(instance.instanceId);
+            case "observable/derived":
+                return logger.requests.getDerivedInfo(instance.instanceId);
+            case "autorun":
+                return logger.requests.getAutorunInfo(instance.instanceId);
+        }
+    } catch {
+        // The instance is no longer alive
+        return {};
+    }
+}
+
+function formatType(instance: ObsInstancePushState): string {
+    switch (instance.type) {
+        case "observable/value": return "value";
+        case "observable/derived": return "derived";
+        case "autorun": return "autorun";
+    }
+}
+
+function formatSummary(instance: ObsInstancePushState): string {
+    switch (instance.type) {
+        case "observable/value": return instance.formattedValue ?? "";
+        case "observable/derived": return `${instance.formattedValue ?? ""} (${instance.recomputationCount ?? 0}x)`;
+        case "autorun": return `ran ${instance.runCount}x`;
+    }
+}
+
+const styles = {
+    panel: { display: "flex", fontFamily: "monospace", fontSize: 12, border: "1px solid #ccc", height: 400 },
+    list: { flex: 1, overflow: "auto", borderRight: "1px solid #ccc" },
+    details: { flex: 1, overflow: "auto", padding: 8 },
+    search: { width: "100%", boxSizing: "border-box", padding: 4 },
+    row: { display: "flex", gap: 8, padding: "2px 4px", cursor: "pointer" },
+    selectedRow: { background: "#dbeafe" },
+    type: { color: "#6b7280", minWidth: 56 },
+    value: { marginLeft: "auto", color: "#2563eb", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" },
+    title: { fontWeight: "bold", fontSize: 14 },
+    heading: { fontWeight: "bold", marginTop: 8 },
+    muted: { color: "#6b7280" },
+    pre: { background: "#f3f4f6", padding: 4, whiteSpace: "pre-wrap" },
+    link: { color: "#2563eb", cursor: "pointer" },
+    actions: { display: "flex", flexWrap: "wrap", gap: 4, marginTop: 8 },
+    error: { color: "#dc2626", marginTop: 4 },
+} satisfies Record<string, React.CSSProperties>;
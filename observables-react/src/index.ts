@@ -8,4 +8,5 @@ export { viewWithModel } from './viewWithModel';
 export { Value, val } from './Value';
 export { ObsView } from './obsView';
 export { type ServiceKey, createServiceKey, DIContainer, DIContext, DIProvider, useDIContainer, inject } from './di';
-export { type QueryArgs, type PathMatcher, type PathArgs, type PathArgsToType, type QueryArgsToType, type RouteQueryArgs, type RouteResult, NavigationPath, PathPattern, Route, Router, Navigator } from './router';
\ No newline at end of file
+export { type QueryArgs, type PathMatcher, type PathArgs, type PathArgsToType, type QueryArgsToType, type RouteQueryArgs, type ArgType, type ArgTypeToType, type EnumArgType, type ArrayArgType, type OptionalArgType, type ConstArgType, type CombineArgs, type RouterOutletProps, type RouteResult, type INavigationEvent, type NavigationKind, type NavigationGuard, type NavigationGuardResult, type RouteLoaderFn, type IHistoryBackend, RouteLoader, BrowserHistory, HashHistory, MemoryHistory, NavigationPath, PathPattern, Route, Router, RouterOutlet, Navigator, NavigatorContext, NavigatorProvider, useNavigator, routeArgs, argsEqual } from './router';
+export { type ObservableDevtoolsPanelProps, ObservableDevtoolsPanel } from './ObservableDevtoolsPanel';
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+import { BrowserHistory, HashHistory, MemoryHistory } from "./History";
+import { Navigator } from "./Navigator";
+import { NavigationPath } from "./Path";
+import { Route } from "./Route";
+
+/**
+ * Implements the parts of `window` the history backends use. Like in browsers, `go` fires `popstate` asynchronously.
+ */
+class FakeWindow {
+    public readonly entries: { href: string; state: unknown }[];
+    private _index = 0;
+    private readonly _listeners = new Set<() => void>();
+
+    public readonly location: { readonly href: string; readonly hash: string };
+    public readonly history: Pick<History, "state" | "pushState" | "replaceState" | "go">;
+
+    constructor(href: string, state: unknown = null) {
+        this.entries = [{ href, state }];
+        const current = () => this.entries[this._index];
+        this.location = {
+            get href() { return current().href; },
+            get hash() { return new URL(current().href).hash; },
+        };
+        this.history = {
+            get state() { return current().state; },
+            pushState: (state, _unused, href) => {
+                const entry = { href: new URL(href!, current().href).href, state: structuredClone(state) };
+                this._index++;
+                this.entries.splice(this._index, this.entries.length, entry);
+            },
+            replaceState: (state, _unused, href) => {
+                this.entries[this._index] = { href: new URL(href ?? current().href, current().href).href, state: structuredClone(state) };
+            },
+            go: (delta = 0) => {
+                setTimeout(() => {
+                    this._index = Math.max(0, Math.min(this.entries.length - 1, this._index + delta));
+                    for (const listener of [...this._listeners]) {
+                        listener();
+                    }
+                });
+            },
+        };
+    }
+
+    public addEventListener(_type: "popstate", listener: () => void): void {
+        this._listeners.add(listener);
+    }
+
+    public removeEventListener(_type: "popstate", listener: () => void): void {
+        this._listeners.delete(listener);
+    }
+
+    public asWindow(): Window {
+        return this as unknown as Window;
+    }
+}
+
+describe("History", () => {
+    const users = Route.create("/users/:id", { id: "number" });
+
+    describe("BrowserHistory", () => {
+        it("reads and writes the url path relative to the root", () => {
+            const w = new FakeWindow("http://app.test/base/users/1?tab=info");
+            const history = new BrowserHistory(new URL("http://app.test/base"), w.asWindow());
+            expect(history.getLocation().toString()).toBe("/users/1?tab=info");
+            expect(history.getIndex()).toBe(0);
+            expect(history.createHref(users.build({ id: 2 }))).toBe("http://app.test/base/users/2");
+
+            history.push(users.build({ id: 2 }));
+            expect(w.location.href).toBe("http://app.test/base/users/2");
+            expect(history.getIndex()).toBe(1);
+
+            history.replace(users.build({ id: 3 }));
+            expect(w.entries.map(e => e.href)).toEqual(["http://app.test/base/users/1?tab=info", "http://app.test/base/users/3"]);
+            expect(history.getIndex()).toBe(1);
+        });
+
+        it("stores the state of paths together with the index", () => {
+            const w = new FakeWindow("http://app.test/");
+            const history = new BrowserHistory(new URL("http://app.test/"), w.asWindow());
+            history.push(NavigationPath.parse("/a").withState({ scrollTop: 10 }));
+
+            expect(w.history.state).toEqual({ index: 1, state: { scrollTop: 10 } });
+            expect(history.getLocation().state).toEqual({ scrollTop: 10 });
+        });
+
+        it("keeps the state of the initial entry", () => {
+            const w = new FakeWindow("http://app.test/a", { fromOtherCode: true });
+            const history = new BrowserHistory(new URL("http://app.test/"), w.asWindow());
+
+            expect(w.history.state).toEqual({ index: 0, state: { fromOtherCode: true } });
+            expect(history.getLocation().state).toEqual({ fromOtherCode: true });
+
+            // A reload keeps the entry
+            const reloaded = new BrowserHistory(new URL("http://app.test/"), w.asWindow());
+            expect(w.history.state).toEqual({ index: 0, state: { fromOtherCode: true } });
+            expect(reloaded.getIndex()).toBe(0);
+        });
+
+        it("notifies pop listeners until they are disposed", async () => {
+            const w = new FakeWindow("http://app.test/a");
+            const history = new BrowserHistory(new URL("http://app.test/"), w.asWindow());
+            history.push(NavigationPath.parse("/b"));
+
+            const listener = vi.fn();
+            const d = history.onPop(listener);
+            history.go(-1);
+            await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+            expect(history.getLocation().toString()).toBe("/a");
+            expect(history.getIndex()).toBe(0);
+
+            d.dispose();
+            history.go(1);
+            await vi.waitFor(() => expect(history.getIndex()).toBe(1));
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("is the history of a navigator created with a root url", () => {
+            vi.stubGlobal("window", new FakeWindow("http://app.test/base/users/1"));
+            try {
+                const navigator = new Navigator(new URL("http://app.test/base"));
+                expect(navigator.history).toBeInstanceOf(BrowserHistory);
+                expect(navigator.root.href).toBe("http://app.test/base");
+                expect(navigator.currentPath.get().toString()).toBe("/users/1");
+                navigator.dispose();
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+    });
+
+    describe("HashHistory", () => {
+        it("reads and writes the hash", () => {
+            const w = new FakeWindow("file:///app/index.html#/users/1?tab=info");
+            const history = new HashHistory(w.asWindow());
+            expect(history.root.href).toBe("file:///app/index.html");
+            expect(history.getLocation().toString()).toBe("/users/1?tab=info");
+            expect(history.createHref(users.build({ id: 2 }))).toBe("#/users/2");
+
+            history.push(users.build({ id: 2 }).withState("s"));
+            expect(w.location.href).toBe("file:///app/index.html#/users/2");
+            expect(history.getLocation().state).toBe("s");
+            expect(history.getIndex()).toBe(1);
+        });
+
+        it("uses the root path for an empty hash", () => {
+            const history = new HashHistory(new FakeWindow("file:///app/index.html").asWindow());
+            expect(history.getLocation().toString()).toBe("/");
+        });
+    });
+
+    describe("MemoryHistory", () => {
+        it("keeps the entries in memory", () => {
+            const history = new MemoryHistory("/a");
+            expect(history.root.href).toBe("http://localhost/");
+            history.push(NavigationPath.parse("/b"));
+            history.push(NavigationPath.parse("/c"));
+            history.replace(NavigationPath.parse("/d"));
+            expect(history.entries.map(e => e.toString())).toEqual(["/a", "/b", "/d"]);
+            expect(history.index).toBe(2);
+            expect(history.createHref(NavigationPath.parse("/x?y=1"))).toBe("/x?y=1");
+        });
+
+        it("drops the forward entries on push", () => {
+            const history = new MemoryHistory("/a");
+            history.push(NavigationPath.parse("/b"));
+            history.go(-1);
+            history.push(NavigationPath.parse("/c"));
+            expect(history.entries.map(e => e.toString())).toEqual(["/a", "/c"]);
+        });
+
+        it("notifies pop listeners synchronously and clamps go", () => {
+            const history = new MemoryHistory("/a");
+            history.push(NavigationPath.parse("/b"));
+            const listener = vi.fn();
+            history.onPop(listener);
+
+            history.go(-5);
+            expect(history.getLocation().toString()).toBe("/a");
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            history.go(-1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("preserves the state of entries", () => {
+            const history = new MemoryHistory("/a");
+            history.push(NavigationPath.parse("/b").withState({ scrollTop: 5 }));
+            history.go(-1);
+            expect(history.getLocation().state).toBeNull();
+            history.go(1);
+            expect(history.getLocation().state).toEqual({ scrollTop: 5 });
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { IDisposable } from "@vscode/observables";
+import { NavigationPath } from "./Path";
+
+/**
+ * The location store of a {@link Navigator}.
+ */
+export interface IHistoryBackend {
+    /** The url that the paths of this history are relative to. */
+    readonly root: URL;
+    getLocation(): NavigationPath;
+    /**
+     * The position of the current entry in the history, used to undo cancelled pops with `go`.
+     * Is `undefined` if it is not known (e.g. for entries that were created by editing the hash).
+     */
+    getIndex(): number | undefined;
+    push(path: NavigationPath): void;
+    replace(path: NavigationPath): void;
+    /** Moves through the history like `history.go`, which notifies the pop listeners. */
+    go(delta: number): void;
+    /** Called when the location changes without `push` or `replace` (e.g. back/forward buttons). */
+    onPop(listener: () => void): IDisposable;
+    createHref(path: NavigationPath): string;
+}
+
+/**
+ * Stores the location in the url of the window, relative to `root`.
+ */
+export class BrowserHistory implements IHistoryBackend {
+    constructor(
+        public readonly root = new URL('/', document.location.href),
+        private readonly _window: Window = window,
+    ) {
+        initializeEntry(this._window);
+    }
+
+    public getLocation(): NavigationPath {
+        return NavigationPath.fromUrl(new URL(this._window.location.href), this.root, readEntry(this._window)?.state ?? null);
+    }
+
+    public getIndex(): number | undefined {
+        return readEntry(this._window)?.index;
+    }
+
+    public push(path: NavigationPath): void {
+        pushEntry(this._window, path, this.createHref(path));
+    }
+
+    public replace(path: NavigationPath): void {
+        replaceEntry(this._window, path, this.createHref(path));
+    }
+
+    public go(delta: number): void {
+        this._window.history.go(delta);
+    }
+
+    public onPop(listener: () => void): IDisposable {
+        this._window.addEventListener('popstate', listener);
+        return { dispose: () => this._window.removeEventListener('popstate', listener) };
+    }
+
+    public createHref(path: NavigationPath): string {
+        return path.toUrl(this.root).toString();
+    }
+}
+
+/**
+ * Stores the location in the hash of the url (e.g. `index.html#/users/1`),
+ * for apps that cannot control the url path (e.g. Electron apps loaded from `file://`).
+ */
+export class HashHistory implements IHistoryBackend {
+    constructor(
+        private readonly _window: Window = window,
+    ) {
+        initializeEntry(this._window);
+    }
+
+    /** The url of the page without the hash. */
+    public get root(): URL {
+        const url = new URL(this._window.location.href);
+        url.hash = '';
+        return url;
+    }
+
+    public getLocation(): NavigationPath {
+        return NavigationPath.parse(this._window.location.hash.substring(1) || '/', readEntry(this._window)?.state ?? null);
+    }
+
+    public getIndex(): number | undefined {
+        return readEntry(this._window)?.index;
+    }
+
+    public push(path: NavigationPath): void {
+        pushEntry(this._window, path, this.createHref(path));
+    }
+
+    public replace(path: NavigationPath): void {
+        replaceEntry(this._window, path, this.createHref(path));
+    }
+
+    public go(delta: number): void {
+        this._window.history.go(delta);
+    }
+
+    public onPop(listener: () => void): IDisposable {
+        // Also fires when the hash is edited
+        this._window.addEventListener('popstate', listener);
+        return { dispose: () => this._window.removeEventListener('popstate', listener) };
+    }
+
+    public createHref(path: NavigationPath): string {
+        return '#' + path.toString();
+    }
+}
+
+/**
+ * Keeps the history in memory, e.g. for tests and server side rendering.
+ * `go` notifies the pop listeners synchronously.
+ */
+export class MemoryHistory implements IHistoryBackend {
+    private readonly _entries: NavigationPath[];
+    private _index = 0;
+    private readonly _listeners = new Set<() => void>();
+
+    /** The base url that {@link NavigationPath.parse} resolves paths against. */
+    public readonly root = new URL('http://localhost/');
+
+    constructor(initialPath: NavigationPath | string = '/') {
+        this._entries = [typeof initialPath === 'string' ? NavigationPath.parse(initialPath) : initialPath];
+    }
+
+    public get entries(): readonly NavigationPath[] { return this._entries; }
+
+    public get index(): number { return this._index; }
+
+    public getLocation(): NavigationPath {
+        return this._entries[this._index];
+    }
+
+    public getIndex(): number {
+        return this._index;
+    }
+
+    public push(path: NavigationPath): void {
+        this._index++;
+        this._entries.splice(this._index, this._entries.length - this._index, path);
+    }
+
+    public replace(path: NavigationPath): void {
+        this._entries[this._index] = path;
+    }
+
+    public go(delta: number): void {
+        const index = Math.max(0, Math.min(this._entries.length - 1, this._index + delta));
+        if (index === this._index) {
+            return;
+        }
+        this._index = index;
+        for (const listener of [...this._listeners]) {
+            listener();
+        }
+    }
+
+    public onPop(listener: () => void): IDisposable {
+        this._listeners.add(listener);
+        return { dispose: () => { this._listeners.delete(listener); } };
+    }
+
+    public createHref(path: NavigationPath): string {
+        return path.toString();
+    }
+}
+
+/**
+ * What {@link BrowserHistory} and {@link HashHistory} store in `history.state`.
+ */
+interface IHistoryEntry {
+    readonly index: number;
+    readonly state: unknown;
+}
+
+function readEntry(window: Window): IHistoryEntry | undefined {
+    const entry: unknown = window.history.state;
+    if (typeof entry === 'object' && entry !== null && 'index' in entry && typeof entry.index === 'number' && 'state' in entry) {
+        return { index: entry.index, state: entry.state };
+    }
+    return undefined;
+}
+
+function initializeEntry(window: Window): void {
+    if (!readEntry(window)) {
+        window.history.replaceState({ index: 0, state: window.history.state ?? null } satisfies IHistoryEntry, '');
+    }
+}
+
+function pushEntry(window: Window, path: NavigationPath, href: string): void {
+    const entry: IHistoryEntry = { index: (readEntry(window)?.index ?? 0) + 1, state: path.state ?? null };
+    window.history.pushState(entry, '', href);
+}
+
+function replaceEntry(window: Window, path: NavigationPath, href: string): void {
+    const entry: IHistoryEntry = { index: readEntry(window)?.index ?? 0, state: path.state ?? null };
+    window.history.replaceState(entry, '', href);
+}
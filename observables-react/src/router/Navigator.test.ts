@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryHistory } from "./History";
+import { Navigator } from "./Navigator";
+import { NavigationPath } from "./Path";
+import { Route } from "./Route";
+
+describe("Navigator", () => {
+    const home = Route.create("/");
+    const users = Route.create("/users");
+    const settings = Route.create("/settings");
+
+    let errors: unknown[];
+
+    beforeEach(() => {
+        errors = [];
+        vi.spyOn(console, "error").mockImplementation((_message, error) => { errors.push(error); });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function click(navigator: Navigator, route: Route<void>): void {
+        navigator.getLinkData(route).onClick({ preventDefault: () => { } } as React.MouseEvent);
+    }
+
+    it("rejects if a guard throws", async () => {
+        const navigator = new Navigator(new MemoryHistory("/"));
+        navigator.beforeNavigate(() => { throw new Error("guard failed"); });
+
+        await expect(navigator.navigateTo(users)).rejects.toThrow("guard failed");
+        expect(navigator.currentPath.get().toString()).toBe("/");
+        navigator.dispose();
+    });
+
+    it("reports throwing guards of link clicks and back navigations to onUnexpectedError", async () => {
+        const history = new MemoryHistory("/");
+        const navigator = new Navigator(history);
+        await navigator.navigateTo(users);
+        navigator.beforeNavigate(() => { throw new Error("guard failed"); });
+
+        click(navigator, home);
+        navigator.back();
+
+        await vi.waitFor(() => expect(errors).toHaveLength(2));
+        expect(errors.map(e => (e as Error).message)).toEqual(["guard failed", "guard failed"]);
+        navigator.dispose();
+    });
+
+    it("keeps the forward entries when a guard cancels a back navigation", async () => {
+        const history = new MemoryHistory("/");
+        const navigator = new Navigator(history);
+        await navigator.navigateTo(users);
+        await navigator.navigateTo(settings);
+        navigator.back();
+        await vi.waitFor(() => expect(navigator.currentPath.get().toString()).toBe("/users"));
+
+        const guard = vi.fn(() => false);
+        navigator.beforeNavigate(guard);
+        navigator.back();
+        await vi.waitFor(() => expect(history.index).toBe(1));
+
+        expect(history.entries.map(e => e.toString())).toEqual(["/", "/users", "/settings"]);
+        expect(navigator.currentPath.get().toString()).toBe("/users");
+        expect(guard).toHaveBeenCalledTimes(1);
+
+        navigator.forward();
+        await vi.waitFor(() => expect(guard).toHaveBeenCalledTimes(2));
+        navigator.dispose();
+    });
+
+    it("runs loaders while they are not disposed", async () => {
+        const navigator = new Navigator(new MemoryHistory("/"));
+        const loads: string[] = [];
+        const loader = navigator.addLoader(users, async () => { loads.push("users"); return 1; });
+
+        await navigator.navigateTo(users);
+        expect(loader.value.get()).toBe(1);
+
+        loader.dispose();
+        await navigator.navigateTo(home);
+        await navigator.navigateTo(users);
+        expect(loads).toEqual(["users"]);
+        navigator.dispose();
+    });
+
+    it("rejects redirect loops", async () => {
+        const navigator = new Navigator(new MemoryHistory("/"));
+        navigator.beforeNavigate(({ to }) => NavigationPath.parse(to.toString() === "/a" ? "/b" : "/a"));
+
+        await expect(navigator.navigateTo(users)).rejects.toThrow("exceeded 10 redirects");
+        expect(navigator.currentPath.get().toString()).toBe("/");
+
+        click(navigator, home);
+        await vi.waitFor(() => expect(errors).toHaveLength(1));
+        expect((errors[0] as Error).message).toMatch(/exceeded 10 redirects/);
+        navigator.dispose();
+    });
+});
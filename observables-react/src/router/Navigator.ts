@@ -1,42 +1,207 @@
-import { observableValue, IObservable } from "@vscode/observables";
+import { observableValue, IObservable, IDisposable, ISettableObservable, onUnexpectedError, transaction } from "@vscode/observables";
+import { BrowserHistory, IHistoryBackend } from "./History";
 import { NavigationPath } from "./Path";
 import { Route } from "./Route";
+import { RouteLoader, RouteLoaderFn, RouteLoaderUpdate } from "./RouteLoader";
 
 export interface ILinkData {
     onClick: (e: React.MouseEvent) => void;
     href: string;
 }
 
-export class Navigator {
-    constructor(
-        public readonly root = new URL('/', document.location.href),
-    ) {
-        window.addEventListener('popstate', () => {
-            this._currentPath.set(NavigationPath.fromUrl(new URL(document.location.href), this.root), undefined);
+export interface INavigationEvent {
+    readonly from: NavigationPath;
+    readonly to: NavigationPath;
+    /** `"pop"` if the navigation was triggered by the history (back/forward buttons, {@link Navigator.back}). */
+    readonly kind: NavigationKind;
+}
+
+/**
+ * Return `false` to cancel the navigation or a path to redirect to.
+ * Any other value continues the navigation.
+ */
+export type NavigationGuardResult = boolean | NavigationPath | void;
+
+export type NavigationGuard = (event: INavigationEvent) => NavigationGuardResult | Promise<NavigationGuardResult>;
+
+export type NavigationKind = "push" | "replace" | "pop";
+
+const maxRedirects = 10;
+
+export class Navigator implements IDisposable {
+    private readonly _guards = new Set<NavigationGuard>();
+    private readonly _loaders = new Set<RouteLoaderUpdate>();
+    private _navigationId = 0;
+    private readonly _popListener: IDisposable;
+    /** The history index of {@link currentPath}. */
+    private _currentIndex: number | undefined;
+    /** Set while the history moves back to {@link _currentIndex} after a cancelled pop. */
+    private _restoringIndex: number | undefined = undefined;
+
+    public readonly history: IHistoryBackend;
+
+    /**
+     * @param history Stores the location. A `URL` is used as the root of a {@link BrowserHistory}.
+     */
+    constructor(history: IHistoryBackend | URL = new BrowserHistory()) {
+        this.history = history instanceof URL ? new BrowserHistory(history) : history;
+        this._currentPath = observableValue(this, this.history.getLocation());
+        this.currentPath = this._currentPath;
+        this._currentIndex = this.history.getIndex();
+        this._popListener = this.history.onPop(() => {
+            const restoringIndex = this._restoringIndex;
+            this._restoringIndex = undefined;
+            if (restoringIndex !== undefined && restoringIndex === this.history.getIndex()) {
+                // Caused by undoing a cancelled pop
+                return;
+            }
+            this._navigate(this._currentPath.get(), this.history.getLocation(), "pop").catch(onUnexpectedError);
         });
     }
 
+    public dispose(): void {
+        this._popListener.dispose();
+    }
+
     public getLinkData(route: Route<void>): ILinkData;
     public getLinkData<TArgs extends {} | void>(route: Route<TArgs>, data: TArgs): ILinkData;
     public getLinkData<TArgs extends {} | void>(route: Route<TArgs>, data?: TArgs): ILinkData {
         return {
             onClick: (e) => {
                 e.preventDefault();
-                this.navigateTo(route, data);
+                this.navigateTo(route, data).catch(onUnexpectedError);
             },
-            href: route.build(data ?? {} as TArgs).toUrl(this.root).toString(),
+            href: this.history.createHref(route.build(data ?? {} as TArgs)),
         };
     }
 
-    private readonly _currentPath = observableValue(this, NavigationPath.fromUrl(new URL(document.location.href), this.root));
-    public readonly currentPath: IObservable<NavigationPath> = this._currentPath;
+    private readonly _currentPath: ISettableObservable<NavigationPath>;
+    public readonly currentPath: IObservable<NavigationPath>;
+
+    /** The url that the paths of the navigator are relative to (see {@link IHistoryBackend.root}). */
+    public get root(): URL {
+        return this.history.root;
+    }
+
+    /**
+     * Registers a guard that runs before every navigation, including browser back/forward navigations.
+     * Guards run in registration order, a redirect runs all guards again for the new path.
+     */
+    public beforeNavigate(guard: NavigationGuard): IDisposable {
+        this._guards.add(guard);
+        return { dispose: () => { this._guards.delete(guard); } };
+    }
+
+    /**
+     * Runs `load` whenever `route` is entered or its args change, see {@link RouteLoader}.
+     */
+    public addLoader<TArgs extends {} | void, T>(route: Route<TArgs>, load: RouteLoaderFn<TArgs, T>): RouteLoader<TArgs, T> {
+        return new RouteLoader(route, load, update => {
+            this._loaders.add(update);
+            void update(this._currentPath.get(), undefined);
+            return { dispose: () => { this._loaders.delete(update); } };
+        });
+    }
+
+    /**
+     * Resolves to `true` once the loaders of the new path settled,
+     * or to `false` if a guard cancelled the navigation or a newer navigation started.
+     * Rejects if a guard throws or redirects more than 10 times
+     * (for link clicks and back/forward navigations, the error goes to `onUnexpectedError`).
+     */
+    public navigateTo(route: Route<void>): Promise<boolean>;
+    public navigateTo<TArgs extends {} | void>(route: Route<TArgs>, args: TArgs): Promise<boolean>;
+    public navigateTo<TArgs extends {} | void>(route: Route<TArgs>, args?: TArgs): Promise<boolean> {
+        return this.navigateToPath(route.build(args ?? {} as TArgs));
+    }
+
+    /**
+     * Like {@link navigateTo}, but replaces the current history entry.
+     */
+    public replaceTo(route: Route<void>): Promise<boolean>;
+    public replaceTo<TArgs extends {} | void>(route: Route<TArgs>, args: TArgs): Promise<boolean>;
+    public replaceTo<TArgs extends {} | void>(route: Route<TArgs>, args?: TArgs): Promise<boolean> {
+        return this.navigateToPath(route.build(args ?? {} as TArgs), { replace: true });
+    }
+
+    /**
+     * Navigates to `path`, its `state` is stored in the history entry (use {@link NavigationPath.withState}).
+     */
+    public navigateToPath(path: NavigationPath, options?: { replace?: boolean }): Promise<boolean> {
+        return this._navigate(this._currentPath.get(), path, options?.replace ? "replace" : "push");
+    }
+
+    public back(): void {
+        this.history.go(-1);
+    }
+
+    public forward(): void {
+        this.history.go(1);
+    }
+
+    private async _navigate(from: NavigationPath, to: NavigationPath, kind: NavigationKind): Promise<boolean> {
+        const navigationId = ++this._navigationId;
+
+        const target = this._guards.size === 0 ? to : await this._runGuards(from, to, kind);
+        if (navigationId !== this._navigationId) {
+            return false;
+        }
+        if (!target) {
+            if (kind === "pop") {
+                this._undoPop(from);
+            }
+            return false;
+        }
+
+        if (kind === "push") {
+            this.history.push(target);
+        } else if (kind === "replace" || target !== to) {
+            this.history.replace(target);
+        }
+        this._currentIndex = this.history.getIndex();
+
+        const loads: Promise<void>[] = [];
+        transaction(tx => {
+            this._currentPath.set(target, tx);
+            for (const update of this._loaders) {
+                loads.push(update(target, tx));
+            }
+        });
+        await Promise.all(loads);
+        return navigationId === this._navigationId;
+    }
+
+    /**
+     * The history already moved to the new entry, move back without dropping the forward entries.
+     */
+    private _undoPop(from: NavigationPath): void {
+        const index = this.history.getIndex();
+        if (this._currentIndex !== undefined && index !== undefined && index !== this._currentIndex) {
+            this._restoringIndex = this._currentIndex;
+            this.history.go(this._currentIndex - index);
+        } else {
+            this.history.replace(from);
+        }
+    }
 
-    public navigateTo(route: Route<void>): void;
-    public navigateTo<TArgs extends {} | void>(route: Route<TArgs>, args: TArgs): void;
-    public navigateTo<TArgs extends {} | void>(route: Route<TArgs>, args?: TArgs): void {
-        const path = route.build(args ?? {} as TArgs);
-        const p = path.toUrl(this.root).toString();
-        this._currentPath.set(path, undefined);
-        history.pushState(undefined, '', p);
+    private async _runGuards(from: NavigationPath, to: NavigationPath, kind: NavigationKind): Promise<NavigationPath | undefined> {
+        for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+            let redirect: NavigationPath | undefined = undefined;
+            for (const guard of [...this._guards]) {
+                const result = await guard({ from, to, kind });
+                if (result === false) {
+                    return undefined;
+                }
+                if (result instanceof NavigationPath) {
+                    redirect = result;
+                    break;
+                }
+            }
+            if (!redirect) {
+                return to;
+            }
+            to = redirect;
+        }
+        throw new Error(`Navigation to ${to.toString()} exceeded ${maxRedirects} redirects`);
     }
 }
@@ -0,0 +1,48 @@
+import { derived, IObservable } from "@vscode/observables";
+import { Context, createContext, ReactNode, useContext } from "react";
+import { IPropertyTransformerFactory, IReadableObj, Readable } from "../IPropertyTransformer";
+import { Navigator } from "./Navigator";
+import { Route } from "./Route";
+
+export const NavigatorContext: Context<Navigator | null> = createContext<Navigator | null>(null);
+
+export function NavigatorProvider({ navigator, children }: { navigator: Navigator; children: ReactNode }): ReactNode {
+    return <NavigatorContext.Provider value={navigator}>{children}</NavigatorContext.Provider>;
+}
+
+export function useNavigator(): Navigator {
+    const navigator = useContext(NavigatorContext);
+    if (!navigator) throw new Error("NavigatorProvider not found");
+    return navigator;
+}
+
+class RouteArgsTransformerFactory<TArgs extends {} | void> implements IPropertyTransformerFactory<IObservable<TArgs | undefined> | undefined, IObservable<TArgs | undefined>> {
+    readonly _requiredContext = NavigatorContext as Context<unknown>;
+
+    constructor(public readonly route: Route<TArgs>) { }
+
+    create(readable: Readable<IObservable<TArgs | undefined> | undefined>, contextValue: unknown): IReadableObj<IObservable<TArgs | undefined>> {
+        const navigator = contextValue as Navigator | null;
+        let routeArgs: IObservable<TArgs | undefined> | undefined;
+
+        return derived(reader => {
+            // Check if the args were provided as a prop (e.g. in tests)
+            const explicitValue = readable(reader);
+            if (explicitValue !== undefined) {
+                return explicitValue;
+            }
+
+            // Otherwise, observe the args of the route (cached)
+            if (routeArgs === undefined) {
+                if (!navigator) throw new Error(`routeArgs(${this.route.path}): NavigatorProvider not found`);
+                routeArgs = this.route.observeArgs(navigator);
+            }
+            return routeArgs;
+        });
+    }
+}
+
+/** Provides the args of the route for the current path of the `NavigatorProvider` navigator to a view or ViewModel */
+export function routeArgs<TArgs extends {} | void>(route: Route<TArgs>): IPropertyTransformerFactory<IObservable<TArgs | undefined> | undefined, IObservable<TArgs | undefined>> & { _requiredContext: Context<unknown> } {
+    return new RouteArgsTransformerFactory(route);
+}
@@ -13,13 +13,25 @@ export class NavigationPath {
         return new NavigationPath(parts, queryArgs, '', null);
     }
 
-    public static fromUrl(url: URL, rootUrl: URL): NavigationPath {
+    /**
+     * Parses a path relative to the root, e.g. `/users/1?tab=info`.
+     */
+    public static parse(path: string, state: unknown = null): NavigationPath {
+        const base = new URL('http://localhost/');
+        return NavigationPath.fromUrl(new URL(path, base), base, state);
+    }
+
+    public static fromUrl(url: URL, rootUrl: URL, state: unknown = null): NavigationPath {
         const rootPath = parsePath(rootUrl.pathname);
         const urlPath = parsePath(url.pathname);
         const path = relative(urlPath, rootPath);
         const p = new URLSearchParams(url.search);
-        const queryArgs = Object.fromEntries(p);
-        return new NavigationPath(path, queryArgs, url.hash, null);
+        const queryArgs: Record<string, string | string[]> = {};
+        for (const key of new Set(p.keys())) {
+            const values = p.getAll(key);
+            queryArgs[key] = values.length === 1 ? values[0] : values;
+        }
+        return new NavigationPath(path, queryArgs, url.hash, state);
     }
 
     public toUrl(rootUrl: URL): URL {
@@ -39,13 +51,34 @@ export class NavigationPath {
         public readonly state: unknown,
     ) { }
 
+    public withState(state: unknown): NavigationPath {
+        return new NavigationPath(this.path, this.queryArgs, this.hash, state);
+    }
+
+    /**
+     * Returns all values of the query param, in order.
+     */
+    public getQueryValues(key: string): readonly string[] {
+        const value = this.queryArgs[key];
+        if (value === undefined) {
+            return [];
+        }
+        return typeof value === "string" ? [value] : value;
+    }
+
     public getPathString(): string {
         return "/" + this.path.join("/");
     }
 
     public toString(): string {
         let str = this.getPathString();
-        const search = new URLSearchParams(this.queryArgs).toString();
+        const params = new URLSearchParams();
+        for (const key in this.queryArgs) {
+            for (const value of this.getQueryValues(key)) {
+                params.append(key, value);
+            }
+        }
+        const search = params.toString();
         if (search !== "") {
             str += `?${search}`;
         }
@@ -54,7 +87,10 @@ export class NavigationPath {
 }
 
 export interface QueryArgs {
-    readonly [key: string]: string;
+    /**
+     * Query params that occur multiple times have multiple values.
+     */
+    readonly [key: string]: string | readonly string[];
 }
 
 function parsePath(path: string): string[] {
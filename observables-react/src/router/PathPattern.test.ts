@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { PathPattern } from "./PathPattern";
+
+describe("PathPattern", () => {
+    it("matches complete paths", () => {
+        const pattern = PathPattern.parse("/projects/:id");
+        expect(pattern.match("/projects/1")).toEqual({ id: "1" });
+        expect(pattern.match("/projects/a%2Fb")).toEqual({ id: "a/b" });
+        expect(pattern.match("/projects")).toBeUndefined();
+        expect(pattern.match("/projects/1/settings")).toBeUndefined();
+    });
+
+    it("matches catch-all segments", () => {
+        const pattern = PathPattern.parse("/files/::path");
+        expect(pattern.match("/files/a/b%20c")).toEqual({ path: "a/b c" });
+        expect(pattern.build({ path: "a/b c" })).toBe("/files/a/b%20c");
+    });
+
+    it("matches prefixes of paths", () => {
+        const pattern = PathPattern.parse("/projects/:id");
+        expect(pattern.matchPrefix("/projects/1")).toEqual({ id: "1" });
+        expect(pattern.matchPrefix("/projects/1/settings/general")).toEqual({ id: "1" });
+        expect(pattern.matchPrefix("/projects")).toBeUndefined();
+        expect(pattern.matchPrefix("/users/1")).toBeUndefined();
+    });
+
+    it("matches every path with the root pattern as prefix", () => {
+        const pattern = PathPattern.parse("/");
+        expect(pattern.match("/")).toEqual({});
+        expect(pattern.match("/about")).toBeUndefined();
+        expect(pattern.matchPrefix("/")).toEqual({});
+        expect(pattern.matchPrefix("/about")).toEqual({});
+        expect(pattern.matchPrefix("/about/team")).toEqual({});
+    });
+});
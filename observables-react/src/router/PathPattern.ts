@@ -26,6 +26,17 @@ export class PathPattern {
     }
 
     public match(path: string): { [key: string]: string } | undefined {
+        return this._match(path, false);
+    }
+
+    /**
+     * Like {@link match}, but the path can continue after the pattern (e.g. "/projects/:id" matches "/projects/1/settings").
+     */
+    public matchPrefix(path: string): { [key: string]: string } | undefined {
+        return this._match(path, true);
+    }
+
+    private _match(path: string, allowRest: boolean): { [key: string]: string } | undefined {
         if (!path.startsWith('/')) {
             throw new Error();
         }
@@ -33,7 +44,9 @@ export class PathPattern {
         const parts = path.substring(1).split('/');
 
         const params: { [key: string]: string } = {};
-        for (const segment of this._segments) {
+        // The root pattern "/" consists of an empty literal, which would not match a longer path
+        const segments = allowRest ? this._segments.filter(s => s.kind !== 'literal' || s.value !== '') : this._segments;
+        for (const segment of segments) {
             if (segment.kind === 'literal') {
                 const part = parts.shift()
                 if (segment.value !== part) {
@@ -56,7 +69,7 @@ export class PathPattern {
             }
         }
 
-        if (parts.length > 0) {
+        if (parts.length > 0 && !allowRest) {
             return undefined;
         }
 
@@ -72,7 +85,10 @@ export class PathPattern {
                 if (value === undefined) {
                     throw new Error();
                 }
-                return value;
+                if (segment.catchAll) {
+                    return String(value).split('/').map(encodeURIComponent).join('/');
+                }
+                return encodeURIComponent(String(value));
             }
         });
 
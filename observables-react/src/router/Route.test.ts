@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { NavigationPath } from "./Path";
+import { argsEqual, Route } from "./Route";
+
+function match<T extends {} | void>(route: Route<T>, path: string): T | undefined {
+    return route.matches(NavigationPath.parse(path));
+}
+
+describe("Route", () => {
+    it("parses and builds string args", () => {
+        const route = Route.create("/users/:name", { name: "string" });
+        expect(match(route, "/users/alice")).toEqual({ name: "alice" });
+        expect(match(route, "/users")).toBeUndefined();
+        expect(route.build({ name: "bob" }).toString()).toBe("/users/bob");
+    });
+
+    it("parses number args strictly", () => {
+        const route = Route.create("/items/:id", { id: "number" });
+        expect(match(route, "/items/42")).toEqual({ id: 42 });
+        expect(match(route, "/items/-1.5")).toEqual({ id: -1.5 });
+        expect(match(route, "/items/0")).toEqual({ id: 0 });
+
+        for (const value of ["1e3", "0x10", "%205", "5%20", "", "abc", "01", "1.50", "1.", ".5", "-0", "Infinity", "NaN"]) {
+            expect(match(route, `/items/${value}`), value).toBeUndefined();
+        }
+    });
+
+    it("parses boolean args", () => {
+        const route = Route.create("/flags/:on", { on: "boolean" });
+        expect(match(route, "/flags/true")).toEqual({ on: true });
+        expect(match(route, "/flags/false")).toEqual({ on: false });
+        expect(match(route, "/flags/1")).toBeUndefined();
+        expect(route.build({ on: false }).toString()).toBe("/flags/false");
+    });
+
+    it("parses enum args", () => {
+        const route = Route.create("/tabs/:tab", { tab: { enum: ["info", "settings"] } });
+        expect(match(route, "/tabs/info")).toEqual({ tab: "info" });
+        expect(match(route, "/tabs/other")).toBeUndefined();
+        expect(() => route.build({ tab: "other" as "info" })).toThrow("Expected one of info, settings");
+    });
+
+    it("requires query args unless they are optional", () => {
+        const route = Route.create("/search", {}, { q: "string", page: { optional: "number" } });
+        expect(match(route, "/search")).toBeUndefined();
+        expect(match(route, "/search?q=x")).toEqual({ q: "x" });
+        expect(match(route, "/search?q=x&page=2")).toEqual({ q: "x", page: 2 });
+        expect(match(route, "/search?q=x&page=two")).toBeUndefined();
+        expect(route.build({ q: "x" }).toString()).toBe("/search?q=x");
+    });
+
+    it("uses the default of optional query args and omits it when building", () => {
+        const route = Route.create("/list", {}, { sort: { optional: { enum: ["asc", "desc"] }, default: "asc" } });
+        expect(match(route, "/list")).toEqual({ sort: "asc" });
+        expect(match(route, "/list?sort=desc")).toEqual({ sort: "desc" });
+        expect(route.build({ sort: "asc" }).toString()).toBe("/list");
+        expect(route.build({ sort: "desc" }).toString()).toBe("/list?sort=desc");
+    });
+
+    it("collects all values of array query args", () => {
+        const route = Route.create("/posts", {}, { tag: { array: "string" }, id: { array: "number" } });
+        expect(match(route, "/posts")).toEqual({ tag: [], id: [] });
+        expect(match(route, "/posts?tag=a&id=1&tag=b")).toEqual({ tag: ["a", "b"], id: [1] });
+        expect(match(route, "/posts?id=1&id=x")).toBeUndefined();
+        expect(route.build({ tag: ["a", "b"], id: [] }).toString()).toBe("/posts?tag=a&tag=b");
+    });
+
+    it("requires const query args to have their value", () => {
+        const route = Route.create("/view", {}, { mode: { const: "edit" } });
+        expect(match(route, "/view?mode=edit")).toEqual({});
+        expect(match(route, "/view?mode=read")).toBeUndefined();
+        expect(route.build({}).toString()).toBe("/view?mode=edit");
+    });
+
+    it("matches the paths it builds", () => {
+        const route = Route.create(
+            "/projects/:id/:tab",
+            { id: "number", tab: { enum: ["files", "issues"] } },
+            { filter: { optional: "string" }, tag: { array: "string" }, closed: { optional: "boolean", default: false } },
+        );
+        const argsList: Parameters<typeof route.build>[0][] = [
+            { id: 1, tab: "files", tag: [], closed: false },
+            { id: -2.25, tab: "issues", filter: "a b&c", tag: ["x", "y z"], closed: true },
+            { id: 0, tab: "files", tag: ["ä"], closed: false },
+        ];
+        for (const args of argsList) {
+            const path = route.build(args);
+            const parsed = match(route, path.toString());
+            expect(parsed).toEqual(args);
+            expect(route.build(parsed!).toString()).toBe(path.toString());
+        }
+    });
+
+    it("compares args by value", () => {
+        expect(argsEqual({ a: 1, b: ["x"] }, { a: 1, b: ["x"] })).toBe(true);
+        expect(argsEqual({ a: 1, b: ["x"] }, { a: 1, b: ["y"] })).toBe(false);
+        expect(argsEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(argsEqual(undefined, {})).toBe(true);
+    });
+});
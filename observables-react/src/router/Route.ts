@@ -1,14 +1,16 @@
+import { derivedOpts, IObservable } from "@vscode/observables";
+import type { Navigator } from "./Navigator";
 import { NavigationPath } from "./Path";
 import { PathPattern } from "./PathPattern";
 
 export class Route<TArgs extends {} | void = void> implements PathMatcher<TArgs> {
     public static create(path: string): Route<void>;
 
-    public static create<TPathArgs extends PathArgs>(
+    public static create<const TPathArgs extends PathArgs>(
         path: string,
         pathArgs: TPathArgs
     ): Route<PathArgsToType<TPathArgs>>;
-    public static create<TPathArgs extends PathArgs, TQueryArgs extends QueryArgs>(
+    public static create<const TPathArgs extends PathArgs, const TQueryArgs extends QueryArgs>(
         path: string,
         pathArgs: TPathArgs,
         queryArgs: TQueryArgs
@@ -16,7 +18,7 @@ export class Route<TArgs extends {} | void = void> implements PathMatcher<TArgs>
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public static create(path: string, pathArgs?: PathArgs, queryArgs?: QueryArgs): Route<any> {
-        return new Route(path, pathArgs ?? {}, queryArgs ?? {});
+        return new Route(path, pathArgs ?? {}, queryArgs ?? {}, undefined);
     }
 
     private readonly _pathPattern = PathPattern.parse(this.path);
@@ -25,23 +27,63 @@ export class Route<TArgs extends {} | void = void> implements PathMatcher<TArgs>
         public readonly path: string,
         public readonly args: PathArgs,
         public readonly queryArgs: QueryArgs,
+        /**
+         * The route this route was created from with {@link child}.
+         */
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        public readonly parent: Route<any> | undefined,
     ) { }
 
+    /**
+     * Creates a route below this route (e.g. `/projects/:id` and `/settings` become `/projects/:id/settings`).
+     * The child route inherits the path and query args of this route.
+     */
+    public child(path: string): Route<TArgs>;
+    public child<const TPathArgs extends PathArgs>(
+        path: string,
+        pathArgs: TPathArgs
+    ): Route<CombineArgs<TArgs, PathArgsToType<TPathArgs>>>;
+    public child<const TPathArgs extends PathArgs, const TQueryArgs extends QueryArgs>(
+        path: string,
+        pathArgs: TPathArgs,
+        queryArgs: TQueryArgs
+    ): Route<CombineArgs<TArgs, PathArgsToType<TPathArgs> & QueryArgsToType<TQueryArgs>>>;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    public child(path: string, pathArgs?: PathArgs, queryArgs?: QueryArgs): Route<any> {
+        if (!path.startsWith("/")) {
+            throw new Error(`Expected child path "${path}" to start with "/"`);
+        }
+        if (this.path.split("/").some(part => part.startsWith("::"))) {
+            throw new Error(`Cannot create a child of "${this.path}", as it has a catch-all segment`);
+        }
+        const parentPath = this.path === "/" ? "" : this.path;
+        const fullPath = path === "/" ? (parentPath || "/") : parentPath + path;
+        return new Route(fullPath, { ...this.args, ...pathArgs }, { ...this.queryArgs, ...queryArgs }, this);
+    }
+
     public build(args: TArgs): NavigationPath {
+        const values = (args ?? {}) as Record<string, unknown>;
+
         const pathArgs: Record<string, unknown> = {};
         for (const key in this.args) {
-            pathArgs[key] = (args as Record<string, unknown>)[key];
+            pathArgs[key] = serializeArg(this.args[key], values[key]);
         }
 
         const path = this._pathPattern.build(pathArgs);
 
-        const queryArgs: Record<string, string> = {};
+        const queryArgs: Record<string, string | string[]> = {};
         for (const key in this.queryArgs) {
             const v = this.queryArgs[key];
-            if (typeof v === 'object') {
+            const value = values[key];
+            if (typeof v === 'object' && 'const' in v) {
                 queryArgs[key] = v.const;
+            } else if (typeof v === 'object' && 'optional' in v) {
+                if (value !== undefined && !argEquals(value, v.default)) {
+                    queryArgs[key] = serializeQueryArg(v.optional, value);
+                }
             } else {
-                queryArgs[key] = (args as Record<string, unknown>)[key] as string;
+                queryArgs[key] = serializeQueryArg(v, value);
             }
         }
 
@@ -49,22 +91,69 @@ export class Route<TArgs extends {} | void = void> implements PathMatcher<TArgs>
     }
 
     public matches(path: NavigationPath): TArgs | undefined {
-        const r = this._pathPattern.match(path.getPathString());
+        return this._match(path, false);
+    }
+
+    /**
+     * Matches if the path starts with this route, e.g. to check whether a child route of this route is active.
+     */
+    public matchesPrefix(path: NavigationPath): TArgs | undefined {
+        return this._match(path, true);
+    }
+
+    /**
+     * The args of this route for the current path of the navigator, or `undefined` if the route does not match.
+     * Only changes if the args change.
+     */
+    public observeArgs(navigator: Navigator): IObservable<TArgs | undefined> {
+        return derivedOpts<TArgs | undefined>({
+            owner: this,
+            debugName: `${this.path}.args`,
+            equalsFn: (a, b) => a === b || (a !== undefined && b !== undefined && argsEqual(a, b)),
+        }, reader => this.matches(navigator.currentPath.read(reader)));
+    }
+
+    private _match(path: NavigationPath, prefix: boolean): TArgs | undefined {
+        const pathString = path.getPathString();
+        const r = prefix ? this._pathPattern.matchPrefix(pathString) : this._pathPattern.match(pathString);
         if (!r) { return undefined; }
 
-        const params = new URLSearchParams(path.queryArgs);
         const args: Record<string, unknown> = { ...r };
-        for (const [key, type] of Object.entries(this.queryArgs)) {
-            const value = params.get(key);
-            if (value === null) {
+        for (const [key, type] of Object.entries(this.args)) {
+            const value = parseArg(type, r[key]);
+            if (!value) {
                 return undefined;
             }
-            if (typeof type === 'object') {
-                if (value !== type.const) {
+            args[key] = value.value;
+        }
+
+        for (const [key, type] of Object.entries(this.queryArgs)) {
+            const values = path.getQueryValues(key);
+            if (typeof type === 'object' && 'const' in type) {
+                if (values[0] !== type.const) {
                     return undefined;
                 }
+            } else if (typeof type === 'object' && 'optional' in type) {
+                if (values.length === 0) {
+                    if (type.default !== undefined) {
+                        args[key] = type.default;
+                    }
+                    continue;
+                }
+                const value = parseQueryArg(type.optional, values);
+                if (!value) {
+                    return undefined;
+                }
+                args[key] = value.value;
             } else {
-                args[key] = value;
+                if (values.length === 0 && !isArrayArgType(type)) {
+                    return undefined;
+                }
+                const value = parseQueryArg(type, values);
+                if (!value) {
+                    return undefined;
+                }
+                args[key] = value.value;
             }
         }
         return args as TArgs;
@@ -75,18 +164,155 @@ export interface PathMatcher<T> {
     matches(path: NavigationPath): T | undefined;
 }
 
-export type PathArgs = Record<string, "string"/* | "number"*/>;
-export type QueryArgs = Record<string, "string" | { const: string }>;
+/**
+ * `"number"` and `"boolean"` values are parsed from and serialized to their string representation.
+ * Numbers have to be plain decimals (e.g. `12` or `-1.5`, but not `1e3`, `0x10` or `012`).
+ * Values that cannot be parsed (or are not part of the enum) don't match the route.
+ */
+export type ArgType = "string" | "number" | "boolean" | EnumArgType;
+
+export interface EnumArgType {
+    readonly enum: readonly string[];
+}
+
+/**
+ * Query args with this type collect all values of the query param (e.g. `?tag=a&tag=b`).
+ * A missing query param is an empty array.
+ */
+export interface ArrayArgType {
+    readonly array: ArgType;
+}
+
+/**
+ * A missing query param matches and is `undefined` in the args, or `default` if it is set.
+ * Values that are equal to `default` are omitted when building the path.
+ */
+export interface OptionalArgType {
+    readonly optional: ArgType | ArrayArgType;
+    readonly default?: ArgValue | readonly ArgValue[];
+}
+
+export interface ConstArgType {
+    readonly const: string;
+}
+
+type ArgValue = string | number | boolean;
+
+/**
+ * The args of a child route: the args of its parent and its own args.
+ */
+export type CombineArgs<TParent, TChild> =
+    [TParent] extends [void] ? TChild
+    : [TChild] extends [void] ? TParent
+    : TParent & TChild;
+
+export type PathArgs = Record<string, ArgType>;
+export type QueryArgs = Record<string, ArgType | ArrayArgType | OptionalArgType | ConstArgType>;
+
+export type ArgTypeToType<T> =
+    T extends "string" ? string
+    : T extends "number" ? number
+    : T extends "boolean" ? boolean
+    : T extends { readonly enum: readonly (infer TValue)[] } ? TValue
+    : T extends { readonly array: infer TItem } ? readonly ArgTypeToType<TItem>[]
+    : never;
 
 export type PathArgsToType<T extends PathArgs> = {
-    [TKey in keyof T]: {
-        string: string;
-    }[T[TKey]];
+    [TKey in keyof T]: ArgTypeToType<T[TKey]>;
 };
 
-type PrimitiveTypeMap = {
-    string: string
-};
+type RequiredQueryKeys<T extends QueryArgs> = {
+    [TKey in keyof T]: T[TKey] extends ConstArgType ? never
+    : T[TKey] extends { readonly optional: unknown; readonly default: {} } ? TKey
+    : T[TKey] extends OptionalArgType ? never
+    : TKey
+}[keyof T];
+
+type OptionalQueryKeys<T extends QueryArgs> = {
+    [TKey in keyof T]: T[TKey] extends { readonly default: {} } ? never
+    : T[TKey] extends OptionalArgType ? TKey
+    : never
+}[keyof T];
+
+type QueryArgTypeToType<T> = T extends { readonly optional: infer TInner } ? ArgTypeToType<TInner> : ArgTypeToType<T>;
+
 export type QueryArgsToType<T extends QueryArgs> = {
-    [TKey in keyof T]: T[TKey] extends keyof PrimitiveTypeMap ? PrimitiveTypeMap[T[TKey]] : never
-} extends infer O ? { [K in keyof O as O[K] extends never ? never : K]: O[K] } : never;
+    [TKey in RequiredQueryKeys<T>]: QueryArgTypeToType<T[TKey]>
+} & {
+    [TKey in OptionalQueryKeys<T>]?: QueryArgTypeToType<T[TKey]>
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+function isArrayArgType(type: ArgType | ArrayArgType): type is ArrayArgType {
+    return typeof type === 'object' && 'array' in type;
+}
+
+function parseArg(type: ArgType, value: string | undefined): { value: ArgValue } | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (type === 'string') {
+        return { value };
+    } else if (type === 'number') {
+        // Only plain decimals, so that building the path from the parsed value gives the same string
+        if (!/^-?(0|[1-9]\d*)(\.\d*[1-9])?$/.test(value) || value === '-0') {
+            return undefined;
+        }
+        return { value: Number(value) };
+    } else if (type === 'boolean') {
+        return value === 'true' ? { value: true } : value === 'false' ? { value: false } : undefined;
+    } else {
+        return type.enum.includes(value) ? { value } : undefined;
+    }
+}
+
+function parseQueryArg(type: ArgType | ArrayArgType, values: readonly string[]): { value: ArgValue | ArgValue[] } | undefined {
+    if (!isArrayArgType(type)) {
+        return parseArg(type, values[0]);
+    }
+    const result: ArgValue[] = [];
+    for (const v of values) {
+        const item = parseArg(type.array, v);
+        if (!item) {
+            return undefined;
+        }
+        result.push(item.value);
+    }
+    return { value: result };
+}
+
+function serializeArg(type: ArgType, value: unknown): string {
+    if (value === undefined) {
+        throw new Error(`Missing value for argument of type ${JSON.stringify(type)}`);
+    }
+    if (typeof type === 'object' && !type.enum.includes(value as string)) {
+        throw new Error(`Expected one of ${type.enum.join(', ')}, but got "${value}"`);
+    }
+    return String(value);
+}
+
+function serializeQueryArg(type: ArgType | ArrayArgType, value: unknown): string | string[] {
+    if (isArrayArgType(type)) {
+        return ((value ?? []) as readonly unknown[]).map(v => serializeArg(type.array, v));
+    }
+    return serializeArg(type, value);
+}
+
+/**
+ * Compares the values of the given args (as returned by {@link Route.matches}).
+ */
+export function argsEqual(a: {} | void, b: {} | void): boolean {
+    const recordA = (a ?? {}) as Record<string, unknown>;
+    const recordB = (b ?? {}) as Record<string, unknown>;
+    const keys = Object.keys(recordA);
+    if (keys.length !== Object.keys(recordB).length) {
+        return false;
+    }
+    return keys.every(key => key in recordB && argEquals(recordA[key], recordB[key]));
+}
+
+function argEquals(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((v, i) => v === b[i]);
+    }
+    return a === b;
+}
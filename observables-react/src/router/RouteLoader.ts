@@ -0,0 +1,88 @@
+import { AsyncState, CancellationToken, CancellationTokenSource, derived, IDisposable, IObservable, ITransaction, observableValue, PromiseResult, transaction } from "@vscode/observables";
+import { NavigationPath } from "./Path";
+import { argsEqual, Route } from "./Route";
+
+export type RouteLoaderFn<TArgs, T> = (args: TArgs, token: CancellationToken) => Promise<T>;
+
+/**
+ * Starts, keeps or cancels the load for the given path.
+ * The returned promise resolves when the load settles (it never rejects).
+ */
+export type RouteLoaderUpdate = (path: NavigationPath, tx: ITransaction | undefined) => Promise<void>;
+
+/**
+ * Loads data for a route when it is entered (see {@link Navigator.addLoader}).
+ * The load is cancelled when the route is left or entered with different args.
+ */
+export class RouteLoader<TArgs extends {} | void, T> implements IDisposable {
+    private readonly _state = observableValue<AsyncState<T> | undefined>(this, undefined);
+    private _args: TArgs | undefined = undefined;
+    private _cts: CancellationTokenSource | undefined = undefined;
+    private _settled: Promise<void> = Promise.resolve();
+    private readonly _registration: IDisposable;
+
+    /**
+     * The state of the latest load.
+     * Is `undefined` if the route is not active.
+     */
+    public readonly state: IObservable<AsyncState<T> | undefined> = this._state;
+
+    public readonly isLoading: IObservable<boolean> = derived(this, reader => this._state.read(reader)?.isLoading ?? false);
+
+    /** The data of the latest load if it resolved, otherwise undefined. */
+    public readonly value: IObservable<T | undefined> = derived(this, reader => this._state.read(reader)?.value);
+
+    /** The error of the latest load if it rejected, otherwise undefined. */
+    public readonly error: IObservable<unknown | undefined> = derived(this, reader => this._state.read(reader)?.error);
+
+    constructor(
+        public readonly route: Route<TArgs>,
+        private readonly _load: RouteLoaderFn<TArgs, T>,
+        register: (update: RouteLoaderUpdate) => IDisposable,
+    ) {
+        this._registration = register((path, tx) => this._update(path, tx));
+    }
+
+    private _update(path: NavigationPath, tx: ITransaction | undefined): Promise<void> {
+        const args = this.route.matches(path);
+        if (args === undefined) {
+            this._cancel();
+            this._args = undefined;
+            this._state.set(undefined, tx);
+            return Promise.resolve();
+        }
+        if (this._args !== undefined && argsEqual(this._args, args)) {
+            return this._settled;
+        }
+
+        this._cancel();
+        this._args = args;
+        const cts = this._cts = new CancellationTokenSource();
+        const lastValue = this._state.get()?.lastValue;
+        this._state.set(AsyncState.loading(lastValue), tx);
+
+        this._settled = Promise.resolve()
+            .then(() => this._load(args, cts.token))
+            .then(data => new PromiseResult<T>(data, undefined), error => new PromiseResult<T>(undefined, error))
+            .then(result => {
+                if (cts.token.isCancellationRequested) {
+                    return;
+                }
+                transaction(tx => {
+                    /** @description onRouteLoaded */
+                    this._state.set(AsyncState.fromResult(result, lastValue), tx);
+                });
+            });
+        return this._settled;
+    }
+
+    private _cancel(): void {
+        this._cts?.dispose();
+        this._cts = undefined;
+    }
+
+    public dispose(): void {
+        this._cancel();
+        this._registration.dispose();
+    }
+}
@@ -0,0 +1,163 @@
+import { autorun } from "@vscode/observables";
+import { describe, expect, it } from "vitest";
+import { MemoryHistory } from "./History";
+import { Navigator } from "./Navigator";
+import { NavigationPath } from "./Path";
+import { Route } from "./Route";
+import { Router } from "./Router";
+
+function route<TOut>(router: Router<TOut, unknown>, path: string) {
+    return router.route(NavigationPath.parse(path));
+}
+
+describe("Router", () => {
+    const project = Route.create("/projects/:id", { id: "number" });
+    const projectOverview = project.child("/");
+    const projectSettings = project.child("/settings", {}, { tab: { optional: "string" } });
+    const projectFile = project.child("/files/:name", { name: "string" });
+
+    const projectRoutes = Router.create<string>()
+        .with(projectOverview, ({ id }) => `overview ${id}`)
+        .with(projectSettings, ({ id, tab }) => `settings ${id} ${tab}`)
+        .with(projectFile, ({ id, name }) => `file ${id} ${name}`);
+
+    it("builds the paths of child routes", () => {
+        expect(projectOverview.path).toBe("/projects/:id");
+        expect(projectOverview.parent).toBe(project);
+        expect(projectFile.path).toBe("/projects/:id/files/:name");
+        expect(projectFile.build({ id: 1, name: "a b" }).toString()).toBe("/projects/1/files/a%20b");
+        expect(Route.create("/").child("/about").path).toBe("/about");
+        expect(Route.create("/").child("/").path).toBe("/");
+    });
+
+    it("rejects invalid child routes", () => {
+        expect(() => project.child("settings")).toThrow('Expected child path "settings" to start with "/"');
+        expect(() => Route.create("/files/::path", { path: "string" }).child("/x")).toThrow("catch-all segment");
+    });
+
+    it("matches the prefix of child routes with the parent route", () => {
+        expect(project.matchesPrefix(NavigationPath.parse("/projects/1/files/a"))).toEqual({ id: 1 });
+        expect(project.matchesPrefix(NavigationPath.parse("/projects/x/files/a"))).toBeUndefined();
+        expect(project.matches(NavigationPath.parse("/projects/1/files/a"))).toBeUndefined();
+    });
+
+    it("renders child routes inside their layout", () => {
+        const router = Router.create<string>()
+            .withLayout(project, projectRoutes, ({ id }, child) => `project ${id} [${child.out}]`);
+
+        const result = route(router, "/projects/1/files/readme");
+        expect(result?.out).toBe("project 1 [file 1 readme]");
+        expect(result?.matcher).toBe(project);
+        expect(result?.args).toEqual({ id: 1, name: "readme" });
+        expect(result?.child?.out).toBe("file 1 readme");
+        expect(result?.child?.matcher).toBe(projectFile);
+        expect(result?.child?.child).toBeUndefined();
+
+        expect(route(router, "/projects/1/settings?tab=general")?.child?.out).toBe("settings 1 general");
+    });
+
+    it("matches the index route of a layout with the path of the layout", () => {
+        const router = Router.create<string>()
+            .withLayout(project, projectRoutes, (_args, child) => `project [${child.out}]`);
+
+        expect(route(router, "/projects/1")?.out).toBe("project [overview 1]");
+    });
+
+    it("does not match layouts without matching child route", () => {
+        const notFound = Route.create("/::rest", { rest: "string" });
+        const router = Router.create<string>()
+            .with(notFound, ({ rest }) => `not found ${rest}`)
+            .withLayout(project, projectRoutes, (_args, child) => `project [${child.out}]`);
+
+        expect(route(router, "/projects/1/unknown")?.out).toBe("not found projects/1/unknown");
+        expect(route(router, "/projects/1/unknown")?.child).toBeUndefined();
+    });
+
+    it("nests layouts below the root route", () => {
+        const root = Route.create("/");
+        const home = root.child("/");
+        const about = root.child("/about");
+        const router = Router.create<string>()
+            .withLayout(root, Router.create<string>()
+                .with(home, () => "home")
+                .with(about, () => "about")
+                .withLayout(project, projectRoutes, (_args, child) => `project [${child.out}]`),
+                (_args, child) => `app [${child.out}]`);
+
+        expect(route(router, "/")?.out).toBe("app [home]");
+        expect(route(router, "/about")?.out).toBe("app [about]");
+        expect(route(router, "/projects/2/settings")?.out).toBe("app [project [settings 2 undefined]]");
+        expect(route(router, "/projects/2/settings")?.child?.child?.out).toBe("settings 2 undefined");
+        expect(route(router, "/unknown")).toBeUndefined();
+    });
+
+    describe("observeRoute", () => {
+        const file = Route.create("/files/:name", { name: "string" }, { line: { optional: "number" } });
+        const other = Route.create("/other");
+
+        function createRouter(log: string[]) {
+            const create = (name: string) => {
+                log.push(`create ${name}`);
+                return { name, dispose: () => log.push(`dispose ${name}`) };
+            };
+            const fileRoutes = Router.create<{ name: string; dispose(): void }>()
+                .with(file, ({ name }) => create(name));
+            return Router.create<{ name: string; dispose(): void }>()
+                .with(other, () => create("other"))
+                .withLayout(Route.create("/files"), fileRoutes, (_args, child) => create(`layout(${child.out.name})`));
+        }
+
+        it("reuses outputs while the args are equal and disposes replaced outputs", async () => {
+            const log: string[] = [];
+            const navigator = new Navigator(new MemoryHistory("/files/a"));
+            const result = createRouter(log).observeRoute(navigator);
+            const d = autorun(reader => { result.read(reader); });
+            expect(log).toEqual(["create a", "create layout(a)"]);
+
+            log.length = 0;
+            await navigator.navigateToPath(NavigationPath.parse("/files/a?unrelated=1"));
+            expect(result.get()?.out.name).toBe("layout(a)");
+            expect(log).toEqual([]);
+
+            await navigator.navigateTo(file, { name: "b" });
+            expect(log).toEqual(["create b", "create layout(b)", "dispose layout(a)", "dispose a"]);
+
+            log.length = 0;
+            await navigator.navigateTo(other);
+            expect(log).toEqual(["create other", "dispose layout(b)", "dispose b"]);
+
+            log.length = 0;
+            d.dispose();
+            expect(log).toEqual(["dispose other"]);
+            navigator.dispose();
+        });
+
+        it("recreates the outputs if a query arg of the route changes", async () => {
+            const log: string[] = [];
+            const navigator = new Navigator(new MemoryHistory("/files/a"));
+            const result = createRouter(log).observeRoute(navigator);
+            const d = autorun(reader => { result.read(reader); });
+
+            log.length = 0;
+            await navigator.navigateTo(file, { name: "a", line: 2 });
+            expect(log).toEqual(["create a", "create layout(a)", "dispose layout(a)", "dispose a"]);
+
+            d.dispose();
+            navigator.dispose();
+        });
+
+        it("disposes the outputs of unobserved reads before returning them", () => {
+            const log: string[] = [];
+            const navigator = new Navigator(new MemoryHistory("/other"));
+            const router = createRouter(log);
+
+            expect(router.observeRoute(navigator).get()?.out.name).toBe("other");
+            expect(log).toEqual(["create other", "dispose other"]);
+
+            log.length = 0;
+            expect(router.route(navigator.currentPath.get())?.out.name).toBe("other");
+            expect(log).toEqual(["create other"]);
+            navigator.dispose();
+        });
+    });
+});
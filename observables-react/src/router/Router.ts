@@ -1,5 +1,7 @@
+import { derivedOpts, IDisposable, IObservable } from "@vscode/observables";
+import type { Navigator } from "./Navigator";
 import { NavigationPath } from "./Path";
-import { PathMatcher } from "./Route";
+import { argsEqual, PathMatcher, Route } from "./Route";
 
 export class Router<TOut, TRouteArgs = {}> {
     public static create<TData>(): Router<TData, {}> {
@@ -13,24 +15,91 @@ export class Router<TOut, TRouteArgs = {}> {
     ) { }
 
     public with<TNewArgs>(matcher: PathMatcher<TNewArgs>, dataProvider: (args: TNewArgs) => TOut): Router<TOut, TRouteArgs & TNewArgs> {
-        return new Router(this, { matcher: matcher as PathMatcher<unknown>, dataProvider: dataProvider as (args: unknown) => TOut });
+        const addedRoute: AddedRoute<TOut> = {
+            matcher: matcher as PathMatcher<unknown>,
+            match: path => {
+                const args = matcher.matches(path);
+                return args ? { route: addedRoute, args, child: undefined } : undefined;
+            },
+            getOut: args => dataProvider(args as TNewArgs),
+        };
+        return new Router(this, addedRoute);
     }
 
+    /**
+     * Adds the routes of `children` (usually created with {@link Route.child}) below the layout `route`.
+     * If a child route matches, the result has the output of `layout` and the child result as `child`
+     * (see `RouterOutlet`).
+     */
+    public withLayout<TLayoutArgs extends {} | void, TChildArgs>(
+        route: Route<TLayoutArgs>,
+        children: Router<TOut, TChildArgs>,
+        layout: (args: TLayoutArgs, child: RouteResult<TOut, TChildArgs>) => TOut
+    ): Router<TOut, TRouteArgs & TChildArgs> {
+        const addedRoute: AddedRoute<TOut> = {
+            matcher: route as PathMatcher<unknown>,
+            match: path => {
+                const child = children._match(path);
+                if (!child) {
+                    return undefined;
+                }
+                const args = route.matchesPrefix(path);
+                if (!args) {
+                    return undefined;
+                }
+                return { route: addedRoute, args, child };
+            },
+            getOut: (args, child) => layout(args as TLayoutArgs, child as RouteResult<TOut, TChildArgs>),
+        };
+        return new Router(this, addedRoute);
+    }
+
+    /**
+     * Matches the path and creates new outputs, which are owned by the caller.
+     */
     public route(path: NavigationPath): RouteResult<TOut, TRouteArgs> | undefined {
-        if (this._addedRoute) {
-            const args = this._addedRoute.matcher.matches(path);
-            if (args) {
-                return {
-                    args: args as TRouteArgs,
-                    out: this._addedRoute.dataProvider(args),
-                    matcher: this._addedRoute.matcher,
-                };
-            }
+        const match = this._match(path);
+        if (!match) {
+            return undefined;
         }
-        if (this._parent) {
-            return this._parent.route(path) as RouteResult<TOut, TRouteArgs> | undefined;
+        return resolveMatch(match, undefined, () => { }).result as RouteResult<TOut, TRouteArgs>;
+    }
+
+    /**
+     * The result for the current path of the navigator.
+     *
+     * Results are reused as long as the same routes match with equal args, so data providers only run when the match changes.
+     * Outputs that implement `IDisposable` are disposed when they are no longer used (or when the observable is no longer observed).
+     *
+     * Like other observables that own disposables (e.g. `derivedDisposable`), the result is only kept while the observable is observed:
+     * reading it without observing it (`get()` outside of a reader) disposes the outputs before they are returned.
+     * Use {@link route} to get a result that is not disposed.
+     */
+    public observeRoute(navigator: Navigator): IObservable<RouteResult<TOut, TRouteArgs> | undefined> {
+        let resolved: IResolvedMatch<TOut> | undefined = undefined;
+        return derivedOpts({
+            owner: this,
+            debugName: 'route',
+            onLastObserverRemoved: () => {
+                disposeResolvedMatch(resolved, undefined);
+                resolved = undefined;
+            },
+        }, reader => {
+            const match = this._match(navigator.currentPath.read(reader));
+            const previous = resolved;
+            const reused = new Set<IResolvedMatch<TOut>>();
+            resolved = match ? resolveMatch(match, previous, r => reused.add(r)) : undefined;
+            disposeResolvedMatch(previous, reused);
+            return resolved?.result as RouteResult<TOut, TRouteArgs> | undefined;
+        });
+    }
+
+    private _match(path: NavigationPath): IRouteMatch<TOut> | undefined {
+        const match = this._addedRoute?.match(path);
+        if (match) {
+            return match;
         }
-        return undefined;
+        return this._parent?._match(path);
     }
 }
 
@@ -38,9 +107,63 @@ export interface RouteResult<TOut, TArgs> {
     args: TArgs;
     out: TOut;
     matcher: PathMatcher<unknown>;
+    /**
+     * The matched child route of a layout route (see {@link Router.withLayout}).
+     */
+    child: RouteResult<TOut, unknown> | undefined;
 }
 
 interface AddedRoute<TData> {
-    matcher: PathMatcher<unknown>;
-    dataProvider: (args: unknown) => TData;
+    readonly matcher: PathMatcher<unknown>;
+    match(path: NavigationPath): IRouteMatch<TData> | undefined;
+    getOut(args: unknown, child: RouteResult<TData, unknown> | undefined): TData;
+}
+
+interface IRouteMatch<TData> {
+    readonly route: AddedRoute<TData>;
+    readonly args: unknown;
+    readonly child: IRouteMatch<TData> | undefined;
+}
+
+interface IResolvedMatch<TData> {
+    readonly route: AddedRoute<TData>;
+    readonly args: unknown;
+    readonly child: IResolvedMatch<TData> | undefined;
+    readonly result: RouteResult<TData, unknown>;
+}
+
+function resolveMatch<TData>(
+    match: IRouteMatch<TData>,
+    previous: IResolvedMatch<TData> | undefined,
+    handleReused: (resolved: IResolvedMatch<TData>) => void
+): IResolvedMatch<TData> {
+    const child = match.child ? resolveMatch(match.child, previous?.child, handleReused) : undefined;
+    if (previous && previous.route === match.route && argsEqual(previous.args as {}, match.args as {}) && previous.child?.result === child?.result) {
+        handleReused(previous);
+        return previous;
+    }
+    const out = match.route.getOut(match.args, child?.result);
+    return {
+        route: match.route,
+        args: match.args,
+        child,
+        result: {
+            args: child ? child.result.args : match.args,
+            out,
+            matcher: match.route.matcher,
+            child: child?.result,
+        },
+    };
+}
+
+function disposeResolvedMatch<TData>(resolved: IResolvedMatch<TData> | undefined, keep: Set<IResolvedMatch<TData>> | undefined): void {
+    for (let r = resolved; r; r = r.child) {
+        if (keep?.has(r)) {
+            continue;
+        }
+        const out = r.result.out as Partial<IDisposable> | undefined;
+        if (out && typeof out.dispose === 'function') {
+            out.dispose();
+        }
+    }
 }
@@ -0,0 +1,60 @@
+import { ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { MemoryHistory } from "./History";
+import { Navigator } from "./Navigator";
+import { NavigatorProvider } from "./NavigatorContext";
+import { Route } from "./Route";
+import { Router } from "./Router";
+import { RouterOutlet } from "./RouterOutlet";
+
+describe("RouterOutlet", () => {
+    const root = Route.create("/");
+    const home = root.child("/");
+    const project = root.child("/projects/:id", { id: "number" });
+    const projectOverview = project.child("/");
+    const projectSettings = project.child("/settings");
+
+    const router = Router.create<ReactNode>()
+        .withLayout(root, Router.create<ReactNode>()
+            .with(home, () => <p>home</p>)
+            .withLayout(project, Router.create<ReactNode>()
+                .with(projectOverview, ({ id }) => <p>overview {id}</p>)
+                .with(projectSettings, ({ id }) => <p>settings {id}</p>),
+                ({ id }) => <section>project {id}: <RouterOutlet /></section>),
+            () => <main><RouterOutlet /></main>);
+
+    function render(path: string, element: (navigator: Navigator) => ReactNode): string {
+        const navigator = new Navigator(new MemoryHistory(path));
+        try {
+            return renderToStaticMarkup(element(navigator));
+        } finally {
+            navigator.dispose();
+        }
+    }
+
+    it("renders the outputs of nested routes in nested outlets", () => {
+        const element = (navigator: Navigator) => <RouterOutlet router={router} navigator={navigator} />;
+        expect(render("/", element)).toBe("<main><p>home</p></main>");
+        expect(render("/projects/1", element)).toBe("<main><section>project 1: <p>overview 1</p></section></main>");
+        expect(render("/projects/1/settings", element)).toBe("<main><section>project 1: <p>settings 1</p></section></main>");
+    });
+
+    it("renders the fallback if no route matches", () => {
+        expect(render("/unknown", navigator => <RouterOutlet router={router} navigator={navigator} fallback="not found" />))
+            .toBe("not found");
+    });
+
+    it("uses the navigator of the NavigatorProvider", () => {
+        expect(render("/projects/2", navigator => <NavigatorProvider navigator={navigator}><RouterOutlet router={router} /></NavigatorProvider>))
+            .toBe("<main><section>project 2: <p>overview 2</p></section></main>");
+    });
+
+    it("renders the fallback in a nested outlet without outer route", () => {
+        expect(render("/", () => <RouterOutlet fallback="empty" />)).toBe("empty");
+    });
+
+    it("requires a navigator if a router is given", () => {
+        expect(() => renderToStaticMarkup(<RouterOutlet router={router} />)).toThrow("a navigator or NavigatorProvider is required");
+    });
+});
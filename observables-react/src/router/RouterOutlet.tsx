@@ -0,0 +1,63 @@
+import { derived, IObservable } from "@vscode/observables";
+import { Context, createContext, ReactNode } from "react";
+import { obsView } from "../obsView";
+import { Navigator } from "./Navigator";
+import { NavigatorContext } from "./NavigatorContext";
+import { Router, RouteResult } from "./Router";
+
+const RouteResultContext = createContext<RouteResult<ReactNode, unknown> | undefined>(undefined);
+
+export interface RouterOutletProps {
+    /**
+     * The router to match the current path of the navigator against.
+     * If omitted, the outlet renders the child of the route that is rendered by the closest outer outlet.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    router?: Router<ReactNode, any>;
+    /** Defaults to the navigator of the closest `NavigatorProvider`. */
+    navigator?: Navigator;
+    /** Rendered if no route matches. */
+    fallback?: ReactNode;
+}
+
+/**
+ * Renders the output of the matched route and re-renders when the current path changes.
+ * Layouts (see `Router.withLayout`) render a nested `<RouterOutlet />` where the matched child route should appear.
+ * Usage: <RouterOutlet router={router} navigator={navigator} />
+ */
+export const RouterOutlet = obsView<RouterOutletProps>("RouterOutlet", (props, getContextValues) => {
+    // Keep the observed route (and its memoized outputs) as long as router and navigator don't change
+    let last: { router: RouterOutletProps["router"]; navigator: Navigator; route: IObservable<RouteResult<ReactNode, unknown> | undefined> } | undefined;
+    const route = derived(reader => {
+        const { router, navigator: navigatorProp } = props.read(reader);
+        if (!router) {
+            return undefined;
+        }
+        const navigator = navigatorProp ?? getContextValues().get(NavigatorContext as Context<unknown>) as Navigator | null;
+        if (!navigator) {
+            throw new Error("RouterOutlet: a navigator or NavigatorProvider is required when a router is given");
+        }
+        if (last?.router !== router || last.navigator !== navigator) {
+            last = { router, navigator, route: router.observeRoute(navigator) };
+        }
+        return last.route;
+    });
+
+    return reader => {
+        const { fallback } = props.read(reader);
+
+        const routeObs = route.read(reader);
+        let result: RouteResult<ReactNode, unknown> | undefined;
+        if (routeObs) {
+            result = routeObs.read(reader);
+        } else {
+            const parent = getContextValues().get(RouteResultContext as Context<unknown>) as RouteResult<ReactNode, unknown> | undefined;
+            result = parent?.child;
+        }
+
+        if (!result) {
+            return fallback ?? null;
+        }
+        return <RouteResultContext.Provider value={result}>{result.out}</RouteResultContext.Provider>;
+    };
+}, [RouteResultContext as Context<unknown>, NavigatorContext as Context<unknown>]);
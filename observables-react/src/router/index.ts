@@ -2,8 +2,16 @@ export { NavigationPath } from './Path';
 export type { QueryArgs } from './Path';
 export { PathPattern } from './PathPattern';
 export { Route } from './Route';
-export type { PathMatcher, PathArgs, PathArgsToType, QueryArgsToType, QueryArgs as RouteQueryArgs } from './Route';
+export { argsEqual } from './Route';
+export type { PathMatcher, PathArgs, PathArgsToType, QueryArgsToType, QueryArgs as RouteQueryArgs, ArgType, ArgTypeToType, EnumArgType, ArrayArgType, OptionalArgType, ConstArgType, CombineArgs } from './Route';
 export { Router } from './Router';
 export type { RouteResult } from './Router';
 export { Navigator } from './Navigator';
-export type { ILinkData } from './Navigator';
+export type { ILinkData, INavigationEvent, NavigationKind, NavigationGuard, NavigationGuardResult } from './Navigator';
+export { RouteLoader } from './RouteLoader';
+export { BrowserHistory, HashHistory, MemoryHistory } from './History';
+export type { IHistoryBackend } from './History';
+export type { RouteLoaderFn } from './RouteLoader';
+export { RouterOutlet } from './RouterOutlet';
+export { NavigatorContext, NavigatorProvider, useNavigator, routeArgs } from './NavigatorContext';
+export type { RouterOutletProps } from './RouterOutlet';
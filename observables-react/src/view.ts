@@ -2,19 +2,23 @@ import { IReader } from "@vscode/observables";
 import React from "react";
 import { obsView } from "./obsView";
 import { mapObject } from "./utils";
-import { PropsDesc, PropsIn, PropsOut } from "./viewModel";
+import { collectRequiredContexts, PropsDesc, PropsOut, WithOptionalInjected } from "./viewModel";
 
 /**
  * Creates a React component with typed observable props.
  * Props are transformed according to their IPropertyTransformerFactory.
+ * Transformers that require a context (e.g. `inject`, `routeArgs`) receive its value and can be overridden by props.
  */
 export function view<T extends PropsDesc>(
     props: T,
     render: (reader: IReader, props: PropsOut<T>) => React.ReactNode
-): React.ComponentType<PropsIn<T>> {
-    return obsView('view', (p) => {
+): React.ComponentType<WithOptionalInjected<T>> {
+    const requiredContexts = collectRequiredContexts(props);
+
+    return obsView<WithOptionalInjected<T>>('view', (p, getContextValues) => {
+        const contextValues = getContextValues();
         const readableProps = mapObject(props, (value, key) => {
-            return value.create(reader => p.read(reader)[key], undefined);
+            return value.create(reader => (p.read(reader) as Record<string, unknown>)[key], contextValues.get(value._requiredContext!));
         });
 
         return reader => {
@@ -23,5 +27,5 @@ export function view<T extends PropsDesc>(
             });
             return render(reader, propValues);
         };
-    });
+    }, requiredContexts.length > 0 ? requiredContexts : undefined);
 }
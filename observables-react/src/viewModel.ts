@@ -15,6 +15,32 @@ export type PropsOut<T extends PropsDesc> = {
     [K in keyof T]: T[K] extends IPropertyTransformerFactory<any, infer U> ? U : never;
 };
 
+/** Check if a transformer has _requiredContext defined (injected) */
+type HasRequiredContext<T> = T extends { _requiredContext: Context<unknown> } ? true : false;
+
+/** Required props: non-injected properties that must be provided */
+type RequiredProps<T extends PropsDesc> = {
+    [K in keyof T as HasRequiredContext<T[K]> extends true ? never : K]: T[K] extends IPropertyTransformerFactory<infer U, any> ? U : never;
+};
+
+/** Optional props: injected properties that can be overridden */
+type OptionalProps<T extends PropsDesc> = {
+    [K in keyof T as HasRequiredContext<T[K]> extends true ? K : never]?: T[K] extends IPropertyTransformerFactory<any, infer U> ? U : never;
+};
+
+/** Combined props type: required + optional injected */
+export type WithOptionalInjected<T extends PropsDesc> = RequiredProps<T> & OptionalProps<T>;
+
+/** Collect unique _requiredContext from transformers */
+export function collectRequiredContexts(propsDesc: PropsDesc): Context<unknown>[] {
+    const contexts: Context<unknown>[] = [];
+    for (const t of Object.values(propsDesc)) {
+        const ctx = t._requiredContext;
+        if (ctx && !contexts.includes(ctx)) contexts.push(ctx);
+    }
+    return contexts;
+}
+
 export class BaseViewModel<TProps> implements IDisposable {
     protected readonly props: TProps;
     protected _store = new DisposableStore();
@@ -1,42 +1,17 @@
 import { derivedDisposable, IDisposable, IReader } from "@vscode/observables";
 import React, { Context } from "react";
-import { IPropertyTransformerFactory } from "./IPropertyTransformer";
 import { obsView } from "./obsView";
 import { mapObject } from "./utils";
 import {
     BaseViewModel,
+    collectRequiredContexts,
     getOrCreateViewModelContext,
     PropsDesc,
     PropsOut,
     ViewModelContextSymbol,
+    WithOptionalInjected,
 } from "./viewModel";
 
-/** Check if a transformer has _requiredContext defined (injected) */
-type HasRequiredContext<T> = T extends { _requiredContext: Context<unknown> } ? true : false;
-
-/** Required props: non-injected properties that must be provided */
-type RequiredProps<T extends PropsDesc> = {
-    [K in keyof T as HasRequiredContext<T[K]> extends true ? never : K]: T[K] extends IPropertyTransformerFactory<infer U, any> ? U : never;
-};
-
-/** Optional props: injected properties that can be overridden */
-type OptionalProps<T extends PropsDesc> = {
-    [K in keyof T as HasRequiredContext<T[K]> extends true ? K : never]?: T[K] extends IPropertyTransformerFactory<any, infer U> ? U : never;
-};
-
-/** Combined props type: required + optional injected */
-type WithOptionalInjected<T extends PropsDesc> = RequiredProps<T> & OptionalProps<T>;
-
-/** Collect unique _requiredContext from transformers */
-function collectRequiredContexts(propsDesc: PropsDesc): Context<unknown>[] {
-    const contexts: Context<unknown>[] = [];
-    for (const t of Object.values(propsDesc)) {
-        const ctx = t._requiredContext;
-        if (ctx && !contexts.includes(ctx)) contexts.push(ctx);
-    }
-    return contexts;
-}
-
 // Overload 1: ViewModel-based classes with _props, no additional props
 export function viewWithModel<
     TModelProps extends PropsDesc,
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        // The playwright tests in ./e2e run separately (see test:e2e)
+        include: ['src/**/*.test.ts', 'src/**/*.test.tsx'],
+    },
+});
@@ -11,7 +11,7 @@ const banner = `/*--------------------------------------------------------------
 export default [
 	// Development build - preserves modules for better debugging
 	{
-		input: 'src/index.ts',
+		input: ['src/index.ts', 'src/testing.ts'],
 		output: {
 			dir: 'dist',
 			format: 'esm',
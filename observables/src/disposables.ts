@@ -2,15 +2,43 @@ export interface IDisposable {
     dispose(): void;
 }
 
+/**
+ * Gets notified about the lifetime of disposables, e.g. to detect leaks.
+ */
+export interface IDisposableTracker {
+    trackDisposable(disposable: IDisposable): void;
+    markAsDisposed(disposable: IDisposable): void;
+}
+
+let disposableTracker: IDisposableTracker | undefined = undefined;
+
+export function setDisposableTracker(tracker: IDisposableTracker | undefined): void {
+    disposableTracker = tracker;
+}
+
+export function trackDisposable<T extends IDisposable>(disposable: T): T {
+    disposableTracker?.trackDisposable(disposable);
+    return disposable;
+}
+
+export function markAsDisposed(disposable: IDisposable): void {
+    disposableTracker?.markAsDisposed(disposable);
+}
+
 export class DisposableStore implements IDisposable {
     private disposables: IDisposable[] = [];
     private _isDisposed = false;
 
     get isDisposed(): boolean { return this._isDisposed; }
 
+    constructor() {
+        trackDisposable(this);
+    }
+
     dispose(): void {
         this.clear();
         this._isDisposed = true;
+        markAsDisposed(this);
     }
 
     add<T extends IDisposable | undefined>(disposable: T): T {
@@ -46,8 +74,13 @@ export class DisposableStore implements IDisposable {
 export abstract class Disposable implements IDisposable {
     protected readonly _store = new DisposableStore();
 
+    constructor() {
+        trackDisposable(this);
+    }
+
     dispose(): void {
         this._store.dispose();
+        markAsDisposed(this);
     }
 
     protected _register<T extends IDisposable>(t: T): T {
@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IReader } from './base';
+
+let ambientReader: IReader | undefined = undefined;
+
+/**
+ * Returns the reader of the derived or autorun that is currently computing.
+ * Only used by APIs that track reads implicitly (see {@link ObservableStore}), everything else takes an explicit reader.
+ */
+export function getAmbientReader(): IReader | undefined {
+	return ambientReader;
+}
+
+/**
+ * Runs {@link fn} with {@link reader} as ambient reader.
+ */
+export function runWithAmbientReader<T>(reader: IReader, fn: () => T): T {
+	const previous = ambientReader;
+	ambientReader = reader;
+	try {
+		return fn();
+	} finally {
+		ambientReader = previous;
+	}
+}
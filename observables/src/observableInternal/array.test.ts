@@ -0,0 +1,96 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { applyArraySplice, autorunHandleChanges, IArraySplice, ObservableArray, transaction } from './index';
+import { recordAutorunRuns } from './testing';
+
+function recordSplices<T>(array: ObservableArray<T>) {
+	const splices: IArraySplice<T>[][] = [];
+	const d = autorunHandleChanges({
+		changeTracker: {
+			createChangeSummary: () => [] as IArraySplice<T>[],
+			handleChange: (ctx, summary) => {
+				if (ctx.didChange(array.observable)) {
+					summary.push(ctx.change);
+				}
+				return true;
+			},
+		},
+	}, (reader, summary) => {
+		array.observable.read(reader);
+		splices.push(summary);
+	});
+	return { splices, dispose: () => d.dispose() };
+}
+
+describe('ObservableArray', () => {
+	it('reports a splice for every modification', () => {
+		const array = new ObservableArray([1, 2, 3]);
+		const recording = recordSplices(array);
+
+		array.push(4);
+		array.removeAt(0);
+		array.set(0, 20);
+		array.set(0, 20);
+		array.unshift(0);
+		array.splice(-2, 5, [7, 8]);
+
+		expect(recording.splices).toEqual([
+			[],
+			[{ start: 3, deleteCount: 0, items: [4] }],
+			[{ start: 0, deleteCount: 1, items: [] }],
+			[{ start: 0, deleteCount: 1, items: [20] }],
+			[{ start: 0, deleteCount: 0, items: [0] }],
+			[{ start: 2, deleteCount: 2, items: [7, 8] }],
+		]);
+		expect(array.toArray()).toEqual([0, 20, 7, 8]);
+
+		recording.dispose();
+	});
+
+	it('reports all splices of a transaction in order', () => {
+		const array = new ObservableArray(['a', 'b', 'c']);
+		const copy = array.toArray();
+		const recording = recordSplices(array);
+
+		transaction(tx => {
+			array.pop(tx);
+			array.insert(1, 'x', tx);
+			array.shift(tx);
+			array.push('y', tx);
+		});
+
+		expect(recording.splices).toHaveLength(2);
+		for (const splice of recording.splices[1]) {
+			applyArraySplice(copy, splice);
+		}
+		expect(copy).toEqual(array.toArray());
+		expect(copy).toEqual(['x', 'b', 'y']);
+
+		recording.dispose();
+	});
+
+	it('does not report no-op modifications', () => {
+		const array = new ObservableArray<number>();
+		const recording = recordAutorunRuns(array.observable);
+
+		expect(array.pop()).toBe(undefined);
+		expect(array.shift()).toBe(undefined);
+		array.splice(0, 0);
+		array.clear();
+		expect(recording.runCount).toBe(1);
+
+		array.replaceAll([1, 2]);
+		expect(recording.runCount).toBe(2);
+
+		recording.dispose();
+	});
+
+	it('throws for out of bounds sets', () => {
+		const array = new ObservableArray([1]);
+		expect(() => array.set(1, 2)).toThrow(RangeError);
+	});
+});
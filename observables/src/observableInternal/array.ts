@@ -0,0 +1,151 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservableWithChange, ISettableObservable, ITransaction } from './base';
+import { observableValueOpts } from './observables/observableValueOpts';
+
+/**
+ * Describes a single modification of an array.
+ * At index {@link start}, {@link deleteCount} items were removed and {@link items} were inserted.
+ */
+export interface IArraySplice<T> {
+	readonly start: number;
+	readonly deleteCount: number;
+	readonly items: readonly T[];
+}
+
+/**
+ * Applies the given splice to the array (in place).
+ * Applying all reported splices in order to a copy of the previous array results in the current array.
+ */
+export function applyArraySplice<T>(array: T[], splice: IArraySplice<T>): void {
+	array.splice(splice.start, splice.deleteCount, ...splice.items);
+}
+
+export class ObservableArray<T> implements Iterable<T> {
+	private readonly _data: T[];
+
+	private readonly _obs: ISettableObservable<readonly T[], IArraySplice<T>>;
+
+	/**
+	 * Reports a splice for every modification.
+	 * Observers receive all splices of a transaction in order.
+	 */
+	readonly observable: IObservableWithChange<readonly T[], IArraySplice<T>>;
+
+	constructor(initialItems: Iterable<T> = []) {
+		this._data = [...initialItems];
+		this._obs = observableValueOpts<readonly T[], IArraySplice<T>>({ equalsFn: () => false }, this._data);
+		this.observable = this._obs;
+	}
+
+	get length(): number {
+		return this._data.length;
+	}
+
+	get(index: number): T | undefined {
+		return this._data[index];
+	}
+
+	indexOf(value: T, fromIndex?: number): number {
+		return this._data.indexOf(value, fromIndex);
+	}
+
+	includes(value: T): boolean {
+		return this._data.includes(value);
+	}
+
+	/**
+	 * Removes {@link deleteCount} items at {@link start} and inserts {@link items} there.
+	 * Returns the removed items.
+	 */
+	splice(start: number, deleteCount: number, items: readonly T[] = [], tx?: ITransaction): T[] {
+		const length = this._data.length;
+		start = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+		deleteCount = Math.min(Math.max(deleteCount, 0), length - start);
+
+		if (deleteCount === 0 && items.length === 0) {
+			return [];
+		}
+		const removed = this._data.splice(start, deleteCount, ...items);
+		this._obs.set(this._data, tx, { start, deleteCount, items: [...items] });
+		return removed;
+	}
+
+	set(index: number, value: T, tx?: ITransaction): void {
+		if (index < 0 || index >= this._data.length) {
+			throw new RangeError(`Index ${index} is out of bounds`);
+		}
+		if (this._data[index] === value) {
+			return;
+		}
+		this.splice(index, 1, [value], tx);
+	}
+
+	push(value: T, tx?: ITransaction): number {
+		this.splice(this._data.length, 0, [value], tx);
+		return this._data.length;
+	}
+
+	pop(tx?: ITransaction): T | undefined {
+		if (this._data.length === 0) {
+			return undefined;
+		}
+		return this.splice(this._data.length - 1, 1, [], tx)[0];
+	}
+
+	unshift(value: T, tx?: ITransaction): number {
+		this.splice(0, 0, [value], tx);
+		return this._data.length;
+	}
+
+	shift(tx?: ITransaction): T | undefined {
+		if (this._data.length === 0) {
+			return undefined;
+		}
+		return this.splice(0, 1, [], tx)[0];
+	}
+
+	insert(index: number, value: T, tx?: ITransaction): void {
+		this.splice(index, 0, [value], tx);
+	}
+
+	removeAt(index: number, tx?: ITransaction): T | undefined {
+		return this.splice(index, 1, [], tx)[0];
+	}
+
+	/**
+	 * Replaces all items with the given items (reported as a single splice).
+	 */
+	replaceAll(items: readonly T[], tx?: ITransaction): void {
+		this.splice(0, this._data.length, items, tx);
+	}
+
+	clear(tx?: ITransaction): void {
+		this.splice(0, this._data.length, [], tx);
+	}
+
+	forEach(callbackfn: (value: T, index: number, array: readonly T[]) => void, thisArg?: any): void {
+		this._data.forEach((value, index) => {
+			callbackfn.call(thisArg, value, index, this._data);
+		});
+	}
+
+	toArray(): T[] {
+		return [...this._data];
+	}
+
+	*values(): IterableIterator<T> {
+		yield* this._data.values();
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this.values();
+	}
+
+	get [Symbol.toStringTag](): string {
+		return 'ObservableArray';
+	}
+}
@@ -22,6 +22,21 @@ export interface IChangeContext {
 	didChange<T, TChange>(observable: IObservableWithChange<T, TChange>): this is { change: TChange };
 }
 
+/**
+ * Collects the change deltas of the given observable since the last update.
+*/
+export function collectChanges<TChange>(observable: IObservableWithChange<unknown, TChange>): IChangeTracker<TChange[]> {
+	return {
+		createChangeSummary: () => [],
+		handleChange(ctx, changes) {
+			if (ctx.didChange(observable)) {
+				changes.push(ctx.change);
+			}
+			return true;
+		},
+	};
+}
+
 /**
  * Subscribes to and records changes and the last value of the given observables.
  * Don't use the key "changes", as it is reserved for the changes array!
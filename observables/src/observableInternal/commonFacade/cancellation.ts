@@ -15,8 +15,9 @@ export class CancellationTokenSource {
     private _listeners: Set<() => void> = new Set();
 
     get token(): CancellationToken {
+        const source = this;
         return {
-            isCancellationRequested: this._isCancelled,
+            get isCancellationRequested() { return source._isCancelled; },
             onCancellationRequested: (listener: () => void) => {
                 this._listeners.add(listener);
                 if (this._isCancelled) {
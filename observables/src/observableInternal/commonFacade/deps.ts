@@ -4,13 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { IDisposable } from '../../disposables';
-export { DisposableStore, IDisposable } from '../../disposables';
-
-export function markAsDisposed(_obj: any): void {
-}
-
-export function trackDisposable(_obj: any): void {
-}
+export { DisposableStore, IDisposable, markAsDisposed, trackDisposable } from '../../disposables';
 
 export function assertFn(_condition: () => boolean): void {
 }
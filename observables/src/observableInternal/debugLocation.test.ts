@@ -0,0 +1,37 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DebugLocation, derived, observableValue } from './index';
+import { BaseObservable } from './observables/baseObservable';
+
+describe('DebugLocation', () => {
+	beforeAll(() => {
+		DebugLocation.enable();
+	});
+
+	function currentLine(): number {
+		return parseInt(new Error().stack!.split('\n')[2].match(/:(\d+):\d+\)?$/)![1]);
+	}
+
+	it('ofCaller returns the caller of the function that calls it', () => {
+		function getLocation() {
+			return DebugLocation.ofCaller();
+		}
+		const line = currentLine(); const location = getLocation();
+
+		expect(location?.fileName).toMatch(/debugLocation\.test\.ts$/);
+		expect(location?.line).toBe(line);
+	});
+
+	it('points deriveds and observable values to their declaration', () => {
+		const line = currentLine(); const obs = observableValue('value', 0); const d = derived(reader => obs.read(reader));
+
+		for (const location of [obs, d].map(o => (o as BaseObservable<number>).debugLocation)) {
+			expect(location?.fileName).toMatch(/debugLocation\.test\.ts$/);
+			expect(location?.line).toBe(line);
+		}
+	});
+});
@@ -22,12 +22,13 @@ export namespace DebugLocation {
 		}
 		const Err = Error as any as { stackTraceLimit: number }; // For the monaco editor checks, which don't have the nodejs types.
 
+		// Frames: ofNthCaller, ofCaller, the function that wants to know its caller, the caller.
 		const l = Err.stackTraceLimit;
-		Err.stackTraceLimit = 3;
+		Err.stackTraceLimit = n + 3;
 		const stack = new Error().stack!;
 		Err.stackTraceLimit = l;
 
-		return DebugLocationImpl.fromStack(stack, n + 1);
+		return DebugLocationImpl.fromStack(stack, n + 2);
 	}
 }
 
@@ -0,0 +1,129 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { derivedWithSetter, ObservableHistory, ObservableMap, ObservableSet, observableValue, transaction } from './index';
+
+describe('ObservableHistory', () => {
+	it('undoes and redoes changes of settable observables', () => {
+		const history = new ObservableHistory();
+		const value = observableValue('value', 1);
+		history.track(value);
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		expect(history.canUndo.get()).toBe(true);
+		expect(history.canRedo.get()).toBe(false);
+
+		history.undo();
+		expect(value.get()).toBe(2);
+		history.undo();
+		expect(value.get()).toBe(1);
+		expect(history.canUndo.get()).toBe(false);
+
+		history.redo();
+		expect(value.get()).toBe(2);
+		expect(history.canRedo.get()).toBe(true);
+
+		value.set(5, undefined);
+		expect(history.canRedo.get()).toBe(false);
+
+		history.dispose();
+	});
+
+	it('undoes and redoes changes of deriveds with a setter', () => {
+		const history = new ObservableHistory();
+		const celsius = observableValue('celsius', 0);
+		const fahrenheit = derivedWithSetter(undefined, reader => celsius.read(reader) * 9 / 5 + 32, (value, tx) => celsius.set((value - 32) * 5 / 9, tx));
+		history.track(fahrenheit);
+
+		fahrenheit.set(212, undefined);
+		expect(celsius.get()).toBe(100);
+		celsius.set(50, undefined);
+
+		history.undo();
+		expect(fahrenheit.get()).toBe(212);
+		history.undo();
+		expect(celsius.get()).toBe(0);
+		expect(history.canUndo.get()).toBe(false);
+
+		history.redo();
+		expect(celsius.get()).toBe(100);
+
+		history.dispose();
+	});
+
+	it('groups the changes of a transaction into a step labeled with the transaction name', () => {
+		const history = new ObservableHistory();
+		const name = observableValue('name', 'a');
+		const tags = new ObservableSet<string>();
+		const props = new ObservableMap<string, number>();
+		history.track(name);
+		history.track(tags);
+		history.track(props);
+
+		transaction(tx => {
+			name.set('b', tx);
+			tags.add('x', tx);
+			props.set('size', 1, tx);
+			props.set('size', 2, tx);
+		}, () => 'Rename');
+		props.set('size', 3);
+
+		history.undo();
+		expect(props.get('size')).toBe(2);
+		expect(history.undoLabel.get()).toBe('Rename');
+		expect(history.redoLabel.get()).not.toBe('Rename');
+
+		history.undo();
+		expect(name.get()).toBe('a');
+		expect(tags.has('x')).toBe(false);
+		expect(props.has('size')).toBe(false);
+		expect(history.redoLabel.get()).toBe('Rename');
+
+		history.redo();
+		expect(name.get()).toBe('b');
+		expect(tags.has('x')).toBe(true);
+		expect(props.get('size')).toBe(2);
+
+		history.dispose();
+	});
+
+	it('does not record undo and redo as new steps', () => {
+		const history = new ObservableHistory();
+		const value = observableValue('value', 1);
+		history.track(value);
+
+		value.set(2, undefined);
+		history.undo();
+		history.redo();
+		history.undo();
+		expect(value.get()).toBe(1);
+		expect(history.canUndo.get()).toBe(false);
+
+		history.dispose();
+	});
+
+	it('keeps at most maxSteps steps and stops recording untracked targets', () => {
+		const history = new ObservableHistory({ maxSteps: 2 });
+		const value = observableValue('value', 0);
+		const d = history.track(value);
+
+		value.set(1, undefined);
+		value.set(2, undefined);
+		value.set(3, undefined);
+		history.undo();
+		history.undo();
+		history.undo();
+		expect(value.get()).toBe(1);
+
+		history.clear();
+		d.dispose();
+		value.set(4, undefined);
+		expect(history.canUndo.get()).toBe(false);
+
+		history.dispose();
+	});
+});
@@ -0,0 +1,315 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IObservableWithChange, IObserver, ISettableObservable, ITransaction } from './base';
+import { DisposableStore, IDisposable, toDisposable } from './commonFacade/deps';
+import { ObservableMap, ObservableMapChange } from './map';
+import { derived } from './observables/derived';
+import { observableValue } from './observables/observableValue';
+import { ObservableSet, ObservableSetChange } from './set';
+import { subtransaction, transaction, TransactionImpl } from './transaction';
+
+export interface IObservableHistoryOptions {
+	/**
+	 * The maximum number of undo steps to keep.
+	 * Defaults to unlimited.
+	 */
+	readonly maxSteps?: number;
+}
+
+/**
+ * The things an {@link ObservableHistory} can track.
+ * Settable observables (including `derivedWithSetter`) record their old and new value when a transaction that updated them ends,
+ * maps and sets record their change deltas.
+ */
+export type ObservableHistoryTarget =
+	| ISettableObservable<any, any>
+	| ObservableMap<any, any>
+	| ObservableSet<any>;
+
+/**
+ * A group of changes that is undone or redone as a whole.
+ */
+export interface IObservableHistoryStep {
+	/**
+	 * The debug name of the transaction that caused the changes.
+	 */
+	readonly label: string | undefined;
+	readonly edits: readonly IObservableHistoryEdit[];
+}
+
+export interface IObservableHistoryEdit {
+	undo(tx: ITransaction): void;
+	redo(tx: ITransaction): void;
+}
+
+interface ITrackedTarget {
+	/**
+	 * Is called with every change reported by the target.
+	 */
+	handleChange(change: unknown, edits: IObservableHistoryEdit[]): void;
+	/**
+	 * Is called once the transaction that touched the target finished.
+	 */
+	handleTransactionEnd(edits: IObservableHistoryEdit[], record: boolean): void;
+}
+
+/**
+ * Records changes of the tracked observables and allows to undo and redo them.
+ * All changes that happen in the same transaction (or global transaction) form a single undo step.
+ * The debug name of that transaction becomes the label of the step (see {@link undoLabel}).
+ *
+ * Undo and redo apply all edits of a step in a single transaction.
+ */
+export class ObservableHistory implements IDisposable {
+	private readonly _store = new DisposableStore();
+	private readonly _targets = new Map<IObservable<any>, ITrackedTarget>();
+	private readonly _touchedTargets = new Set<ITrackedTarget>();
+
+	private readonly _undoStack = observableValue<readonly IObservableHistoryStep[]>(this, []);
+	private readonly _redoStack = observableValue<readonly IObservableHistoryStep[]>(this, []);
+
+	private _updateCount = 0;
+	private _pendingEdits: IObservableHistoryEdit[] = [];
+	private _pendingLabel: string | undefined = undefined;
+	private _isApplying = false;
+
+	public readonly canUndo: IObservable<boolean> = derived(this, reader => this._undoStack.read(reader).length > 0);
+	public readonly canRedo: IObservable<boolean> = derived(this, reader => this._redoStack.read(reader).length > 0);
+
+	/**
+	 * The label of the step that would be undone next.
+	 * UIs can use this to show "Undo <label>".
+	 */
+	public readonly undoLabel: IObservable<string | undefined> = derived(this, reader => lastOrUndefined(this._undoStack.read(reader))?.label);
+	public readonly redoLabel: IObservable<string | undefined> = derived(this, reader => lastOrUndefined(this._redoStack.read(reader))?.label);
+
+	private readonly _observer: IObserver = {
+		beginUpdate: <T>(_observable: IObservable<T>) => {
+			if (this._updateCount === 0) {
+				this._pendingLabel = TransactionImpl.getCurrentlyUpdating()?.getDebugName();
+			}
+			this._updateCount++;
+			const target = this._targets.get(_observable);
+			if (target) {
+				this._touchedTargets.add(target);
+			}
+		},
+		endUpdate: <T>(_observable: IObservable<T>) => {
+			this._updateCount--;
+			if (this._updateCount === 0) {
+				this._handleTransactionEnd();
+			}
+		},
+		handlePossibleChange: <T>(_observable: IObservable<T>) => {
+			// NO OP
+		},
+		handleChange: <T, TChange>(observable: IObservableWithChange<T, TChange>, change: TChange) => {
+			if (this._isApplying) {
+				return;
+			}
+			this._targets.get(observable)?.handleChange(change, this._pendingEdits);
+		},
+	};
+
+	constructor(
+		private readonly _options: IObservableHistoryOptions = {},
+	) { }
+
+	/**
+	 * Starts recording changes of the given target.
+	 * Changes that happened before are not recorded.
+	 */
+	public track(target: ObservableHistoryTarget): IDisposable {
+		let observable: IObservable<any>;
+		let createTrackedTarget: () => ITrackedTarget;
+		if (target instanceof ObservableMap) {
+			observable = target.observable;
+			createTrackedTarget = () => mapTarget(target);
+		} else if (target instanceof ObservableSet) {
+			observable = target.observable;
+			createTrackedTarget = () => setTarget(target);
+		} else {
+			observable = target;
+			createTrackedTarget = () => settableTarget(target);
+		}
+		if (this._targets.has(observable)) {
+			throw new Error(`${observable.debugName} is already tracked`);
+		}
+
+		// Observe before reading the initial value, so that deriveds (e.g. `derivedWithSetter`) subscribe to their dependencies
+		observable.addObserver(this._observer);
+		const trackedTarget = createTrackedTarget();
+		this._targets.set(observable, trackedTarget);
+
+		const d = toDisposable(() => {
+			if (this._targets.get(observable) === trackedTarget) {
+				observable.removeObserver(this._observer);
+				this._targets.delete(observable);
+				this._touchedTargets.delete(trackedTarget);
+			}
+		});
+		this._store.add(d);
+		return d;
+	}
+
+	public undo(): void {
+		const undoStack = this._undoStack.get();
+		const step = lastOrUndefined(undoStack);
+		if (!step) {
+			return;
+		}
+		this._apply(() => `Undo ${step.label ?? ''}`.trimEnd(), tx => {
+			this._undoStack.set(undoStack.slice(0, -1), tx);
+			this._redoStack.set([...this._redoStack.get(), step], tx);
+			for (let i = step.edits.length - 1; i >= 0; i--) {
+				step.edits[i].undo(tx);
+			}
+		});
+	}
+
+	public redo(): void {
+		const redoStack = this._redoStack.get();
+		const step = lastOrUndefined(redoStack);
+		if (!step) {
+			return;
+		}
+		this._apply(() => `Redo ${step.label ?? ''}`.trimEnd(), tx => {
+			this._redoStack.set(redoStack.slice(0, -1), tx);
+			this._undoStack.set([...this._undoStack.get(), step], tx);
+			for (const edit of step.edits) {
+				edit.redo(tx);
+			}
+		});
+	}
+
+	/**
+	 * Forgets all undo and redo steps.
+	 */
+	public clear(tx?: ITransaction): void {
+		subtransaction(tx, tx => {
+			this._undoStack.set([], tx);
+			this._redoStack.set([], tx);
+		});
+	}
+
+	public dispose(): void {
+		this._store.dispose();
+	}
+
+	private _apply(getDebugName: () => string, fn: (tx: ITransaction) => void): void {
+		if (this._isApplying) {
+			throw new Error('Cannot undo or redo while undoing or redoing');
+		}
+		this._isApplying = true;
+		try {
+			transaction(fn, getDebugName);
+		} finally {
+			this._isApplying = false;
+		}
+	}
+
+	private _handleTransactionEnd(): void {
+		const record = !this._isApplying;
+		const edits = this._pendingEdits;
+		for (const target of this._touchedTargets) {
+			target.handleTransactionEnd(edits, record);
+		}
+		this._touchedTargets.clear();
+		this._pendingEdits = [];
+
+		if (record && edits.length > 0) {
+			this._pushStep({ label: this._pendingLabel, edits });
+		}
+		this._pendingLabel = undefined;
+	}
+
+	private _pushStep(step: IObservableHistoryStep): void {
+		let undoStack = [...this._undoStack.get(), step];
+		const maxSteps = this._options.maxSteps;
+		if (maxSteps !== undefined && undoStack.length > maxSteps) {
+			undoStack = undoStack.slice(undoStack.length - maxSteps);
+		}
+		transaction(tx => {
+			this._undoStack.set(undoStack, tx);
+			this._redoStack.set([], tx);
+		});
+	}
+}
+
+function settableTarget<T>(observable: ISettableObservable<T, any>): ITrackedTarget {
+	let lastValue = observable.get();
+	return {
+		handleChange: () => { },
+		handleTransactionEnd: (edits, record) => {
+			const oldValue = lastValue;
+			const newValue = observable.get();
+			lastValue = newValue;
+			if (!record || oldValue === newValue) {
+				return;
+			}
+			edits.push({
+				undo: tx => observable.set(oldValue, tx, undefined),
+				redo: tx => observable.set(newValue, tx, undefined),
+			});
+		},
+	};
+}
+
+function mapTarget<K, V>(map: ObservableMap<K, V>): ITrackedTarget {
+	return {
+		handleChange: (c, edits) => {
+			const change = c as ObservableMapChange<K, V>;
+			switch (change.kind) {
+				case 'added':
+					edits.push({
+						undo: tx => map.delete(change.key, tx),
+						redo: tx => map.set(change.key, change.newValue, tx),
+					});
+					break;
+				case 'deleted':
+					edits.push({
+						undo: tx => map.set(change.key, change.oldValue, tx),
+						redo: tx => map.delete(change.key, tx),
+					});
+					break;
+				case 'updated':
+					edits.push({
+						undo: tx => map.set(change.key, change.oldValue, tx),
+						redo: tx => map.set(change.key, change.newValue, tx),
+					});
+					break;
+			}
+		},
+		handleTransactionEnd: () => { },
+	};
+}
+
+function setTarget<T>(set: ObservableSet<T>): ITrackedTarget {
+	return {
+		handleChange: (c, edits) => {
+			const change = c as ObservableSetChange<T>;
+			switch (change.kind) {
+				case 'added':
+					edits.push({
+						undo: tx => set.delete(change.key, tx),
+						redo: tx => set.add(change.key, tx),
+					});
+					break;
+				case 'deleted':
+					edits.push({
+						undo: tx => set.add(change.key, tx),
+						redo: tx => set.delete(change.key, tx),
+					});
+					break;
+			}
+		},
+		handleTransactionEnd: () => { },
+	};
+}
+
+function lastOrUndefined<T>(items: readonly T[]): T | undefined {
+	return items.length > 0 ? items[items.length - 1] : undefined;
+}
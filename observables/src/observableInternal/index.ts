@@ -7,23 +7,32 @@
 
 export { observableValueOpts } from './observables/observableValueOpts';
 export { autorun, autorunDelta, autorunHandleChanges, autorunOpts, autorunWithStore, autorunWithStoreHandleChanges, autorunIterableDelta, autorunSelfDisposable } from './reactions/autorun';
+export { AutorunScheduler, type IAutorunScheduler } from './reactions/autorunScheduler';
+export { effect, ErrorBoundary, type IEffectOptions, type IEffectRetryOptions } from './reactions/effect';
 export { type IObservable, type IObservableWithChange, type IObserver, type IReader, type ISettable, type ISettableObservable, type ITransaction } from './base';
 export { disposableObservableValue } from './observables/observableValue';
 export { derived, derivedDisposable, derivedHandleChanges, derivedOpts, derivedWithSetter, derivedWithStore } from './observables/derived';
 export { type IDerivedReader } from './observables/derivedImpl';
 export { ObservableLazy, ObservableLazyPromise, ObservablePromise, PromiseResult, } from './utils/promise';
 export { derivedWithCancellationToken, waitForState } from './utils/utilsCancellation';
+export { CancellationTokenSource, CancellationError, type CancellationToken } from './commonFacade/cancellation';
+export { onUnexpectedError } from './commonFacade/deps';
+export { derivedAsync, AsyncState, type AsyncStateKind } from './utils/derivedAsync';
 export {
 	debouncedObservableDeprecated, debouncedObservable, derivedObservableWithCache,
 	derivedObservableWithWritableCache, keepObserved, mapObservableArrayCached, observableFromPromise,
 	recomputeInitiallyAndOnChange,
 	signalFromObservable, wasEventTriggeredRecently,
 } from './utils/utils';
+export { throttledObservable, sampledObservable, bufferedChanges, scanObservable, combineLatest, distinctUntilChanged, type CombinedValues, type CombinedChanges } from './utils/operators';
+export { toRxObservable, toRxObservableWithChanges, fromRxObservable, toAsyncIterable, symbolObservable, type IInteropObservable, type IInteropObserver, type IInteropSubscribable, type IInteropSubscription, type IValueWithChanges } from './utils/interop';
 export { type DebugOwner } from './debugName';
 export { type IChangeContext, type IChangeTracker, recordChanges, recordChangesLazy } from './changeTracker';
 export { constObservable } from './observables/constObservable';
 export { type IObservableSignal, observableSignal } from './observables/observableSignal';
 export { observableFromEventOpts } from './observables/observableFromEvent';
+export { observableFromDomEvent, observableFromEmitter, type IObservableFromDomEventOptions, type IObservableFromEmitterOptions, type IEventEmitterLike, type DomEventMap, type DomEventOf } from './observables/observableFromDomEvent';
+export { observableMediaQuery, observableElementSize, observableWindowFocus, type IElementSize } from './utils/dom';
 export { observableSignalFromEvent } from './observables/observableSignalFromEvent';
 export { asyncTransaction, globalTransaction, subtransaction, transaction, TransactionImpl } from './transaction';
 export { observableFromValueWithChangeEvent, ValueWithChangeEventFromObservable } from './utils/valueWithChangeEvent';
@@ -32,12 +41,27 @@ export { derivedConstOnceDefined, latestChangedValue } from './experimental/util
 export { observableFromEvent } from './observables/observableFromEvent';
 export { observableValue } from './observables/observableValue';
 
-export { ObservableSet } from './set';
-export { ObservableMap } from './map';
+export { ObservableSet, type ObservableSetChange } from './set';
+export { ObservableMap, type ObservableMapChange } from './map';
+export { ObservableArray, type IArraySplice, applyArraySplice } from './array';
+export { observableStore, ObservableStore, type IStorePatch, type StorePath, type ValueAtPath, type DeepReadonly, type ObservableStoreWithState } from './store';
+export { ObservableHistory, type IObservableHistoryOptions, type IObservableHistoryStep, type IObservableHistoryEdit, type ObservableHistoryTarget } from './history';
 export { DebugLocation } from './debugLocation';
+export { ObservableStrictMode } from './strictMode';
+export { ObservableCycleError, type IObservableCycleElement } from './observableCycleError';
+export { DevToolsLogger } from './logging/debugger/devToolsLogger';
+export { createWebSocketChannelFactory, createMessagePortChannelFactory, type IWebSocketLike, type IMessagePortLike } from './logging/debugger/transports';
+export { SimpleTypedRpcConnection, type ChannelFactory, type IChannel, type IChannelHandler, type RpcRequestResult, type MakeSideAsync } from './logging/debugger/rpc';
+export type { ObsDebuggerApi, IObsDeclarations, IObsDeclaration, IObsPushState, ObsInstancePushState, ObsStateUpdate, ObsInstanceId, ObsDeclarationId, IObsInstanceRef, ITransactionState, IObsTimeline, IObsTimelineTransaction, IObsTimelineUpdate } from './logging/debugger/debuggerApi';
+export { TimeTravelRecorder, type ITimeTravelRecorderOptions } from './logging/timeTravelRecorder';
+export { getDependencyGraph, formatDependencyGraphAsDot, formatDependencyGraphAsMermaid, type IDependencyGraph, type IDependencyGraphNode, type IDependencyGraphEdge, type IDependencyGraphOptions, type DependencyGraphRoot } from './logging/dependencyGraphExport';
+export { ObservableProfiler, type IObservableProfilerOptions, type IObservableProfileReport, type IObservableProfileEntry, type ObservableProfileEntryKind, type IChromeTrace, type IChromeTraceEvent } from './logging/observableProfiler';
+export { ObservableLeakDetector, type IObservableLeakDetectorOptions, type ITrackedObserver, type TrackedObserverKind, type IListenerCountWarning } from './logging/observableLeakDetector';
+export { ConsoleObservableLogger, setObservableLogFilter, type IConsoleObservableLoggerOptions, type IObservableLogFilter, type IObservableLogEntry, type ObservableLogKind, type ObservableLogOutput } from './logging/consoleObservableLogger';
+export { type DependencyGraphNodeType } from './logging/debugGetDependencyGraph';
 
 import { addLogger, setLogObservableFn } from './logging/logging';
-import { ConsoleObservableLogger, logObservableToConsole } from './logging/consoleObservableLogger';
+import { logObservableToConsole } from './logging/consoleObservableLogger';
 import { DevToolsLogger } from './logging/debugger/devToolsLogger';
 import { _setDebugGetDependencyGraph } from './observables/baseObservable';
 import { debugGetDependencyGraph } from './logging/debugGetDependencyGraph';
@@ -45,15 +69,7 @@ import { debugGetDependencyGraph } from './logging/debugGetDependencyGraph';
 _setDebugGetDependencyGraph(debugGetDependencyGraph);
 setLogObservableFn(logObservableToConsole);
 
-// Remove "//" in the next line to enable logging
-const enableLogging = false
-	// || Boolean("true") // done "weirdly" so that a lint warning prevents you from pushing this
-	;
-
-if (enableLogging) {
-	addLogger(new ConsoleObservableLogger());
-}
-
+// To log observables to the console, call `setObservableLogFilter` (e.g. `setObservableLogFilter({ names: ['MyViewModel.*'] })`)
 
 // To debug observables you also need the extension "ms-vscode.debug-value-editor"
 addLogger(DevToolsLogger.getInstance());
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { autorunOpts, derivedOpts, IObservableLogEntry, observableValueOpts, setObservableLogFilter, transaction } from '../index';
+
+class LogViewModel {
+	public readonly count = observableValueOpts({ owner: this, debugName: 'count' }, 0);
+	public readonly doubled = derivedOpts({ owner: this, debugName: 'doubled' }, reader => this.count.read(reader) * 2);
+}
+
+describe('setObservableLogFilter', () => {
+	afterEach(() => {
+		setObservableLogFilter(undefined, {});
+	});
+
+	function createModel(prefix: string) {
+		const value = observableValueOpts({ debugName: `${prefix}.value` }, 1);
+		const doubled = derivedOpts({ debugName: `${prefix}.doubled` }, reader => value.read(reader) * 2);
+		const a = autorunOpts({ debugName: `${prefix}.autorun` }, reader => { doubled.read(reader); });
+		return { value, doubled, autorun: a };
+	}
+
+	it('logs plain text', () => {
+		const lines: string[] = [];
+		const m = createModel('logPlain');
+		setObservableLogFilter({ names: ['logPlain.*'] }, { output: 'plain', write: line => lines.push(line) });
+
+		m.value.set(2, undefined);
+		expect(lines).toEqual([
+			// Indented, as setting the value starts a transaction
+			'|  observable value changed: logPlain.value 1 2',
+			'|  derived recomputed: logPlain.doubled 2 4 (changed deps: logPlain.value)',
+			'|  autorun:  logPlain.autorun (changed deps: logPlain.doubled)',
+		]);
+		m.autorun.dispose();
+	});
+
+	it('filters by kind, owner class and name glob', () => {
+		const lines: string[] = [];
+		const m = createModel('logKind');
+		const vm = new LogViewModel();
+		const a = autorunOpts({ debugName: 'logKindVm' }, reader => { vm.doubled.read(reader); });
+
+		setObservableLogFilter({ kinds: ['observableValue', 'transaction'] }, { output: 'plain', write: line => lines.push(line) });
+		transaction(tx => {
+			m.value.set(3, tx);
+		}, () => 'logKindTx');
+		expect(lines).toEqual([
+			'transaction: logKindTx',
+			'|  observable value changed: logKind.value 1 3',
+		]);
+
+		lines.length = 0;
+		setObservableLogFilter({ ownerClasses: ['LogViewModel'], names: ['*.doub?ed'] }, { output: 'plain', write: line => lines.push(line) });
+		vm.count.set(1, undefined);
+		m.value.set(4, undefined);
+		expect(lines).toEqual([
+			'|  derived recomputed: LogViewModel.doubled 0 2 (changed deps: LogViewModel.count)',
+		]);
+
+		a.dispose();
+		m.autorun.dispose();
+	});
+
+	it('filters by file and logs NDJSON', () => {
+		const lines: string[] = [];
+		const m = createModel('logFile');
+
+		setObservableLogFilter({ files: ['*/some/otherFile.ts'] }, { output: 'ndjson', write: line => lines.push(line) });
+		m.value.set(2, undefined);
+		expect(lines).toEqual([]);
+
+		setObservableLogFilter({ kinds: ['derived'], files: ['*/consoleObservableLogger.test.ts'] }, { output: 'ndjson', write: line => lines.push(line) });
+		m.value.set(3, undefined);
+		const entries: IObservableLogEntry[] = lines.map(l => JSON.parse(l));
+		expect(entries).toEqual([
+			{
+				type: 'derivedRecomputed',
+				name: 'logFile.doubled',
+				depth: 1,
+				location: expect.stringMatching(/consoleObservableLogger\.test\.ts:\d+:\d+$/),
+				hadValue: true,
+				didChange: true,
+				oldValue: '4',
+				newValue: '6',
+				changedDependencies: ['logFile.value'],
+			},
+		]);
+		m.autorun.dispose();
+	});
+});
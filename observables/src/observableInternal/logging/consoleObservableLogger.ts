@@ -7,24 +7,121 @@ import { IObservable } from '../base';
 import { TransactionImpl } from '../transaction';
 import { IObservableLogger, IChangeInformation, addLogger } from './logging';
 import { FromEventObservable } from '../observables/observableFromEvent';
-import { getClassName } from '../debugName';
+import { DebugNameData, getClassName } from '../debugName';
+import { DebugLocation } from '../debugLocation';
 import { Derived } from '../observables/derivedImpl';
+import { ObservableValue } from '../observables/observableValue';
 import { AutorunObserver } from '../reactions/autorunImpl';
 
 let consoleObservableLogger: ConsoleObservableLogger | undefined;
 
-export function logObservableToConsole(obs: IObservable<any>): void {
+function getConsoleObservableLogger(): ConsoleObservableLogger {
 	if (!consoleObservableLogger) {
-		consoleObservableLogger = new ConsoleObservableLogger();
+		consoleObservableLogger = new ConsoleObservableLogger({ filter: nothingFilter });
 		addLogger(consoleObservableLogger);
 	}
-	consoleObservableLogger.addFilteredObj(obs);
+	return consoleObservableLogger;
+}
+
+export function logObservableToConsole(obs: IObservable<any>): void {
+	getConsoleObservableLogger().addFilteredObj(obs);
+}
+
+/**
+ * Logs all observables, autoruns and transactions that match the given filter to the console
+ * (in addition to the ones that are logged through `.log()`).
+ * Pass `undefined` to only log the latter.
+ *
+ * Use `setObservableLogFilter({})` to log everything.
+ */
+export function setObservableLogFilter(filter: IObservableLogFilter | undefined, options?: Omit<IConsoleObservableLoggerOptions, 'filter'>): void {
+	const logger = getConsoleObservableLogger();
+	logger.setFilter(filter ?? nothingFilter);
+	if (options) {
+		logger.setOutput(options.output, options.write);
+	}
+}
+
+export type ObservableLogKind = 'observableValue' | 'derived' | 'fromEvent' | 'autorun' | 'transaction';
+
+/**
+ * An object matches if it matches every given property.
+ * A list property matches if any of its entries matches.
+ * Globs support `*` and `?`.
+ */
+export interface IObservableLogFilter {
+	/** Globs for the debug name. */
+	readonly names?: readonly string[];
+	/** Class names of the debug owner (see {@link IDebugNameData.owner}). */
+	readonly ownerClasses?: readonly string[];
+	readonly kinds?: readonly ObservableLogKind[];
+	/** Globs for the file name of the {@link DebugLocation} (which must be enabled). */
+	readonly files?: readonly string[];
+}
+
+/**
+ * * `styled`: `console.log` with CSS styles, for browser consoles.
+ * * `plain`: unstyled text, for terminals.
+ * * `ndjson`: one JSON object ({@link IObservableLogEntry}) per line, for tools.
+ */
+export type ObservableLogOutput = 'styled' | 'plain' | 'ndjson';
+
+export interface IConsoleObservableLoggerOptions {
+	/** If not set, everything is logged. */
+	readonly filter?: IObservableLogFilter;
+	/** Defaults to `styled`. */
+	readonly output?: ObservableLogOutput;
+	/** Receives the lines of the `plain` and `ndjson` outputs. Defaults to `console.log`. */
+	readonly write?: (line: string) => void;
+}
+
+export interface IObservableLogEntry {
+	readonly type: 'observableValueChanged' | 'derivedRecomputed' | 'derivedCleared' | 'fromEventTriggered' | 'autorunRun' | 'transaction';
+	readonly name: string;
+	/** The number of enclosing autoruns and transactions. */
+	readonly depth: number;
+	readonly location?: string;
+	readonly hadValue?: boolean;
+	readonly didChange?: boolean;
+	readonly oldValue?: string;
+	readonly newValue?: string;
+	readonly changedDependencies?: readonly string[];
+}
+
+interface ILogEvent {
+	readonly type: IObservableLogEntry['type'];
+	readonly obj: object;
+	readonly name: string;
+	readonly info?: IChangeInformation;
+	readonly changes?: Set<IObservable<any>>;
+	readonly fn?: Function;
 }
 
+const nothingFilter: IObservableLogFilter = { kinds: [] };
+
+const eventLabels: Record<IObservableLogEntry['type'], string> = {
+	observableValueChanged: 'observable value changed',
+	derivedRecomputed: 'derived recomputed',
+	derivedCleared: 'derived cleared',
+	fromEventTriggered: 'observable from event triggered',
+	autorunRun: 'autorun',
+	transaction: 'transaction',
+};
+
 export class ConsoleObservableLogger implements IObservableLogger {
 	private indentation = 0;
 
 	private _filteredObjects: Set<unknown> | undefined;
+	private _filter: IObservableLogFilter | undefined;
+	private _filterMatches = new WeakMap<object, boolean>();
+	private _output: ObservableLogOutput;
+	private _write: (line: string) => void;
+
+	constructor(options: IConsoleObservableLoggerOptions = {}) {
+		this._filter = options.filter;
+		this._output = options.output ?? 'styled';
+		this._write = options.write ?? (line => console.log(line));
+	}
 
 	public addFilteredObj(obj: unknown): void {
 		if (!this._filteredObjects) {
@@ -33,8 +130,68 @@ export class ConsoleObservableLogger implements IObservableLogger {
 		this._filteredObjects.add(obj);
 	}
 
+	public setFilter(filter: IObservableLogFilter | undefined): void {
+		this._filter = filter;
+		this._filterMatches = new WeakMap();
+	}
+
+	public setOutput(output: ObservableLogOutput | undefined, write?: (line: string) => void): void {
+		this._output = output ?? 'styled';
+		this._write = write ?? (line => console.log(line));
+	}
+
 	private _isIncluded(obj: unknown): boolean {
-		return this._filteredObjects?.has(obj) ?? true;
+		if (this._filteredObjects?.has(obj)) {
+			return true;
+		}
+		if (!this._filter) {
+			return !this._filteredObjects;
+		}
+		let matches = this._filterMatches.get(obj as object);
+		if (matches === undefined) {
+			matches = matchesFilter(obj as object, this._filter);
+			this._filterMatches.set(obj as object, matches);
+		}
+		return matches;
+	}
+
+	private _log(event: ILogEvent): void {
+		switch (this._output) {
+			case 'styled':
+				console.log(...this.textToConsoleArgs(this._formatEvent(event)));
+				break;
+			case 'plain':
+				this._write(repeat('|  ', this.indentation) + consoleTextToPlain(this._formatEvent(event)));
+				break;
+			case 'ndjson':
+				this._write(JSON.stringify(this._toEntry(event)));
+				break;
+		}
+	}
+
+	private _formatEvent(event: ILogEvent): ConsoleText {
+		return [
+			formatKind(eventLabels[event.type]),
+			styled(event.name, { color: 'BlueViolet' }),
+			...(event.info ? this.formatInfo(event.info) : []),
+			event.changes && this.formatChanges(event.changes),
+			event.fn && { data: [{ fn: event.fn }] },
+		];
+	}
+
+	private _toEntry(event: ILogEvent): IObservableLogEntry {
+		const info = event.info;
+		return {
+			type: event.type,
+			name: event.name,
+			depth: this.indentation,
+			location: formatLocation(getDebugLocation(event.obj)),
+			hadValue: info?.hadValue,
+			didChange: info?.didChange,
+			oldValue: info?.hadValue ? formatValue(info.oldValue, 200) : undefined,
+			newValue: info ? formatValue(info.newValue, 200) : undefined,
+			changedDependencies: event.changes && event.changes.size > 0 ? [...event.changes].map(o => o.debugName) : undefined,
+		};
 	}
 
 	private textToConsoleArgs(text: ConsoleText): unknown[] {
@@ -108,15 +265,23 @@ export class ConsoleObservableLogger implements IObservableLogger {
 			return;
 		}
 
-		console.log(...this.textToConsoleArgs([
-			formatKind('observable value changed'),
-			styled(observable.debugName, { color: 'BlueViolet' }),
-			...this.formatInfo(info),
-		]));
+		this._log({ type: 'observableValueChanged', obj: observable, name: observable.debugName, info });
 	}
 
 	private readonly changedObservablesSets = new WeakMap<object, Set<IObservable<any>>>();
 
+	/**
+	 * The logger might have been added after the observable was created (see {@link setObservableLogFilter}).
+	 */
+	private _getChangedObservables(obj: object): Set<IObservable<any>> {
+		let changedObservables = this.changedObservablesSets.get(obj);
+		if (!changedObservables) {
+			changedObservables = new Set();
+			this.changedObservablesSets.set(obj, changedObservables);
+		}
+		return changedObservables;
+	}
+
 	formatChanges(changes: Set<IObservable<any>>): ConsoleText | undefined {
 		if (changes.size === 0) {
 			return undefined;
@@ -132,42 +297,40 @@ export class ConsoleObservableLogger implements IObservableLogger {
 	handleDerivedDependencyChanged(derived: Derived<any>, observable: IObservable<any>, change: unknown): void {
 		if (!this._isIncluded(derived)) { return; }
 
-		this.changedObservablesSets.get(derived)?.add(observable);
+		this._getChangedObservables(derived).add(observable);
 	}
 
 	_handleDerivedRecomputed(derived: Derived<unknown>, info: IChangeInformation): void {
 		if (!this._isIncluded(derived)) { return; }
 
-		const changedObservables = this.changedObservablesSets.get(derived);
-		if (!changedObservables) { return; }
-		console.log(...this.textToConsoleArgs([
-			formatKind('derived recomputed'),
-			styled(derived.debugName, { color: 'BlueViolet' }),
-			...this.formatInfo(info),
-			this.formatChanges(changedObservables),
-			{ data: [{ fn: derived._debugNameData.referenceFn ?? derived._computeFn }] }
-		]));
+		const changedObservables = this._getChangedObservables(derived);
+		this._log({
+			type: 'derivedRecomputed',
+			obj: derived,
+			name: derived.debugName,
+			info,
+			changes: changedObservables,
+			fn: derived._debugNameData.referenceFn ?? derived._computeFn,
+		});
 		changedObservables.clear();
 	}
 
 	handleDerivedCleared(derived: Derived<unknown>): void {
 		if (!this._isIncluded(derived)) { return; }
 
-		console.log(...this.textToConsoleArgs([
-			formatKind('derived cleared'),
-			styled(derived.debugName, { color: 'BlueViolet' }),
-		]));
+		this._log({ type: 'derivedCleared', obj: derived, name: derived.debugName });
+	}
+
+	handleDerivedRecomputeStarted(derived: Derived<unknown>): void {
+	}
+
+	handleDerivedRecomputeFinished(derived: Derived<unknown>): void {
 	}
 
 	handleFromEventObservableTriggered(observable: FromEventObservable<any, any>, info: IChangeInformation): void {
 		if (!this._isIncluded(observable)) { return; }
 
-		console.log(...this.textToConsoleArgs([
-			formatKind('observable from event triggered'),
-			styled(observable.debugName, { color: 'BlueViolet' }),
-			...this.formatInfo(info),
-			{ data: [{ fn: observable._getValue }] }
-		]));
+		this._log({ type: 'fromEventTriggered', obj: observable, name: observable.debugName, info, fn: observable._getValue });
 	}
 
 	handleAutorunCreated(autorun: AutorunObserver): void {
@@ -182,27 +345,27 @@ export class ConsoleObservableLogger implements IObservableLogger {
 	handleAutorunDependencyChanged(autorun: AutorunObserver, observable: IObservable<any>, change: unknown): void {
 		if (!this._isIncluded(autorun)) { return; }
 
-		this.changedObservablesSets.get(autorun)!.add(observable);
+		this._getChangedObservables(autorun).add(observable);
 	}
 
 	handleAutorunStarted(autorun: AutorunObserver): void {
-		const changedObservables = this.changedObservablesSets.get(autorun);
-		if (!changedObservables) { return; }
-
+		const changedObservables = this._getChangedObservables(autorun);
 		if (this._isIncluded(autorun)) {
-			console.log(...this.textToConsoleArgs([
-				formatKind('autorun'),
-				styled(autorun.debugName, { color: 'BlueViolet' }),
-				this.formatChanges(changedObservables),
-				{ data: [{ fn: autorun._debugNameData.referenceFn ?? autorun._runFn }] }
-			]));
+			this._log({
+				type: 'autorunRun',
+				obj: autorun,
+				name: autorun.debugName,
+				changes: changedObservables,
+				fn: autorun._debugNameData.referenceFn ?? autorun._runFn,
+			});
 		}
 		changedObservables.clear();
 		this.indentation++;
 	}
 
 	handleAutorunFinished(autorun: AutorunObserver): void {
-		this.indentation--;
+		// The autorun might have started before the logger was added
+		this.indentation = Math.max(0, this.indentation - 1);
 	}
 
 	handleBeginTransaction(transaction: TransactionImpl): void {
@@ -211,17 +374,13 @@ export class ConsoleObservableLogger implements IObservableLogger {
 			transactionName = '';
 		}
 		if (this._isIncluded(transaction)) {
-			console.log(...this.textToConsoleArgs([
-				formatKind('transaction'),
-				styled(transactionName, { color: 'BlueViolet' }),
-				{ data: [{ fn: transaction._fn }] }
-			]));
+			this._log({ type: 'transaction', obj: transaction, name: transactionName, fn: transaction._fn });
 		}
 		this.indentation++;
 	}
 
 	handleEndTransaction(): void {
-		this.indentation--;
+		this.indentation = Math.max(0, this.indentation - 1);
 	}
 }
 type ConsoleText = (ConsoleText | undefined)[] |
@@ -256,6 +415,12 @@ function consoleTextToArgs(text: ConsoleText): unknown[] {
 	result.push(...data);
 	return result;
 }
+function consoleTextToPlain(text: ConsoleText): string {
+	if ('length' in text) {
+		return text.map(t => t ? consoleTextToPlain(t) : '').join('');
+	}
+	return 'text' in text ? text.text : '';
+}
 function normalText(text: string): ConsoleText {
 	return styled(text, { color: 'black' });
 }
@@ -370,6 +535,60 @@ function formatObject(value: object, availableLen: number): string {
 	return result;
 }
 
+function matchesFilter(obj: object, filter: IObservableLogFilter): boolean {
+	if (filter.kinds && !filter.kinds.some(k => k === getLogKind(obj))) {
+		return false;
+	}
+	if (filter.names) {
+		const name = obj instanceof TransactionImpl ? obj.getDebugName() : (obj as { debugName?: string }).debugName;
+		if (name === undefined || !filter.names.some(n => matchesGlob(name, n))) {
+			return false;
+		}
+	}
+	if (filter.ownerClasses) {
+		const owner = (obj as { _debugNameData?: DebugNameData })._debugNameData?.owner;
+		const className = owner ? getClassName(owner) : undefined;
+		if (className === undefined || !filter.ownerClasses.includes(className)) {
+			return false;
+		}
+	}
+	if (filter.files) {
+		const fileName = getDebugLocation(obj)?.fileName;
+		if (fileName === undefined || !filter.files.some(f => matchesGlob(fileName, f))) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function getLogKind(obj: object): ObservableLogKind | undefined {
+	if (obj instanceof ObservableValue) {
+		return 'observableValue';
+	} else if (obj instanceof Derived) {
+		return 'derived';
+	} else if (obj instanceof FromEventObservable) {
+		return 'fromEvent';
+	} else if (obj instanceof AutorunObserver) {
+		return 'autorun';
+	} else if (obj instanceof TransactionImpl) {
+		return 'transaction';
+	}
+	return undefined;
+}
+
+function matchesGlob(str: string, glob: string): boolean {
+	const regExp = new RegExp('^' + glob.split('').map(c => c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('') + '$');
+	return regExp.test(str);
+}
+
+function getDebugLocation(obj: object): DebugLocation {
+	return (obj as { debugLocation?: DebugLocation }).debugLocation;
+}
+
+function formatLocation(location: DebugLocation): string | undefined {
+	return location ? `${location.fileName}:${location.line}:${location.column}` : undefined;
+}
+
 function repeat(str: string, count: number): string {
 	let result = '';
 	for (let i = 1; i <= count; i++) {
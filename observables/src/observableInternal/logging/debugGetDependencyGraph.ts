@@ -47,50 +47,49 @@ function formatObservableInfo(info: Info, indentLevel: number, alreadyListed: Se
 	return lines.join('\n');
 }
 
+export type DependencyGraphNodeType = 'observableValue' | 'derived' | 'autorun' | 'fromEvent' | 'unknown';
+
+export interface IDependencyGraphNodeInfo {
+	readonly type: DependencyGraphNodeType;
+	readonly value: unknown;
+	readonly state: string;
+	readonly dependencies: readonly IObservable<any>[];
+}
+
+/**
+ * Describes a single node of the dependency graph without following its dependencies.
+ */
+export function getDependencyGraphNodeInfo(obs: IObservable<any> | IObserver): IDependencyGraphNodeInfo | undefined {
+	if (obs instanceof AutorunObserver) {
+		const state = obs.debugGetState();
+		return { type: 'autorun', value: undefined, state: state.stateStr, dependencies: Array.from(state.dependencies) };
+	} else if (obs instanceof Derived) {
+		const state = obs.debugGetState();
+		return { type: 'derived', value: state.value, state: state.stateStr, dependencies: Array.from(state.dependencies) };
+	} else if (obs instanceof ObservableValue) {
+		const state = obs.debugGetState();
+		return { type: 'observableValue', value: state.value, state: 'upToDate', dependencies: [] };
+	} else if (obs instanceof FromEventObservable) {
+		const state = obs.debugGetState();
+		return { type: 'fromEvent', value: state.value, state: state.hasValue ? 'upToDate' : 'initial', dependencies: [] };
+	}
+	return undefined;
+}
+
 class Info {
 	public static from(obs: IObservable<any> | IObserver, debugNamePostProcessor: (name: string) => string): Info | undefined {
-		if (obs instanceof AutorunObserver) {
-			const state = obs.debugGetState();
-			return new Info(
-				obs,
-				debugNamePostProcessor(obs.debugName),
-				'autorun',
-				undefined,
-				state.stateStr,
-				Array.from(state.dependencies).map(dep => Info.from(dep, debugNamePostProcessor) || Info.unknown(dep))
-			);
-		} else if (obs instanceof Derived) {
-			const state = obs.debugGetState();
-			return new Info(
-				obs,
-				debugNamePostProcessor(obs.debugName),
-				'derived',
-				state.value,
-				state.stateStr,
-				Array.from(state.dependencies).map(dep => Info.from(dep, debugNamePostProcessor) || Info.unknown(dep))
-			);
-		} else if (obs instanceof ObservableValue) {
-			const state = obs.debugGetState();
-			return new Info(
-				obs,
-				debugNamePostProcessor(obs.debugName),
-				'observableValue',
-				state.value,
-				'upToDate',
-				[]
-			);
-		} else if (obs instanceof FromEventObservable) {
-			const state = obs.debugGetState();
-			return new Info(
-				obs,
-				debugNamePostProcessor(obs.debugName),
-				'fromEvent',
-				state.value,
-				state.hasValue ? 'upToDate' : 'initial',
-				[]
-			);
+		const info = getDependencyGraphNodeInfo(obs);
+		if (!info) {
+			return undefined;
 		}
-		return undefined;
+		return new Info(
+			obs,
+			debugNamePostProcessor((obs as { debugName: string }).debugName),
+			info.type,
+			info.value,
+			info.state,
+			info.dependencies.map(dep => Info.from(dep, debugNamePostProcessor) || Info.unknown(dep))
+		);
 	}
 
 	public static unknown(obs: IObservable<any> | IObserver): Info {
@@ -34,6 +34,12 @@ export type ObsDebuggerApi = {
 			logValue(instanceId: ObsInstanceId): void;
 
 			getTransactionState(): ITransactionState | undefined;
+
+			/**
+			 * Returns an empty timeline if no time travel recorder is attached.
+			 */
+			getTimeline(): IObsTimeline;
+			jumpToTransaction(transactionIndex: number): void;
 		}
 	};
 };
@@ -150,3 +156,21 @@ export type ObservableValueState =
 		{ state: 'upToDate' }
 		| { state: 'updating' }
 	);
+
+export interface IObsTimeline {
+	/** Oldest first. Old transactions are dropped eventually. */
+	transactions: IObsTimelineTransaction[];
+}
+
+export interface IObsTimelineTransaction {
+	/** Increases with every recorded transaction. */
+	index: number;
+	name: string | undefined;
+	updates: IObsTimelineUpdate[];
+}
+
+export interface IObsTimelineUpdate {
+	instanceId: ObsInstanceId | undefined;
+	name: string;
+	formattedValue: string | undefined;
+}
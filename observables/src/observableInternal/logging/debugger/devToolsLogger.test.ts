@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { autorunOpts, derivedOpts, DevToolsLogger, observableValueOpts } from '../../index';
+import { ObsStateUpdate } from './debuggerApi';
+
+function findInstance(name: string) {
+	const state = DevToolsLogger.getInstance().requests.getSummarizedInstances();
+	return Object.values(state.instances).find(i => i?.name === name) ?? undefined;
+}
+
+describe('DevToolsLogger', () => {
+	it('summarizes observed instances', () => {
+		const value = observableValueOpts({ debugName: 'devToolsValue' }, 1);
+		const doubled = derivedOpts({ debugName: 'devToolsDoubled' }, reader => value.read(reader) * 2);
+		const a = autorunOpts({ debugName: 'devToolsAutorun' }, reader => { doubled.read(reader); });
+
+		const logger = DevToolsLogger.getInstance();
+		const derivedInstance = findInstance('devToolsDoubled')!;
+		expect(derivedInstance).toMatchObject({ type: 'observable/derived', formattedValue: '2' });
+		expect(logger.requests.getSummarizedInstances().declStates[derivedInstance.declarationId]?.activeInstances).toBe(1);
+
+		const autorunInstance = findInstance('devToolsAutorun')!;
+		expect(logger.requests.getAutorunInfo(autorunInstance.instanceId).dependencies.map(d => d.name)).toEqual(['devToolsDoubled']);
+		expect(logger.requests.getDerivedInfo(derivedInstance.instanceId).dependencies.map(d => d.name)).toEqual(['devToolsValue']);
+
+		logger.requests.setValue(findInstance('devToolsValue')!.instanceId, 5);
+		expect(doubled.get()).toBe(10);
+
+		a.dispose();
+		expect(findInstance('devToolsAutorun')).toBeUndefined();
+	});
+
+	it('sends the full state to new state listeners', () => {
+		const value = observableValueOpts({ debugName: 'devToolsListenerValue' }, 'a');
+		const a = autorunOpts({ debugName: 'devToolsListenerAutorun' }, reader => { value.read(reader); });
+
+		const updates: { update: ObsStateUpdate; clearState: boolean }[] = [];
+		const listener = DevToolsLogger.getInstance().addStateListener((update, clearState) => updates.push({ update, clearState }));
+
+		expect(updates).toHaveLength(1);
+		expect(updates[0].clearState).toBe(true);
+		expect(Object.values(updates[0].update.instances ?? {}).some(i => i?.name === 'devToolsListenerAutorun')).toBe(true);
+
+		listener.dispose();
+		a.dispose();
+	});
+
+	it('does not share batched updates between listeners', async () => {
+		const value = observableValueOpts({ debugName: 'devToolsBatchValue' }, 1);
+		const a = autorunOpts({ debugName: 'devToolsBatchAutorun' }, reader => { value.read(reader); });
+
+		const updates1: ObsStateUpdate[] = [];
+		const updates2: ObsStateUpdate[] = [];
+		const listener1 = DevToolsLogger.getInstance().addStateListener(update => updates1.push(update));
+		const listener2 = DevToolsLogger.getInstance().addStateListener(update => updates2.push(update));
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(updates1).toHaveLength(2);
+		expect(updates2).toHaveLength(2);
+		expect(updates1[1]).toEqual(updates2[1]);
+		expect(updates1[1]).not.toBe(updates2[1]);
+
+		listener1.dispose();
+		listener2.dispose();
+		a.dispose();
+	});
+});
@@ -7,16 +7,20 @@ import { AutorunObserver, AutorunState } from '../../reactions/autorunImpl';
 import { TransactionImpl } from '../../transaction';
 import { IChangeInformation, IObservableLogger } from '../logging';
 import { formatValue } from '../consoleObservableLogger';
-import { ObsDebuggerApi, IObsDeclaration, ObsInstanceId, ObsStateUpdate, ITransactionState, ObserverInstanceState } from './debuggerApi';
+import { ObsDebuggerApi, IObsDeclaration, ObsInstanceId, ObsStateUpdate, ITransactionState, ObserverInstanceState, IObsPushState, ObsDeclarationId, IObsDeclarationSummary, ObsInstancePushState } from './debuggerApi';
 import { registerDebugChannel } from './debuggerRpc';
-import { deepAssign, deepAssignDeleteNulls, Throttler } from './utils';
+import { ChannelFactory, SimpleTypedRpcConnection } from './rpc';
+import { deepAssign, deepAssignDeleteNulls, deepClone, Throttler } from './utils';
 import { FromEventObservable } from '../../observables/observableFromEvent';
-import { BugIndicatingError, isDefined, onUnexpectedError } from '../../commonFacade/deps';
+import { BugIndicatingError, IDisposable, isDefined, onUnexpectedError, toDisposable } from '../../commonFacade/deps';
 import { IObservable, IObserver } from '../../base';
 import { BaseObservable } from '../../observables/baseObservable';
 import { Derived, DerivedState } from '../../observables/derivedImpl';
 import { ObservableValue } from '../../observables/observableValue';
 import { DebugLocation } from '../../debugLocation';
+import type { TimeTravelRecorder } from '../timeTravelRecorder';
+
+const MAX_RECENT_INSTANCES = 10;
 
 interface IInstanceInfo {
 	declarationId: number;
@@ -52,7 +56,176 @@ export class DevToolsLogger implements IObservableLogger {
 	private readonly _aliveInstances = new Map<ObsInstanceId, IObservable<any> | AutorunObserver>();
 	private readonly _activeTransactions = new Set<TransactionImpl>();
 
-	private readonly _channel = registerDebugChannel<ObsDebuggerApi>('observableDevTools', () => {
+	private readonly _debugChannel = registerDebugChannel<ObsDebuggerApi>('observableDevTools', () => this._createClient(this._debugChannelConnection));
+	private readonly _debugChannelConnection: DevToolsConnection = new DevToolsConnection(
+		(update, clearState) => this._debugChannel.api.notifications.handleChange(update, clearState)
+	);
+	private readonly _connections = new Set<DevToolsConnection>([this._debugChannelConnection]);
+
+	/**
+	 * Serves the {@link ObsDebuggerApi} over the given channel (e.g. a web socket or message port, see `transports.ts`),
+	 * in addition to the debug channel that is used by the "ms-vscode.debug-value-editor" extension.
+	 * The current state is sent immediately.
+	 */
+	public connect(channelFactory: ChannelFactory): IDisposable {
+		const rpc = SimpleTypedRpcConnection.createClient<ObsDebuggerApi>(channelFactory, () => this._createClient(connection));
+		const connection: DevToolsConnection = new DevToolsConnection((update, clearState) => rpc.api.notifications.handleChange(update, clearState));
+		const registration = this._addConnection(connection);
+		return toDisposable(() => {
+			registration.dispose();
+			rpc.dispose();
+		});
+	}
+
+	/**
+	 * Calls the listener with the full state immediately and with (batched) state updates afterwards.
+	 * Use {@link requests} to query details.
+	 */
+	public addStateListener(listener: (update: ObsStateUpdate, clearState: boolean) => void): IDisposable {
+		return this._addConnection(new DevToolsConnection(listener));
+	}
+
+	private _addConnection(connection: DevToolsConnection): IDisposable {
+		this._connections.add(connection);
+		connection.reset(this._fullState);
+		return toDisposable(() => {
+			this._connections.delete(connection);
+		});
+	}
+
+	/**
+	 * Returns all observed observables and all autoruns that are not disposed.
+	 */
+	public getAliveInstances(): (IObservable<any> | AutorunObserver)[] {
+		return [...this._aliveInstances.values()];
+	}
+
+	private _timeTravelRecorder: TimeTravelRecorder | undefined = undefined;
+
+	/**
+	 * Serves the timeline of the given recorder through the {@link ObsDebuggerApi}.
+	 */
+	public setTimeTravelRecorder(recorder: TimeTravelRecorder | undefined): void {
+		this._timeTravelRecorder = recorder;
+	}
+
+	/**
+	 * Handles the requests of the {@link ObsDebuggerApi}.
+	 * Can be used to inspect observables in-process (e.g. from a devtools panel that is embedded into the app).
+	 */
+	public readonly requests: ObsDebuggerApi['client']['requests'] = {
+		getDeclarations: () => {
+			const result: Record<string, IObsDeclaration> = {};
+			for (const decl of this._declarations.values()) {
+				result[decl.id] = decl;
+			}
+			return { decls: result };
+		},
+		getSummarizedInstances: () => {
+			const instances: IObsPushState['instances'] = {};
+			const declStates = new Map<ObsDeclarationId, IObsDeclarationSummary>();
+			for (const instance of Object.values(this._fullState.instances ?? {}) as ObsInstancePushState[]) {
+				instances[instance.instanceId] = { ...instance };
+
+				let declState = declStates.get(instance.declarationId);
+				if (!declState) {
+					declState = { activeInstances: 0, recentInstances: [] };
+					declStates.set(instance.declarationId, declState);
+				}
+				declState.activeInstances++;
+				declState.recentInstances.push(instance.instanceId);
+				if (declState.recentInstances.length > MAX_RECENT_INSTANCES) {
+					declState.recentInstances.shift();
+				}
+			}
+			return { declStates: Object.fromEntries(declStates), instances };
+		},
+		getObservableValueInfo: instanceId => {
+			const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
+			return {
+				observers: [...obs.debugGetObservers()].map(d => this._formatObserver(d)).filter(isDefined),
+			};
+		},
+		getDerivedInfo: instanceId => {
+			const d = this._aliveInstances.get(instanceId) as Derived<any>;
+			return {
+				dependencies: [...d.debugGetState().dependencies].map(d => this._formatObservable(d)).filter(isDefined),
+				observers: [...d.debugGetObservers()].map(d => this._formatObserver(d)).filter(isDefined),
+			};
+		},
+		getAutorunInfo: instanceId => {
+			const obs = this._aliveInstances.get(instanceId) as AutorunObserver;
+			return {
+				dependencies: [...obs.debugGetState().dependencies].map(d => this._formatObservable(d)).filter(isDefined),
+			};
+		},
+		getTransactionState: () => {
+			return this.getTransactionState();
+		},
+		getTimeline: () => {
+			return this._timeTravelRecorder?.getTimeline(o => this._instanceInfos.get(o)?.instanceId) ?? { transactions: [] };
+		},
+		jumpToTransaction: (transactionIndex) => {
+			if (!this._timeTravelRecorder) {
+				throw new BugIndicatingError('No time travel recorder is attached');
+			}
+			this._timeTravelRecorder.jumpToTransaction(transactionIndex);
+		},
+		setValue: (instanceId, jsonValue) => {
+			const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
+
+			if (obs instanceof Derived) {
+				obs.debugSetValue(jsonValue);
+			} else if (obs instanceof ObservableValue) {
+				obs.debugSetValue(jsonValue);
+			} else if (obs instanceof FromEventObservable) {
+				obs.debugSetValue(jsonValue);
+			} else {
+				throw new BugIndicatingError('Observable is not supported');
+			}
+
+			const observers = [...obs.debugGetObservers()];
+			for (const d of observers) {
+				d.beginUpdate(obs);
+			}
+			for (const d of observers) {
+				d.handleChange(obs, undefined);
+			}
+			for (const d of observers) {
+				d.endUpdate(obs);
+			}
+		},
+		getValue: instanceId => {
+			const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
+			if (obs instanceof Derived) {
+				return formatValue(obs.debugGetState().value, 200);
+			} else if (obs instanceof ObservableValue) {
+				return formatValue(obs.debugGetState().value, 200);
+			}
+
+			return undefined;
+		},
+		logValue: (instanceId) => {
+			const obs = this._aliveInstances.get(instanceId);
+			if (obs && 'get' in obs) {
+				console.log('Logged Value:', obs.get());
+			} else {
+				throw new BugIndicatingError('Observable is not supported');
+			}
+		},
+		rerun: (instanceId) => {
+			const obs = this._aliveInstances.get(instanceId);
+			if (obs instanceof Derived) {
+				obs.debugRecompute();
+			} else if (obs instanceof AutorunObserver) {
+				obs.debugRerun();
+			} else {
+				throw new BugIndicatingError('Observable is not supported');
+			}
+		},
+	};
+
+	private _createClient(connection: DevToolsConnection): ObsDebuggerApi['client'] {
 		return {
 			notifications: {
 				setDeclarationIdFilter: declarationIds => {
@@ -65,98 +238,12 @@ export class DevToolsLogger implements IObservableLogger {
 					this._flushUpdates();
 				},
 				resetUpdates: () => {
-					this._pendingChanges = null;
-					this._channel.api.notifications.handleChange(this._fullState, true);
+					connection.reset(this._fullState);
 				},
 			},
-			requests: {
-				getDeclarations: () => {
-					const result: Record<string, IObsDeclaration> = {};
-					for (const decl of this._declarations.values()) {
-						result[decl.id] = decl;
-					}
-					return { decls: result };
-				},
-				getSummarizedInstances: () => {
-					return null!;
-				},
-				getObservableValueInfo: instanceId => {
-					const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
-					return {
-						observers: [...obs.debugGetObservers()].map(d => this._formatObserver(d)).filter(isDefined),
-					};
-				},
-				getDerivedInfo: instanceId => {
-					const d = this._aliveInstances.get(instanceId) as Derived<any>;
-					return {
-						dependencies: [...d.debugGetState().dependencies].map(d => this._formatObservable(d)).filter(isDefined),
-						observers: [...d.debugGetObservers()].map(d => this._formatObserver(d)).filter(isDefined),
-					};
-				},
-				getAutorunInfo: instanceId => {
-					const obs = this._aliveInstances.get(instanceId) as AutorunObserver;
-					return {
-						dependencies: [...obs.debugGetState().dependencies].map(d => this._formatObservable(d)).filter(isDefined),
-					};
-				},
-				getTransactionState: () => {
-					return this.getTransactionState();
-				},
-				setValue: (instanceId, jsonValue) => {
-					const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
-
-					if (obs instanceof Derived) {
-						obs.debugSetValue(jsonValue);
-					} else if (obs instanceof ObservableValue) {
-						obs.debugSetValue(jsonValue);
-					} else if (obs instanceof FromEventObservable) {
-						obs.debugSetValue(jsonValue);
-					} else {
-						throw new BugIndicatingError('Observable is not supported');
-					}
-
-					const observers = [...obs.debugGetObservers()];
-					for (const d of observers) {
-						d.beginUpdate(obs);
-					}
-					for (const d of observers) {
-						d.handleChange(obs, undefined);
-					}
-					for (const d of observers) {
-						d.endUpdate(obs);
-					}
-				},
-				getValue: instanceId => {
-					const obs = this._aliveInstances.get(instanceId) as BaseObservable<any>;
-					if (obs instanceof Derived) {
-						return formatValue(obs.debugGetState().value, 200);
-					} else if (obs instanceof ObservableValue) {
-						return formatValue(obs.debugGetState().value, 200);
-					}
-
-					return undefined;
-				},
-				logValue: (instanceId) => {
-					const obs = this._aliveInstances.get(instanceId);
-					if (obs && 'get' in obs) {
-						console.log('Logged Value:', obs.get());
-					} else {
-						throw new BugIndicatingError('Observable is not supported');
-					}
-				},
-				rerun: (instanceId) => {
-					const obs = this._aliveInstances.get(instanceId);
-					if (obs instanceof Derived) {
-						obs.debugRecompute();
-					} else if (obs instanceof AutorunObserver) {
-						obs.debugRerun();
-					} else {
-						throw new BugIndicatingError('Observable is not supported');
-					}
-				},
-			}
+			requests: this.requests,
 		};
-	});
+	}
 
 	private getTransactionState(): ITransactionState | undefined {
 		const affected: ObserverInstanceState[] = [];
@@ -276,27 +363,23 @@ export class DevToolsLogger implements IObservableLogger {
 		DebugLocation.enable();
 	}
 
-	private _pendingChanges: ObsStateUpdate | null = null;
 	private readonly _changeThrottler = new Throttler();
 
-	private readonly _fullState = {};
+	private readonly _fullState: ObsStateUpdate = {};
 
 	private _handleChange(update: ObsStateUpdate): void {
 		deepAssignDeleteNulls(this._fullState, update);
 
-		if (this._pendingChanges === null) {
-			this._pendingChanges = update;
-		} else {
-			deepAssign(this._pendingChanges, update);
+		for (const connection of this._connections) {
+			connection.handleChange(update);
 		}
 
 		this._changeThrottler.throttle(this._flushUpdates, 10);
 	}
 
 	private readonly _flushUpdates = () => {
-		if (this._pendingChanges !== null) {
-			this._channel.api.notifications.handleChange(this._pendingChanges, false);
-			this._pendingChanges = null;
+		for (const connection of this._connections) {
+			connection.flush();
 		}
 	};
 
@@ -473,6 +556,10 @@ export class DevToolsLogger implements IObservableLogger {
 			});
 		}
 	}
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+	}
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+	}
 	handleBeginTransaction(transaction: TransactionImpl): void {
 		this._activeTransactions.add(transaction);
 	}
@@ -480,3 +567,46 @@ export class DevToolsLogger implements IObservableLogger {
 		this._activeTransactions.delete(transaction);
 	}
 }
+
+/**
+ * A client of the {@link ObsDebuggerApi} that receives batched state updates.
+ */
+class DevToolsConnection {
+	private _pendingChanges: ObsStateUpdate | null = null;
+	/** If `_pendingChanges` is a copy that can be merged into (the updates are shared by all connections). */
+	private _ownsPendingChanges = false;
+
+	constructor(
+		private readonly _handleChange: (update: ObsStateUpdate, clearState: boolean) => void,
+	) { }
+
+	public handleChange(update: ObsStateUpdate): void {
+		if (this._pendingChanges === null) {
+			this._pendingChanges = update;
+			this._ownsPendingChanges = false;
+			return;
+		}
+		if (!this._ownsPendingChanges) {
+			this._pendingChanges = deepClone(this._pendingChanges);
+			this._ownsPendingChanges = true;
+		}
+		deepAssign(this._pendingChanges, update);
+	}
+
+	public flush(): void {
+		if (this._pendingChanges !== null) {
+			this._handleChange(this._pendingChanges, false);
+			this._pendingChanges = null;
+			this._ownsPendingChanges = false;
+		}
+	}
+
+	/**
+	 * Drops pending changes and sends the full state instead.
+	 */
+	public reset(fullState: ObsStateUpdate): void {
+		this._pendingChanges = null;
+		this._ownsPendingChanges = false;
+		this._handleChange(fullState, true);
+	}
+}
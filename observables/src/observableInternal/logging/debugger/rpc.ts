@@ -8,6 +8,8 @@ export type ChannelFactory = (handler: IChannelHandler) => IChannel;
 export interface IChannel {
 	sendNotification(data: unknown): void;
 	sendRequest(data: unknown): Promise<RpcRequestResult>;
+	/** Stops listening for messages. */
+	dispose?(): void;
 }
 
 export interface IChannelHandler {
@@ -93,6 +95,10 @@ export class SimpleTypedRpcConnection<T extends Side> {
 
 		this.api = { notifications: notifications, requests: requests } as any;
 	}
+
+	public dispose(): void {
+		this._channel.dispose?.();
+	}
 }
 
 type OutgoingMessage = [
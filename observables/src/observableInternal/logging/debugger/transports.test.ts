@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from 'vitest';
+import { autorunOpts, DevToolsLogger, observableValueOpts } from '../../index';
+import { ObsDebuggerApi, ObsStateUpdate } from './debuggerApi';
+import { SimpleTypedRpcConnection } from './rpc';
+import { createMessagePortChannelFactory, createWebSocketChannelFactory, IWebSocketLike } from './transports';
+
+class FakeWebSocket implements IWebSocketLike {
+	public readyState = 0;
+	public other: FakeWebSocket | undefined = undefined;
+	public readonly sent: string[] = [];
+	private readonly _listeners: { type: string; listener: (e: any) => void }[] = [];
+
+	send(data: string): void {
+		this.sent.push(data);
+		queueMicrotask(() => this.other!._fire('message', { data }));
+	}
+
+	addEventListener(type: string, listener: (e: any) => void): void {
+		this._listeners.push({ type, listener });
+	}
+
+	removeEventListener(type: string, listener: (e: any) => void): void {
+		const idx = this._listeners.findIndex(l => l.type === type && l.listener === listener);
+		if (idx !== -1) {
+			this._listeners.splice(idx, 1);
+		}
+	}
+
+	listenerCount(type: string): number {
+		return this._listeners.filter(l => l.type === type).length;
+	}
+
+	receive(data: string): void {
+		this._fire('message', { data });
+	}
+
+	close(): void {
+		this.readyState = 3;
+		this._fire('close', {});
+	}
+
+	open(): void {
+		this.readyState = 1;
+		this._fire('open', {});
+	}
+
+	private _fire(type: string, e: unknown): void {
+		for (const l of this._listeners) {
+			if (l.type === type) {
+				l.listener(e);
+			}
+		}
+	}
+}
+
+type TestApi = {
+	channelId: 'test';
+	host: {
+		notifications: { log(message: string): void };
+		requests: {};
+	};
+	client: {
+		notifications: {};
+		requests: {
+			add(a: number, b: number): number;
+			fail(): void;
+		};
+	};
+};
+
+function waitFor(predicate: () => boolean): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const start = Date.now();
+		const check = () => {
+			if (predicate()) {
+				resolve();
+			} else if (Date.now() - start > 2000) {
+				reject(new Error('Timeout'));
+			} else {
+				setTimeout(check, 5);
+			}
+		};
+		check();
+	});
+}
+
+describe('transports', () => {
+	it('supports requests and notifications over a message port', async () => {
+		const { port1, port2 } = new MessageChannel();
+		const logged: string[] = [];
+
+		const client = SimpleTypedRpcConnection.createClient<TestApi>(createMessagePortChannelFactory(port1), () => ({
+			notifications: {},
+			requests: {
+				add: (a, b) => a + b,
+				fail: () => { throw new Error('failed'); },
+			},
+		}));
+		const host = SimpleTypedRpcConnection.createHost<TestApi>(createMessagePortChannelFactory(port2), () => ({
+			notifications: { log: message => { logged.push(message); } },
+			requests: {},
+		}));
+
+		expect(await host.api.requests.add(1, 2)).toBe(3);
+		await expect(host.api.requests.fail()).rejects.toMatchObject({ message: 'failed' });
+
+		client.api.notifications.log('hello');
+		await waitFor(() => logged.length > 0);
+		expect(logged).toEqual(['hello']);
+
+		port1.close();
+		port2.close();
+	});
+
+	it('queues messages until the web socket is open', async () => {
+		const a = new FakeWebSocket();
+		const b = new FakeWebSocket();
+		a.other = b;
+		b.other = a;
+
+		SimpleTypedRpcConnection.createClient<TestApi>(createWebSocketChannelFactory(a), () => ({
+			notifications: {},
+			requests: { add: (x, y) => x + y, fail: () => { } },
+		}));
+		const host = SimpleTypedRpcConnection.createHost<TestApi>(createWebSocketChannelFactory(b), () => ({
+			notifications: { log: () => { } },
+			requests: {},
+		}));
+
+		const result = host.api.requests.add(2, 3);
+		expect(b.sent).toEqual([]);
+
+		a.open();
+		b.open();
+		expect(await result).toBe(5);
+		expect(JSON.parse(b.sent[0])).toEqual({ type: 'request', id: 0, data: ['add', [2, 3]] });
+	});
+
+	it('reports malformed web socket messages', () => {
+		const socket = new FakeWebSocket();
+		socket.open();
+		const errors: unknown[] = [];
+		const spy = vi.spyOn(console, 'error').mockImplementation((_message, error) => { errors.push(error); });
+
+		const logged: string[] = [];
+		SimpleTypedRpcConnection.createHost<TestApi>(createWebSocketChannelFactory(socket), () => ({
+			notifications: { log: message => { logged.push(message); } },
+			requests: {},
+		}));
+		socket.receive('{ not json');
+		socket.receive('null');
+		socket.receive('1');
+		socket.receive(JSON.stringify({ type: 'notification', data: ['log', ['hello']] }));
+		spy.mockRestore();
+
+		expect(errors.length).toBe(3);
+		expect(errors[0]).toBeInstanceOf(SyntaxError);
+		expect((errors[1] as Error).message).toBe('Invalid message: null');
+		expect((errors[2] as Error).message).toBe('Invalid message: 1');
+		expect(logged).toEqual(['hello']);
+	});
+
+	it('fails pending requests when the web socket closes', async () => {
+		const socket = new FakeWebSocket();
+		socket.open();
+		socket.other = new FakeWebSocket();
+		const host = SimpleTypedRpcConnection.createHost<TestApi>(createWebSocketChannelFactory(socket), () => ({
+			notifications: { log: () => { } },
+			requests: {},
+		}));
+
+		const result = host.api.requests.add(1, 2);
+		socket.close();
+		await expect(result).rejects.toThrow('The connection was closed before the request completed');
+	});
+
+	it('fails pending requests when the connection is disposed', async () => {
+		const { port1, port2 } = new MessageChannel();
+		const host = SimpleTypedRpcConnection.createHost<TestApi>(createMessagePortChannelFactory(port1), () => ({
+			notifications: { log: () => { } },
+			requests: {},
+		}));
+
+		const result = host.api.requests.add(1, 2);
+		host.dispose();
+		await expect(result).rejects.toThrow('The connection was closed before the request completed');
+
+		port1.close();
+		port2.close();
+	});
+
+	it('removes the message listener when the DevToolsLogger connection is disposed', () => {
+		const socket = new FakeWebSocket();
+		socket.open();
+		socket.other = new FakeWebSocket();
+
+		const connection = DevToolsLogger.getInstance().connect(createWebSocketChannelFactory(socket));
+		expect(socket.listenerCount('message')).toBe(1);
+
+		connection.dispose();
+		expect(socket.listenerCount('message')).toBe(0);
+	});
+
+	it('serves the DevToolsLogger over a message port', async () => {
+		const { port1, port2 } = new MessageChannel();
+		const updates: { update: ObsStateUpdate; clearState: boolean }[] = [];
+
+		const connection = DevToolsLogger.getInstance().connect(createMessagePortChannelFactory(port1));
+		const inspector = SimpleTypedRpcConnection.createHost<ObsDebuggerApi>(createMessagePortChannelFactory(port2), () => ({
+			notifications: { handleChange: (update, clearState) => { updates.push({ update, clearState }); } },
+			requests: {},
+		}));
+
+		await waitFor(() => updates.length > 0);
+		expect(updates[0].clearState).toBe(true);
+
+		const value = observableValueOpts({ debugName: 'transportTestValue' }, 1);
+		const a = autorunOpts({ debugName: 'transportTestAutorun' }, reader => { value.read(reader); });
+
+		await waitFor(() => updates.some(u => Object.values(u.update.instances ?? {}).some(i => i?.name === 'transportTestAutorun')));
+
+		const declarations = await inspector.api.requests.getDeclarations();
+		expect(Object.values(declarations.decls).some(d => d.type === 'autorun')).toBe(true);
+
+		a.dispose();
+		connection.dispose();
+		port1.close();
+		port2.close();
+	});
+});
@@ -0,0 +1,190 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IDisposable, onUnexpectedError, toDisposable } from '../../commonFacade/deps';
+import { ChannelFactory, IChannelHandler, RpcRequestResult } from './rpc';
+
+/**
+ * The subset of the browser `WebSocket` API that is needed by {@link createWebSocketChannelFactory}.
+ */
+export interface IWebSocketLike {
+	readonly readyState: number;
+	send(data: string): void;
+	addEventListener(type: 'open' | 'message' | 'close', listener: (e: any) => void): void;
+	removeEventListener(type: 'open' | 'message' | 'close', listener: (e: any) => void): void;
+}
+
+/**
+ * The subset of the `MessagePort` API (browser or `node:worker_threads`) that is needed by {@link createMessagePortChannelFactory}.
+ */
+export interface IMessagePortLike {
+	postMessage(data: unknown): void;
+	addEventListener(type: 'message', listener: (e: any) => void): void;
+	removeEventListener(type: 'message', listener: (e: any) => void): void;
+	start?(): void;
+}
+
+export type TransportMessage =
+	| { type: 'notification'; data: unknown }
+	| { type: 'request'; id: number; data: unknown }
+	| { type: 'response'; id: number; result: RpcRequestResult };
+
+const WEB_SOCKET_CONNECTING = 0;
+const WEB_SOCKET_OPEN = 1;
+
+/**
+ * Creates a channel that exchanges JSON messages over the given web socket.
+ * Messages that are sent while the socket is connecting are queued, messages sent after it closed are dropped.
+ */
+export function createWebSocketChannelFactory(socket: IWebSocketLike): ChannelFactory {
+	let queue: string[] | undefined = socket.readyState === WEB_SOCKET_CONNECTING ? [] : undefined;
+	if (queue) {
+		socket.addEventListener('open', () => {
+			const q = queue!;
+			queue = undefined;
+			for (const data of q) {
+				socket.send(data);
+			}
+		});
+	}
+
+	return createChannelFactoryFromMessages(
+		message => {
+			const data = JSON.stringify(message);
+			if (queue) {
+				queue.push(data);
+			} else if (socket.readyState === WEB_SOCKET_OPEN) {
+				socket.send(data);
+			}
+		},
+		(handleMessage, handleClose) => {
+			const listener = (e: { data: unknown }) => {
+				let message: unknown;
+				try {
+					message = JSON.parse(String(e.data));
+				} catch (err) {
+					onUnexpectedError(err);
+					return;
+				}
+				handleMessage(message);
+			};
+			socket.addEventListener('message', listener);
+			socket.addEventListener('close', handleClose);
+			return toDisposable(() => {
+				socket.removeEventListener('message', listener);
+				socket.removeEventListener('close', handleClose);
+			});
+		},
+	);
+}
+
+/**
+ * Creates a channel that exchanges messages over the given message port (e.g. to talk to a worker or an iframe).
+ * All exchanged values must be structured-cloneable.
+ */
+export function createMessagePortChannelFactory(port: IMessagePortLike): ChannelFactory {
+	return createChannelFactoryFromMessages(
+		message => port.postMessage(message),
+		handleMessage => {
+			const listener = (e: { data: unknown }) => handleMessage(e.data);
+			port.addEventListener('message', listener);
+			port.start?.();
+			return toDisposable(() => port.removeEventListener('message', listener));
+		},
+	);
+}
+
+/**
+ * Implements requests on top of a transport that can only send and receive messages.
+ * Pending requests fail when the transport closes (`handleClose`) or the channel is disposed.
+ */
+export function createChannelFactoryFromMessages(
+	send: (message: TransportMessage) => void,
+	listen: (handleMessage: (message: unknown) => void, handleClose: () => void) => IDisposable,
+): ChannelFactory {
+	return (handler: IChannelHandler) => {
+		let nextRequestId = 0;
+		const pendingRequests = new Map<number, (result: RpcRequestResult) => void>();
+
+		const failPendingRequests = () => {
+			for (const resolve of pendingRequests.values()) {
+				resolve({ type: 'error', value: new Error('The connection was closed before the request completed') });
+			}
+			pendingRequests.clear();
+		};
+
+		const listener = listen(message => {
+			if (!isTransportMessage(message)) {
+				onUnexpectedError(new Error(`Invalid message: ${JSON.stringify(message)}`));
+				return;
+			}
+			switch (message.type) {
+				case 'notification': {
+					try {
+						handler.handleNotification(message.data);
+					} catch (e) {
+						onUnexpectedError(e);
+					}
+					break;
+				}
+				case 'request': {
+					handleRequest(handler, message.data).then(result => {
+						send({ type: 'response', id: message.id, result });
+					});
+					break;
+				}
+				case 'response': {
+					const resolve = pendingRequests.get(message.id);
+					pendingRequests.delete(message.id);
+					resolve?.(message.result);
+					break;
+				}
+			}
+		}, failPendingRequests);
+
+		return {
+			sendNotification: data => {
+				send({ type: 'notification', data });
+			},
+			sendRequest: data => {
+				const id = nextRequestId++;
+				return new Promise<RpcRequestResult>(resolve => {
+					pendingRequests.set(id, resolve);
+					send({ type: 'request', id, data });
+				});
+			},
+			dispose: () => {
+				listener.dispose();
+				failPendingRequests();
+			},
+		};
+	};
+}
+
+function isTransportMessage(value: unknown): value is TransportMessage {
+	return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+async function handleRequest(handler: IChannelHandler, data: unknown): Promise<RpcRequestResult> {
+	try {
+		const result = await handler.handleRequest(data);
+		if (result.type === 'error') {
+			return { type: 'error', value: serializeError(result.value) };
+		}
+		return { type: 'result', value: await result.value };
+	} catch (e) {
+		return { type: 'error', value: serializeError(e) };
+	}
+}
+
+/**
+ * Errors don't survive JSON serialization.
+ */
+function serializeError(e: unknown): unknown {
+	if (e instanceof Error) {
+		return { name: e.name, message: e.message, stack: e.stack };
+	}
+	return e;
+}
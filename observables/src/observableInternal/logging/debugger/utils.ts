@@ -46,24 +46,47 @@ export class Throttler implements IDisposable {
 	}
 }
 
+export function deepClone<T>(value: T): T {
+	if (Array.isArray(value)) {
+		return value.map(deepClone) as T;
+	}
+	if (!!value && typeof value === 'object') {
+		const result = {} as T;
+		for (const key in value) {
+			result[key] = deepClone(value[key]);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Does not keep references to objects of {@link source}, so that {@link target} can be modified afterwards.
+ */
 export function deepAssign<T>(target: T, source: T): void {
 	for (const key in source) {
 		if (!!target[key] && typeof target[key] === 'object' && !!source[key] && typeof source[key] === 'object') {
 			deepAssign(target[key], source[key]);
 		} else {
-			target[key] = source[key];
+			target[key] = deepClone(source[key]);
 		}
 	}
 }
 
+/**
+ * Does not keep references to objects of {@link source}, so that it can be modified afterwards.
+ */
 export function deepAssignDeleteNulls<T>(target: T, source: T): void {
 	for (const key in source) {
 		if (source[key] === null) {
 			delete target[key];
-		} else if (!!target[key] && typeof target[key] === 'object' && !!source[key] && typeof source[key] === 'object') {
+		} else if (!!source[key] && typeof source[key] === 'object' && !Array.isArray(source[key])) {
+			if (!target[key] || typeof target[key] !== 'object') {
+				target[key] = {} as T[typeof key];
+			}
 			deepAssignDeleteNulls(target[key], source[key]);
 		} else {
-			target[key] = source[key];
+			target[key] = Array.isArray(source[key]) ? [...source[key] as unknown[]] as T[typeof key] : source[key];
 		}
 	}
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { autorunOpts, derivedOpts, formatDependencyGraphAsDot, formatDependencyGraphAsMermaid, getDependencyGraph, observableValueOpts } from '../index';
+
+function createModel(prefix: string) {
+	const first = observableValueOpts({ debugName: `${prefix}.first` }, 'Jane');
+	const last = observableValueOpts({ debugName: `${prefix}.last` }, 'Doe');
+	const full = derivedOpts({ debugName: `${prefix}.full` }, reader => `${first.read(reader)} ${last.read(reader)}`);
+	const upper = derivedOpts({ debugName: `${prefix}.upper` }, reader => full.read(reader).toUpperCase());
+	const a = autorunOpts({ debugName: `${prefix}.render` }, reader => { upper.read(reader); full.read(reader); });
+	return { first, last, full, upper, autorun: a };
+}
+
+describe('dependency graph export', () => {
+	it('walks the dependencies of the roots', () => {
+		const m = createModel('graphJson');
+
+		const graph = getDependencyGraph(m.autorun);
+		expect(graph.nodes[0].location).toMatch(/dependencyGraphExport\.test\.ts:\d+:\d+$/);
+		expect({ ...graph, nodes: graph.nodes.map(({ location, ...n }) => n) }).toEqual({
+			nodes: [
+				{ id: 'n0', name: 'graphJson.render', type: 'autorun', state: 'upToDate', value: undefined },
+				{ id: 'n1', name: 'graphJson.upper', type: 'derived', state: 'upToDate', value: '"JANE DOE"' },
+				{ id: 'n2', name: 'graphJson.full', type: 'derived', state: 'upToDate', value: '"Jane Doe"' },
+				{ id: 'n3', name: 'graphJson.first', type: 'observableValue', state: 'upToDate', value: '"Jane"' },
+				{ id: 'n4', name: 'graphJson.last', type: 'observableValue', state: 'upToDate', value: '"Doe"' },
+			],
+			edges: [
+				{ from: 'n3', to: 'n2' },
+				{ from: 'n4', to: 'n2' },
+				{ from: 'n2', to: 'n1' },
+				{ from: 'n1', to: 'n0' },
+				{ from: 'n2', to: 'n0' },
+			],
+		});
+		m.autorun.dispose();
+	});
+
+	it('supports multiple roots and all alive instances', () => {
+		const m = createModel('graphAll');
+
+		const graph = getDependencyGraph([m.full, m.upper], { includeValues: false });
+		expect(graph.nodes.map(n => n.name)).toEqual(['graphAll.full', 'graphAll.first', 'graphAll.last', 'graphAll.upper']);
+		expect(graph.nodes.every(n => n.value === undefined)).toBe(true);
+
+		const all = getDependencyGraph().nodes.map(n => n.name);
+		expect(all).toEqual(expect.arrayContaining(['graphAll.render', 'graphAll.upper', 'graphAll.full', 'graphAll.first', 'graphAll.last']));
+
+		m.autorun.dispose();
+		expect(getDependencyGraph().nodes.map(n => n.name)).not.toContain('graphAll.render');
+	});
+
+	it('formats as DOT and Mermaid', () => {
+		const m = createModel('graphFmt');
+		const graph = getDependencyGraph(m.upper);
+
+		expect(formatDependencyGraphAsDot(graph)).toBe([
+			'digraph observables {',
+			'\trankdir=LR;',
+			'\tn0 [label="graphFmt.upper (derived)\\n= \\"JANE DOE\\"", shape=box];',
+			'\tn1 [label="graphFmt.full (derived)\\n= \\"Jane Doe\\"", shape=box];',
+			'\tn2 [label="graphFmt.first (observableValue)\\n= \\"Jane\\"", shape=ellipse];',
+			'\tn3 [label="graphFmt.last (observableValue)\\n= \\"Doe\\"", shape=ellipse];',
+			'\tn2 -> n1;',
+			'\tn3 -> n1;',
+			'\tn1 -> n0;',
+			'}',
+		].join('\n'));
+
+		expect(formatDependencyGraphAsMermaid(graph)).toBe([
+			'flowchart LR',
+			'\tn0["graphFmt.upper (derived)<br/>= #quot;JANE DOE#quot;"]',
+			'\tn1["graphFmt.full (derived)<br/>= #quot;Jane Doe#quot;"]',
+			'\tn2(["graphFmt.first (observableValue)<br/>= #quot;Jane#quot;"])',
+			'\tn3(["graphFmt.last (observableValue)<br/>= #quot;Doe#quot;"])',
+			'\tn2 --> n1',
+			'\tn3 --> n1',
+			'\tn1 --> n0',
+		].join('\n'));
+		m.autorun.dispose();
+	});
+});
@@ -0,0 +1,158 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IObserver } from '../base';
+import { IDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import { formatValue } from './consoleObservableLogger';
+import { DependencyGraphNodeType, getDependencyGraphNodeInfo } from './debugGetDependencyGraph';
+import { DevToolsLogger } from './debugger/devToolsLogger';
+
+/**
+ * A serializable model of the dependency graph between observables and autoruns.
+ */
+export interface IDependencyGraph {
+	/** In the order in which they were reached, starting with the roots. */
+	readonly nodes: readonly IDependencyGraphNode[];
+	readonly edges: readonly IDependencyGraphEdge[];
+}
+
+export interface IDependencyGraphNode {
+	/** Ids are assigned in traversal order, so that graphs of the same structure produce the same ids. */
+	readonly id: string;
+	readonly name: string;
+	readonly type: DependencyGraphNodeType;
+	readonly state: string;
+	/** Undefined for autoruns or if values are excluded. */
+	readonly value: string | undefined;
+	/** Only set if {@link DebugLocation} is enabled. */
+	readonly location: string | undefined;
+}
+
+/**
+ * `to` depends on (reads) `from`.
+ */
+export interface IDependencyGraphEdge {
+	readonly from: string;
+	readonly to: string;
+}
+
+export interface IDependencyGraphOptions {
+	readonly debugNamePostProcessor?: (name: string) => string;
+	/** Defaults to true. */
+	readonly includeValues?: boolean;
+}
+
+/**
+ * An observable, an observer or the disposable returned by `autorun`.
+ */
+export type DependencyGraphRoot = IObservable<any> | IObserver | IDisposable;
+
+/**
+ * Walks the dependencies of the given roots.
+ * If no roots are given, all alive instances known to the {@link DevToolsLogger} are used
+ * (observed observables and autoruns that are not disposed).
+ */
+export function getDependencyGraph(roots?: DependencyGraphRoot | readonly DependencyGraphRoot[], options?: IDependencyGraphOptions): IDependencyGraph {
+	const rootList: readonly DependencyGraphRoot[] = roots === undefined
+		? DevToolsLogger.getInstance().getAliveInstances()
+		: Array.isArray(roots) ? roots : [roots as DependencyGraphRoot];
+	const debugNamePostProcessor = options?.debugNamePostProcessor ?? ((str: string) => str);
+	const includeValues = options?.includeValues ?? true;
+
+	const nodes: IDependencyGraphNode[] = [];
+	const edges: IDependencyGraphEdge[] = [];
+	const ids = new Map<IObservable<any> | IObserver, string>();
+
+	const visit = (obj: IObservable<any> | IObserver): string => {
+		const existingId = ids.get(obj);
+		if (existingId !== undefined) {
+			return existingId;
+		}
+		const id = `n${ids.size}`;
+		ids.set(obj, id);
+
+		const info = getDependencyGraphNodeInfo(obj);
+		const location = (obj as { debugLocation?: DebugLocation }).debugLocation;
+		nodes.push({
+			id,
+			name: info ? debugNamePostProcessor((obj as { debugName: string }).debugName) : '(unknown)',
+			type: info?.type ?? 'unknown',
+			state: info?.state ?? 'unknown',
+			value: info && includeValues && info.type !== 'autorun' ? formatValue(info.value, 50) : undefined,
+			location: location ? `${location.fileName}:${location.line}:${location.column}` : undefined,
+		});
+
+		for (const dep of info?.dependencies ?? []) {
+			edges.push({ from: visit(dep), to: id });
+		}
+		return id;
+	};
+
+	for (const root of rootList) {
+		// The disposable returned by `autorun` is its observer
+		visit(root as IObservable<any> | IObserver);
+	}
+	return { nodes, edges };
+}
+
+/**
+ * Formats the graph as Graphviz DOT. Edges point from dependencies to the observables that read them.
+ */
+export function formatDependencyGraphAsDot(graph: IDependencyGraph): string {
+	const lines = ['digraph observables {', '\trankdir=LR;'];
+	for (const node of graph.nodes) {
+		lines.push(`\t${node.id} [label="${escapeDot(formatLabel(node, '\n'))}", shape=${dotShapes[node.type]}];`);
+	}
+	for (const edge of graph.edges) {
+		lines.push(`\t${edge.from} -> ${edge.to};`);
+	}
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * Formats the graph as a Mermaid flowchart. Edges point from dependencies to the observables that read them.
+ */
+export function formatDependencyGraphAsMermaid(graph: IDependencyGraph): string {
+	const lines = ['flowchart LR'];
+	for (const node of graph.nodes) {
+		const [open, close] = mermaidShapes[node.type];
+		lines.push(`\t${node.id}${open}"${escapeMermaid(formatLabel(node, '<br/>'))}"${close}`);
+	}
+	for (const edge of graph.edges) {
+		lines.push(`\t${edge.from} --> ${edge.to}`);
+	}
+	return lines.join('\n');
+}
+
+const dotShapes: Record<DependencyGraphNodeType, string> = {
+	observableValue: 'ellipse',
+	fromEvent: 'ellipse',
+	derived: 'box',
+	autorun: 'hexagon',
+	unknown: 'plaintext',
+};
+
+const mermaidShapes: Record<DependencyGraphNodeType, [open: string, close: string]> = {
+	observableValue: ['([', '])'],
+	fromEvent: ['([', '])'],
+	derived: ['[', ']'],
+	autorun: ['{{', '}}'],
+	unknown: ['[', ']'],
+};
+
+function formatLabel(node: IDependencyGraphNode, lineBreak: string): string {
+	const label = `${node.name} (${node.type})`;
+	return node.value !== undefined ? `${label}${lineBreak}= ${node.value}` : label;
+}
+
+function escapeDot(str: string): string {
+	return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeMermaid(str: string): string {
+	return str.replace(/"/g, '#quot;');
+}
@@ -21,6 +21,17 @@ export function addLogger(logger: IObservableLogger): void {
 	}
 }
 
+export function removeLogger(logger: IObservableLogger): void {
+	if (globalObservableLogger === logger) {
+		globalObservableLogger = undefined;
+	} else if (globalObservableLogger instanceof ComposedLogger) {
+		const idx = globalObservableLogger.loggers.indexOf(logger);
+		if (idx !== -1) {
+			globalObservableLogger.loggers.splice(idx, 1);
+		}
+	}
+}
+
 export function getLogger(): IObservableLogger | undefined {
 	return globalObservableLogger;
 }
@@ -58,6 +69,12 @@ export interface IObservableLogger {
 
 	handleDerivedDependencyChanged(derived: Derived<any, any, any>, observable: IObservable<any>, change: unknown): void;
 	handleDerivedCleared(observable: Derived<any, any, any>): void;
+	/**
+	 * Called before a derived (re)computes its value, also if it is not observed and thus does not cache its value.
+	 * Every call is followed by {@link handleDerivedRecomputeFinished}, even if the computation throws.
+	 */
+	handleDerivedRecomputeStarted(derived: Derived<any, any, any>): void;
+	handleDerivedRecomputeFinished(derived: Derived<any, any, any>): void;
 
 	handleBeginTransaction(transaction: TransactionImpl): void;
 	handleEndTransaction(transaction: TransactionImpl): void;
@@ -118,6 +135,16 @@ class ComposedLogger implements IObservableLogger {
 			logger.handleDerivedCleared(observable);
 		}
 	}
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+		for (const logger of this.loggers) {
+			logger.handleDerivedRecomputeStarted(derived);
+		}
+	}
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+		for (const logger of this.loggers) {
+			logger.handleDerivedRecomputeFinished(derived);
+		}
+	}
 	handleBeginTransaction(transaction: TransactionImpl): void {
 		for (const logger of this.loggers) {
 			logger.handleBeginTransaction(transaction);
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Disposable, DisposableStore } from '../../disposables';
+import { autorunOpts, derivedOpts, IListenerCountWarning, ITrackedObserver, keepObserved, ObservableLeakDetector, observableValueOpts } from '../index';
+
+class LeakyViewModel extends Disposable {
+	public readonly value = observableValueOpts({ debugName: 'leakVm.value' }, 0);
+
+	constructor() {
+		super();
+		this._register(autorunOpts({ debugName: 'leakVm.registered' }, reader => { this.value.read(reader); }));
+		autorunOpts({ debugName: 'leakVm.forgotten' }, reader => { this.value.read(reader); });
+		derivedOpts({ debugName: 'leakVm.derived' }, reader => this.value.read(reader)).keepObserved(this._store);
+	}
+}
+
+describe('ObservableLeakDetector', () => {
+	let detector: ObservableLeakDetector | undefined;
+
+	afterEach(() => {
+		detector?.dispose();
+		detector = undefined;
+	});
+
+	it('reports observers that outlive their scope', () => {
+		const leaks: ITrackedObserver[] = [];
+		detector = new ObservableLeakDetector({ onLeak: leak => leaks.push(leak) });
+
+		const unscoped = new LeakyViewModel();
+		const store = new DisposableStore();
+		detector.runInScope(store, () => store.add(new LeakyViewModel()), 'LeakyViewModel');
+		expect(detector.getAliveObservers().map(o => `${o.kind} ${o.name} ${o.scopeName}`)).toEqual([
+			'autorun leakVm.registered undefined', 'autorun leakVm.forgotten undefined', 'keepObserved leakVm.derived undefined',
+			'autorun leakVm.registered#2 LeakyViewModel', 'autorun leakVm.forgotten#2 LeakyViewModel', 'keepObserved leakVm.derived#2 LeakyViewModel',
+		]);
+
+		unscoped.dispose();
+		expect(leaks).toEqual([]);
+
+		store.dispose();
+		expect(leaks.map(l => ({ ...l, location: undefined }))).toEqual([
+			{ kind: 'autorun', name: 'leakVm.forgotten#2', location: undefined, scopeName: 'LeakyViewModel' },
+		]);
+		expect(detector.getLeaks()).toEqual(leaks);
+		expect(detector.getAliveObservers().map(o => o.name)).toEqual(['leakVm.forgotten', 'leakVm.forgotten#2']);
+	});
+
+	it('tracks subscriptions of stores that are disposed', () => {
+		const leaks: ITrackedObserver[] = [];
+		detector = new ObservableLeakDetector({ onLeak: leak => leaks.push(leak) });
+		const value = observableValueOpts({ debugName: 'leakStoreValue' }, 0);
+
+		const store = new DisposableStore();
+		const forgotten = detector.runInScope(store, () => {
+			value.recomputeInitiallyAndOnChange(store);
+			return keepObserved(value);
+		}, 'store');
+		store.dispose();
+
+		expect(leaks.map(l => [l.kind, l.name, l.scopeName])).toEqual([['keepObserved', 'leakStoreValue', 'store']]);
+		forgotten.dispose();
+		expect(detector.getAliveObservers()).toEqual([]);
+	});
+
+	it('warns about growing observer counts', () => {
+		const warnings: IListenerCountWarning[] = [];
+		detector = new ObservableLeakDetector({ listenerCountThreshold: 3, onListenerCountExceeded: w => warnings.push(w) });
+		const value = observableValueOpts({ debugName: 'leakListeners' }, 0);
+
+		const subscriptions = [];
+		for (let i = 0; i < 7; i++) {
+			subscriptions.push(keepObserved(value));
+		}
+		expect(warnings.map(w => `${w.name} ${w.count}`)).toEqual(['leakListeners 3', 'leakListeners 6']);
+
+		for (const s of subscriptions) {
+			s.dispose();
+		}
+		subscriptions.push(keepObserved(value), keepObserved(value), keepObserved(value));
+		expect(warnings.map(w => w.count)).toEqual([3, 6, 3]);
+		for (const s of subscriptions) {
+			s.dispose();
+		}
+	});
+});
@@ -0,0 +1,228 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IDisposableTracker, setDisposableTracker } from '../../disposables';
+import { IObservable } from '../base';
+import { IDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import type { Derived } from '../observables/derivedImpl';
+import { AutorunObserver } from '../reactions/autorunImpl';
+import { TransactionImpl } from '../transaction';
+import { KeepAliveSubscription } from '../utils/utils';
+import { addLogger, IChangeInformation, IObservableLogger, removeLogger } from './logging';
+
+export interface IObservableLeakDetectorOptions {
+	/**
+	 * Observables with at least this many observers are reported (again each time the count doubles).
+	 * Defaults to 100.
+	 */
+	readonly listenerCountThreshold?: number;
+
+	/**
+	 * Defaults to a `console.warn`.
+	 */
+	readonly onLeak?: (leak: ITrackedObserver) => void;
+
+	/**
+	 * Defaults to a `console.warn`.
+	 */
+	readonly onListenerCountExceeded?: (warning: IListenerCountWarning) => void;
+}
+
+export type TrackedObserverKind = 'autorun' | 'keepObserved' | 'recomputeInitiallyAndOnChange';
+
+export interface ITrackedObserver {
+	readonly kind: TrackedObserverKind;
+	/** The debug name of the autorun or of the kept-alive observable. */
+	readonly name: string;
+	/** Only set if {@link DebugLocation} is enabled. */
+	readonly location: string | undefined;
+	/** The scope in which the observer was created, see {@link ObservableLeakDetector.runInScope}. */
+	readonly scopeName: string | undefined;
+}
+
+export interface IListenerCountWarning {
+	readonly name: string;
+	readonly location: string | undefined;
+	readonly count: number;
+}
+
+interface IScope {
+	readonly name: string | undefined;
+	readonly observers: Set<IDisposable>;
+}
+
+/**
+ * Tracks autoruns and `keepObserved`/`recomputeInitiallyAndOnChange` subscriptions
+ * and reports the ones that outlive the scope in which they were created.
+ * Also warns about observables whose observer count keeps growing.
+ *
+ * Only one instance can be active at a time, as it installs itself as the global disposable tracker.
+ */
+export class ObservableLeakDetector implements IObservableLogger, IDisposableTracker, IDisposable {
+	private readonly _aliveObservers = new Map<IDisposable, IScope | undefined>();
+	private readonly _scopes = new Map<IDisposable, IScope>();
+	private readonly _scopeStack: IScope[] = [];
+	private readonly _nextListenerCountWarning = new Map<IObservable<any>, number>();
+	private readonly _leaks: ITrackedObserver[] = [];
+	private _disposed = false;
+
+	constructor(
+		private readonly _options: IObservableLeakDetectorOptions = {},
+	) {
+		setDisposableTracker(this);
+		addLogger(this);
+	}
+
+	public dispose(): void {
+		if (!this._disposed) {
+			this._disposed = true;
+			setDisposableTracker(undefined);
+			removeLogger(this);
+		}
+	}
+
+	/**
+	 * Runs `fn` and expects all observers that are created during it to be disposed no later than `scope`.
+	 * Once `scope` is disposed, the observers that are still alive are reported as leaks.
+	 *
+	 * `scope` must report its disposal through `markAsDisposed`, as `DisposableStore` and `Disposable` do.
+	 */
+	public runInScope<T>(scope: IDisposable, fn: () => T, name?: string): T {
+		let s = this._scopes.get(scope);
+		if (!s) {
+			s = { name, observers: new Set() };
+			this._scopes.set(scope, s);
+		}
+		this._scopeStack.push(s);
+		try {
+			return fn();
+		} finally {
+			this._scopeStack.pop();
+		}
+	}
+
+	/**
+	 * All tracked observers that are not disposed yet, including the ones that are reported as leaks.
+	 */
+	public getAliveObservers(): ITrackedObserver[] {
+		return [...this._aliveObservers].map(([observer, scope]) => describeObserver(observer, scope));
+	}
+
+	/**
+	 * All observers that were reported as leaks so far.
+	 */
+	public getLeaks(): readonly ITrackedObserver[] {
+		return this._leaks;
+	}
+
+	trackDisposable(disposable: IDisposable): void {
+		if (!(disposable instanceof AutorunObserver) && !(disposable instanceof KeepAliveSubscription)) {
+			return;
+		}
+		const scope = this._scopeStack[this._scopeStack.length - 1];
+		this._aliveObservers.set(disposable, scope);
+		scope?.observers.add(disposable);
+	}
+
+	markAsDisposed(disposable: IDisposable): void {
+		const scope = this._aliveObservers.get(disposable);
+		if (this._aliveObservers.delete(disposable)) {
+			scope?.observers.delete(disposable);
+		}
+
+		const endedScope = this._scopes.get(disposable);
+		if (endedScope) {
+			this._scopes.delete(disposable);
+			for (const observer of endedScope.observers) {
+				this._reportLeak(describeObserver(observer, endedScope));
+			}
+		}
+	}
+
+	private _reportLeak(leak: ITrackedObserver): void {
+		this._leaks.push(leak);
+		if (this._options.onLeak) {
+			this._options.onLeak(leak);
+		} else {
+			console.warn(`[observables] ${leak.kind} ${leak.name} outlived its scope ${leak.scopeName ?? '(anonymous)'}${leak.location ? ` (created at ${leak.location})` : ''}`);
+		}
+	}
+
+	handleObservableCreated(observable: IObservable<any>, location: DebugLocation): void {
+	}
+
+	handleOnListenerCountChanged(observable: IObservable<any>, newCount: number): void {
+		const threshold = this._options.listenerCountThreshold ?? 100;
+		if (newCount < threshold) {
+			this._nextListenerCountWarning.delete(observable);
+			return;
+		}
+		const next = this._nextListenerCountWarning.get(observable) ?? threshold;
+		if (newCount < next) {
+			return;
+		}
+		this._nextListenerCountWarning.set(observable, next * 2);
+
+		const warning: IListenerCountWarning = {
+			name: observable.debugName,
+			location: formatLocation((observable as { debugLocation?: DebugLocation }).debugLocation),
+			count: newCount,
+		};
+		if (this._options.onListenerCountExceeded) {
+			this._options.onListenerCountExceeded(warning);
+		} else {
+			console.warn(`[observables] potential listener leak: ${warning.name} has ${warning.count} observers${warning.location ? ` (created at ${warning.location})` : ''}`);
+		}
+	}
+
+	handleObservableUpdated(observable: IObservable<any>, info: IChangeInformation): void {
+	}
+
+	handleAutorunCreated(autorun: AutorunObserver, location: DebugLocation): void {
+	}
+
+	handleAutorunDisposed(autorun: AutorunObserver): void {
+	}
+
+	handleAutorunDependencyChanged(autorun: AutorunObserver, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleAutorunStarted(autorun: AutorunObserver): void {
+	}
+
+	handleAutorunFinished(autorun: AutorunObserver): void {
+	}
+
+	handleDerivedDependencyChanged(derived: Derived<any>, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleDerivedCleared(observable: Derived<any>): void {
+	}
+
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+	}
+
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+	}
+
+	handleBeginTransaction(transaction: TransactionImpl): void {
+	}
+
+	handleEndTransaction(transaction: TransactionImpl): void {
+	}
+}
+
+function describeObserver(observer: IDisposable, scope: IScope | undefined): ITrackedObserver {
+	if (observer instanceof AutorunObserver) {
+		return { kind: 'autorun', name: observer.debugName, location: formatLocation(observer.debugLocation), scopeName: scope?.name };
+	}
+	const subscription = observer as KeepAliveSubscription;
+	return { kind: subscription.kind, name: subscription.observable.debugName, location: formatLocation(subscription.debugLocation), scopeName: scope?.name };
+}
+
+function formatLocation(location: DebugLocation | undefined): string | undefined {
+	return location ? `${location.fileName}:${location.line}:${location.column}` : undefined;
+}
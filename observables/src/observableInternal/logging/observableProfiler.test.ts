@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { autorunOpts, DebugLocation, derivedOpts, ObservableProfiler, observableValueOpts } from '../index';
+
+describe('ObservableProfiler', () => {
+	let profiler: ObservableProfiler | undefined;
+	let time = 0;
+
+	function createProfiler(): ObservableProfiler {
+		time = 0;
+		profiler = new ObservableProfiler({ now: () => time });
+		return profiler;
+	}
+
+	afterEach(() => {
+		profiler?.dispose();
+		profiler = undefined;
+	});
+
+	it('measures recomputations and runs and tracks wasted recomputations', () => {
+		const p = createProfiler();
+		const value = observableValueOpts({ debugName: 'profValue' }, 0);
+		const parity = derivedOpts({ debugName: 'profParity' }, reader => {
+			time += 2;
+			return value.read(reader) % 2;
+		});
+		const a = autorunOpts({ debugName: 'profAutorun' }, reader => {
+			time += 1;
+			parity.read(reader);
+		});
+
+		value.set(2, undefined); // parity stays 0, the autorun does not run
+		value.set(3, undefined);
+
+		const entries = p.getReport().entries.map(({ key, location, ...e }) => e);
+		expect(entries).toEqual([
+			{ kind: 'derived', name: 'profParity', count: 3, totalTime: 6, selfTime: 6, maxTime: 2, wastedCount: 1, wastedTime: 2 },
+			{ kind: 'autorun', name: 'profAutorun', count: 2, totalTime: 4, selfTime: 2, maxTime: 3, wastedCount: 0, wastedTime: 0 },
+		]);
+		a.dispose();
+	});
+
+	it('aggregates by declaration location', () => {
+		DebugLocation.enable();
+		const p = createProfiler();
+		const createDerived = (name: string) => derivedOpts({ debugName: name }, () => { time += 1; return name; });
+
+		createDerived('profFirst').get();
+		createDerived('profSecond').get();
+
+		const [entry] = p.getReport().entries;
+		expect(p.getReport().entries.length).toBe(1);
+		expect(entry.location).toMatch(/observableProfiler\.test\.ts:\d+:\d+$/);
+		expect(entry).toMatchObject({ key: entry.location, name: 'profFirst', count: 2, totalTime: 2 });
+	});
+
+	it('exports a chrome trace', () => {
+		const p = createProfiler();
+		const value = observableValueOpts({ debugName: 'profTraceValue' }, 1);
+		const doubled = derivedOpts({ debugName: 'profTraceDoubled' }, reader => {
+			time += 0.5;
+			return value.read(reader) * 2;
+		});
+		const a = autorunOpts({ debugName: 'profTraceAutorun' }, reader => {
+			time += 1;
+			doubled.read(reader);
+		});
+
+		const trace = p.toChromeTrace();
+		expect(trace.displayTimeUnit).toBe('ms');
+		expect(trace.traceEvents.map(({ args, ...e }) => e)).toEqual([
+			{ name: 'profTraceDoubled', cat: 'derived', ph: 'X', ts: 1000, dur: 500, pid: 1, tid: 1 },
+			{ name: 'profTraceAutorun', cat: 'autorun', ph: 'X', ts: 0, dur: 1500, pid: 1, tid: 1 },
+		]);
+		expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+
+		p.reset();
+		expect(p.getReport().entries).toEqual([]);
+		expect(p.toChromeTrace().traceEvents).toEqual([]);
+		a.dispose();
+	});
+
+	it('finishes autoruns that are disposed while running', () => {
+		const p = createProfiler();
+		const dispose = observableValueOpts({ debugName: 'profDispose' }, false);
+		const a = autorunOpts({ debugName: 'profSelfDisposing' }, reader => {
+			time += 3;
+			if (dispose.read(reader)) {
+				a.dispose();
+			}
+		});
+		dispose.set(true, undefined);
+
+		expect(p.getReport().entries.map(e => [e.name, e.count, e.totalTime])).toEqual([['profSelfDisposing', 2, 6]]);
+	});
+});
@@ -0,0 +1,264 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable } from '../base';
+import { IDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import type { Derived } from '../observables/derivedImpl';
+import type { AutorunObserver } from '../reactions/autorunImpl';
+import { TransactionImpl } from '../transaction';
+import { addLogger, IChangeInformation, IObservableLogger, removeLogger } from './logging';
+
+export interface IObservableProfilerOptions {
+	/**
+	 * Returns the current time in milliseconds.
+	 * Defaults to `performance.now()`.
+	 */
+	readonly now?: () => number;
+
+	/**
+	 * The maximum number of trace events to keep for {@link ObservableProfiler.toChromeTrace}.
+	 * Older events are dropped first. Aggregated statistics are not affected.
+	 * Defaults to 100000.
+	 */
+	readonly maxTraceEvents?: number;
+}
+
+export type ObservableProfileEntryKind = 'derived' | 'autorun';
+
+/**
+ * Statistics of all deriveds or autoruns that were declared at the same location.
+ * All times are in milliseconds.
+ */
+export interface IObservableProfileEntry {
+	/** `file:line:column` of the declaration, or the debug name if {@link DebugLocation} is not enabled. */
+	readonly key: string;
+	readonly kind: ObservableProfileEntryKind;
+	/** The debug name of the first instance that was measured. */
+	readonly name: string;
+	readonly location: string | undefined;
+	/** Number of recomputations (deriveds) or runs (autoruns). */
+	readonly count: number;
+	/** Includes the time spent in nested recomputations and runs. */
+	readonly totalTime: number;
+	/** Excludes the time spent in nested recomputations and runs. */
+	readonly selfTime: number;
+	readonly maxTime: number;
+	/** Recomputations of deriveds that produced a value equal to the previous one. */
+	readonly wastedCount: number;
+	/** The self time of the wasted recomputations. */
+	readonly wastedTime: number;
+}
+
+export interface IObservableProfileReport {
+	/** Sorted by descending self time. */
+	readonly entries: readonly IObservableProfileEntry[];
+}
+
+/**
+ * See https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU.
+ * Can be loaded in the performance panel of the Chrome DevTools or in https://ui.perfetto.dev.
+ */
+export interface IChromeTrace {
+	readonly traceEvents: readonly IChromeTraceEvent[];
+	readonly displayTimeUnit: 'ms';
+}
+
+export interface IChromeTraceEvent {
+	readonly name: string;
+	readonly cat: ObservableProfileEntryKind;
+	readonly ph: 'X';
+	/** In microseconds. */
+	readonly ts: number;
+	/** In microseconds. */
+	readonly dur: number;
+	readonly pid: number;
+	readonly tid: number;
+	readonly args: { readonly location: string | undefined; readonly wasted?: boolean };
+}
+
+interface IFrame {
+	readonly instance: Derived<any> | AutorunObserver;
+	entry: IMutableProfileEntry;
+	readonly start: number;
+	childTime: number;
+	wasted: boolean;
+}
+
+type IMutableProfileEntry = { -readonly [K in keyof IObservableProfileEntry]: IObservableProfileEntry[K] };
+
+/**
+ * Measures the wall time of derived recomputations and autorun runs
+ * and aggregates them by the location at which the deriveds and autoruns are declared.
+ *
+ * Enable {@link DebugLocation} to get one entry per declaration rather than per debug name.
+ */
+export class ObservableProfiler implements IObservableLogger, IDisposable {
+	private readonly _entries = new Map<string, IMutableProfileEntry>();
+	private readonly _stack: IFrame[] = [];
+	private _traceEvents: IChromeTraceEvent[] = [];
+	private readonly _now: () => number;
+	private _disposed = false;
+
+	constructor(
+		private readonly _options: IObservableProfilerOptions = {},
+	) {
+		this._now = _options.now ?? (() => performance.now());
+		addLogger(this);
+	}
+
+	public dispose(): void {
+		if (!this._disposed) {
+			this._disposed = true;
+			removeLogger(this);
+		}
+	}
+
+	public getReport(): IObservableProfileReport {
+		return {
+			entries: [...this._entries.values()].map(e => ({ ...e })).sort((a, b) => b.selfTime - a.selfTime),
+		};
+	}
+
+	/**
+	 * Returns the recorded recomputations and runs in the Chrome trace event format.
+	 * Use `JSON.stringify` to write it to a file.
+	 */
+	public toChromeTrace(): IChromeTrace {
+		return { traceEvents: [...this._traceEvents], displayTimeUnit: 'ms' };
+	}
+
+	/**
+	 * Clears all statistics and trace events. Currently running recomputations are still measured.
+	 */
+	public reset(): void {
+		this._entries.clear();
+		this._traceEvents = [];
+		for (const frame of this._stack) {
+			frame.entry = this._getEntry(frame.instance, frame.entry.kind);
+		}
+	}
+
+	private _getEntry(instance: Derived<any> | AutorunObserver, kind: ObservableProfileEntryKind): IMutableProfileEntry {
+		const location = formatLocation(instance.debugLocation);
+		const key = location ?? `${kind} ${instance.debugName}`;
+		let entry = this._entries.get(key);
+		if (!entry) {
+			entry = { key, kind, name: instance.debugName, location, count: 0, totalTime: 0, selfTime: 0, maxTime: 0, wastedCount: 0, wastedTime: 0 };
+			this._entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	private _start(instance: Derived<any> | AutorunObserver, kind: ObservableProfileEntryKind): void {
+		this._stack.push({ instance, entry: this._getEntry(instance, kind), start: this._now(), childTime: 0, wasted: false });
+	}
+
+	private _finish(instance: Derived<any> | AutorunObserver): void {
+		let idx = this._stack.length - 1;
+		while (idx >= 0 && this._stack[idx].instance !== instance) {
+			idx--;
+		}
+		if (idx === -1) {
+			// Started before the profiler was created
+			return;
+		}
+		const end = this._now();
+		// Frames above were not finished (e.g. autoruns that were disposed while running), they end here as well
+		while (this._stack.length > idx) {
+			this._record(this._stack.pop()!, end);
+		}
+	}
+
+	private _record(frame: IFrame, end: number): void {
+		const duration = end - frame.start;
+		const selfTime = duration - frame.childTime;
+		const parent = this._stack[this._stack.length - 1];
+		if (parent) {
+			parent.childTime += duration;
+		}
+
+		const entry = frame.entry;
+		entry.count++;
+		entry.totalTime += duration;
+		entry.selfTime += selfTime;
+		entry.maxTime = Math.max(entry.maxTime, duration);
+		if (frame.wasted) {
+			entry.wastedCount++;
+			entry.wastedTime += selfTime;
+		}
+
+		this._traceEvents.push({
+			name: frame.instance.debugName,
+			cat: entry.kind,
+			ph: 'X',
+			ts: frame.start * 1000,
+			dur: duration * 1000,
+			pid: 1,
+			tid: 1,
+			args: frame.wasted ? { location: entry.location, wasted: true } : { location: entry.location },
+		});
+		const maxTraceEvents = this._options.maxTraceEvents ?? 100000;
+		if (this._traceEvents.length > maxTraceEvents) {
+			this._traceEvents.splice(0, this._traceEvents.length - maxTraceEvents);
+		}
+	}
+
+	handleObservableCreated(observable: IObservable<any>, location: DebugLocation): void {
+	}
+
+	handleOnListenerCountChanged(observable: IObservable<any>, newCount: number): void {
+	}
+
+	handleObservableUpdated(observable: IObservable<any>, info: IChangeInformation): void {
+		const frame = this._stack[this._stack.length - 1];
+		if (frame?.instance === observable && info.hadValue && !info.didChange) {
+			frame.wasted = true;
+		}
+	}
+
+	handleAutorunCreated(autorun: AutorunObserver, location: DebugLocation): void {
+	}
+
+	handleAutorunDisposed(autorun: AutorunObserver): void {
+		// Disposed autoruns don't report that they finished
+		this._finish(autorun);
+	}
+
+	handleAutorunDependencyChanged(autorun: AutorunObserver, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleAutorunStarted(autorun: AutorunObserver): void {
+		this._start(autorun, 'autorun');
+	}
+
+	handleAutorunFinished(autorun: AutorunObserver): void {
+		this._finish(autorun);
+	}
+
+	handleDerivedDependencyChanged(derived: Derived<any>, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleDerivedCleared(observable: Derived<any>): void {
+	}
+
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+		this._start(derived, 'derived');
+	}
+
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+		this._finish(derived);
+	}
+
+	handleBeginTransaction(transaction: TransactionImpl): void {
+	}
+
+	handleEndTransaction(transaction: TransactionImpl): void {
+	}
+}
+
+function formatLocation(location: DebugLocation | undefined): string | undefined {
+	return location ? `${location.fileName}:${location.line}:${location.column}` : undefined;
+}
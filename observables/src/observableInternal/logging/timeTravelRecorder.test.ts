@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { autorunOpts, derivedOpts, DevToolsLogger, observableValueOpts, TimeTravelRecorder, transaction } from '../index';
+
+describe('TimeTravelRecorder', () => {
+	let recorder: TimeTravelRecorder | undefined;
+
+	afterEach(() => {
+		recorder?.dispose();
+		recorder = undefined;
+	});
+
+	it('records updates grouped by transaction', () => {
+		recorder = new TimeTravelRecorder();
+		const first = observableValueOpts({ debugName: 'ttFirst' }, 'a');
+		const second = observableValueOpts({ debugName: 'ttSecond' }, 1);
+
+		transaction(tx => {
+			first.set('b', tx);
+			second.set(2, tx);
+		}, () => 'ttBoth');
+		second.set(2, undefined); // unchanged, not recorded
+		second.set(3, undefined);
+
+		expect(recorder.getTimeline().transactions.map(t => ({ name: t.name, updates: t.updates.map(u => `${u.name} = ${u.formattedValue}`) }))).toEqual([
+			{ name: 'ttBoth', updates: ['ttFirst = "b"', 'ttSecond = 2'] },
+			{ name: 'Setting ttSecond', updates: ['ttSecond = 3'] },
+		]);
+	});
+
+	it('includes updates of deriveds in the transaction that caused them', () => {
+		recorder = new TimeTravelRecorder();
+		const value = observableValueOpts({ debugName: 'ttValue' }, 1);
+		const doubled = derivedOpts({ debugName: 'ttDoubled' }, reader => value.read(reader) * 2);
+		const a = autorunOpts({ debugName: 'ttAutorun' }, reader => { doubled.read(reader); });
+
+		value.set(2, undefined);
+
+		expect(recorder.getTimeline().transactions.map(t => t.updates.map(u => u.name))).toEqual([['ttValue', 'ttDoubled']]);
+		a.dispose();
+	});
+
+	it('jumps to the state after a transaction', () => {
+		recorder = new TimeTravelRecorder();
+		const count = observableValueOpts({ debugName: 'ttCount' }, 0);
+		const label = observableValueOpts({ debugName: 'ttLabel' }, 'zero');
+		const unregistered = observableValueOpts({ debugName: 'ttUnregistered' }, 0);
+		recorder.register(count);
+		recorder.register(label);
+
+		count.set(1, undefined);
+		transaction(tx => {
+			count.set(2, tx);
+			label.set('two', tx);
+			unregistered.set(2, tx);
+		});
+		const [first, second] = recorder.getTimeline().transactions;
+
+		recorder.jumpToTransaction(first.index);
+		expect([count.get(), label.get(), unregistered.get()]).toEqual([1, 'zero', 2]);
+
+		recorder.jumpToTransaction(second.index);
+		expect([count.get(), label.get()]).toEqual([2, 'two']);
+
+		const timeline = recorder.getTimeline().transactions;
+		expect(timeline.map(t => t.name)).toEqual([first.name, second.name, `Jump to transaction ${first.index}`, `Jump to transaction ${second.index}`]);
+	});
+
+	it('drops old transactions', () => {
+		recorder = new TimeTravelRecorder({ maxTransactions: 2, recordAllValues: true });
+		const value = observableValueOpts({ debugName: 'ttDropped' }, 0);
+		for (let i = 1; i <= 4; i++) {
+			value.set(i, undefined);
+		}
+
+		const transactions = recorder.getTimeline().transactions;
+		expect(transactions.map(t => t.updates[0].formattedValue)).toEqual(['3', '4']);
+		expect(() => recorder!.jumpToTransaction(transactions[0].index - 1)).toThrow();
+
+		recorder.jumpToTransaction(transactions[0].index);
+		expect(value.get()).toBe(3);
+	});
+
+	it('is served by the DevToolsLogger', () => {
+		recorder = new TimeTravelRecorder();
+		const value = observableValueOpts({ debugName: 'ttDevTools' }, 'x');
+		recorder.register(value);
+		const logger = DevToolsLogger.getInstance();
+		expect(logger.requests.getTimeline()).toEqual({ transactions: [] });
+
+		logger.setTimeTravelRecorder(recorder);
+		value.set('y', undefined);
+		value.set('z', undefined);
+		const [first] = logger.requests.getTimeline().transactions;
+		expect(first.updates[0].name).toBe('ttDevTools');
+
+		logger.requests.jumpToTransaction(first.index);
+		expect(value.get()).toBe('y');
+		logger.setTimeTravelRecorder(undefined);
+	});
+});
@@ -0,0 +1,225 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, ISettableObservable } from '../base';
+import { BugIndicatingError, IDisposable, toDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import type { Derived } from '../observables/derivedImpl';
+import { ObservableValue } from '../observables/observableValue';
+import type { AutorunObserver } from '../reactions/autorunImpl';
+import { transaction, TransactionImpl } from '../transaction';
+import { formatValue } from './consoleObservableLogger';
+import { IObsTimeline, IObsTimelineTransaction, ObsInstanceId } from './debugger/debuggerApi';
+import { addLogger, IChangeInformation, IObservableLogger, removeLogger } from './logging';
+
+export interface ITimeTravelRecorderOptions {
+	/**
+	 * The maximum number of transactions to keep.
+	 * Defaults to 1000.
+	 */
+	readonly maxTransactions?: number;
+
+	/**
+	 * If set, the values of all {@link ObservableValue}s are recorded, not only the ones passed to {@link TimeTravelRecorder.register}.
+	 * This keeps all changed observable values (and their old values) alive until their transactions are dropped.
+	 */
+	readonly recordAllValues?: boolean;
+}
+
+interface IRecordedTransaction {
+	readonly index: number;
+	readonly name: string | undefined;
+	readonly updates: IRecordedUpdate[];
+}
+
+interface IRecordedUpdate {
+	readonly observable: IObservable<any>;
+	readonly formattedValue: string | undefined;
+}
+
+interface IValueChange {
+	readonly transactionIndex: number;
+	readonly oldValue: unknown;
+	readonly newValue: unknown;
+}
+
+/**
+ * Records all observable updates, grouped by (top-level) transaction, into a timeline.
+ * Registered observable values can be reset to their state after any recorded transaction (see {@link jumpToTransaction}).
+ *
+ * Jumping is recorded as a transaction as well, so that the timeline always reflects the actual history.
+ */
+export class TimeTravelRecorder implements IObservableLogger, IDisposable {
+	private readonly _transactions: IRecordedTransaction[] = [];
+	private readonly _registeredValues = new Set<IObservable<any>>();
+	private readonly _valueChanges = new Map<IObservable<any>, IValueChange[]>();
+
+	private _nextTransactionIndex = 0;
+	private _transactionDepth = 0;
+	private _currentTransaction: IRecordedTransaction | undefined = undefined;
+	private _disposed = false;
+
+	constructor(
+		private readonly _options: ITimeTravelRecorderOptions = {},
+	) {
+		addLogger(this);
+	}
+
+	public dispose(): void {
+		if (!this._disposed) {
+			this._disposed = true;
+			removeLogger(this);
+		}
+	}
+
+	/**
+	 * Records the values of the given observable, so that {@link jumpToTransaction} can restore them.
+	 */
+	public register(observable: ISettableObservable<any, any>): IDisposable {
+		this._registeredValues.add(observable);
+		return toDisposable(() => {
+			this._registeredValues.delete(observable);
+			this._valueChanges.delete(observable);
+		});
+	}
+
+	/**
+	 * Returns a serializable copy of the timeline.
+	 * @param getInstanceId Maps observables to the ids that are used by the consumer of the timeline.
+	 */
+	public getTimeline(getInstanceId?: (observable: IObservable<any>) => ObsInstanceId | undefined): IObsTimeline {
+		return {
+			transactions: this._transactions.map<IObsTimelineTransaction>(t => ({
+				index: t.index,
+				name: t.name,
+				updates: t.updates.map(u => ({
+					instanceId: getInstanceId?.(u.observable),
+					name: u.observable.debugName,
+					formattedValue: u.formattedValue,
+				})),
+			})),
+		};
+	}
+
+	/**
+	 * Resets all recorded observable values to their state after the transaction with the given index.
+	 */
+	public jumpToTransaction(transactionIndex: number): void {
+		const first = this._transactions[0];
+		if (!first || transactionIndex < first.index || transactionIndex >= this._nextTransactionIndex) {
+			throw new BugIndicatingError(`Transaction ${transactionIndex} is not recorded`);
+		}
+
+		transaction(tx => {
+			for (const [observable, changes] of this._valueChanges) {
+				(observable as ISettableObservable<any, any>).set(getValueAfter(changes, transactionIndex), tx, undefined);
+			}
+		}, () => `Jump to transaction ${transactionIndex}`);
+	}
+
+	private _shouldRecordValue(observable: IObservable<any>): boolean {
+		return this._registeredValues.has(observable) || (!!this._options.recordAllValues && observable instanceof ObservableValue);
+	}
+
+	private _record(observable: IObservable<any>, info: IChangeInformation): void {
+		let tx = this._currentTransaction;
+		if (!tx) {
+			// Updates outside of transactions (e.g. deriveds that are read outside of a transaction) form their own entry
+			tx = { index: this._nextTransactionIndex, name: undefined, updates: [] };
+		}
+		if (tx.updates.length === 0) {
+			this._pushTransaction(tx);
+		}
+
+		tx.updates.push({ observable, formattedValue: formatValue(info.newValue, 50) });
+		if (this._shouldRecordValue(observable)) {
+			let changes = this._valueChanges.get(observable);
+			if (!changes) {
+				changes = [];
+				this._valueChanges.set(observable, changes);
+			}
+			changes.push({ transactionIndex: tx.index, oldValue: info.oldValue, newValue: info.newValue });
+		}
+	}
+
+	private _pushTransaction(tx: IRecordedTransaction): void {
+		this._nextTransactionIndex++;
+		this._transactions.push(tx);
+
+		const maxTransactions = this._options.maxTransactions ?? 1000;
+		if (this._transactions.length > maxTransactions) {
+			this._transactions.splice(0, this._transactions.length - maxTransactions);
+			const firstIndex = this._transactions[0].index;
+			for (const changes of this._valueChanges.values()) {
+				const firstKept = changes.findIndex(c => c.transactionIndex >= firstIndex);
+				// If all changes are dropped, the last one is kept, as it knows the value during all recorded transactions
+				changes.splice(0, firstKept === -1 ? changes.length - 1 : firstKept);
+			}
+		}
+	}
+
+	handleObservableCreated(observable: IObservable<any>, location: DebugLocation): void {
+	}
+
+	handleOnListenerCountChanged(observable: IObservable<any>, newCount: number): void {
+	}
+
+	handleObservableUpdated(observable: IObservable<any>, info: IChangeInformation): void {
+		if (info.hadValue && info.didChange) {
+			this._record(observable, info);
+		}
+	}
+
+	handleAutorunCreated(autorun: AutorunObserver, location: DebugLocation): void {
+	}
+
+	handleAutorunDisposed(autorun: AutorunObserver): void {
+	}
+
+	handleAutorunDependencyChanged(autorun: AutorunObserver, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleAutorunStarted(autorun: AutorunObserver): void {
+	}
+
+	handleAutorunFinished(autorun: AutorunObserver): void {
+	}
+
+	handleDerivedDependencyChanged(derived: Derived<any>, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleDerivedCleared(observable: Derived<any>): void {
+	}
+
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+	}
+
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+	}
+
+	handleBeginTransaction(transaction: TransactionImpl): void {
+		if (this._transactionDepth === 0) {
+			this._currentTransaction = { index: this._nextTransactionIndex, name: transaction.getDebugName(), updates: [] };
+		}
+		this._transactionDepth++;
+	}
+
+	handleEndTransaction(transaction: TransactionImpl): void {
+		this._transactionDepth--;
+		if (this._transactionDepth === 0) {
+			// Transactions without updates are not recorded
+			this._currentTransaction = undefined;
+		}
+	}
+}
+
+function getValueAfter(changes: readonly IValueChange[], transactionIndex: number): unknown {
+	for (let i = changes.length - 1; i >= 0; i--) {
+		if (changes[i].transactionIndex <= transactionIndex) {
+			return changes[i].newValue;
+		}
+	}
+	return changes[0].oldValue;
+}
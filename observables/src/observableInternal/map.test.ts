@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { autorunHandleChanges, derived, ObservableMap, ObservableMapChange, transaction } from './index';
+import { recordAutorunRuns } from './testing';
+
+describe('ObservableMap', () => {
+	it('reports change records in order', () => {
+		const map = new ObservableMap<string, number>();
+		const changes: ObservableMapChange<string, number>[][] = [];
+		const d = autorunHandleChanges({
+			changeTracker: {
+				createChangeSummary: () => [] as ObservableMapChange<string, number>[],
+				handleChange: (ctx, summary) => {
+					if (ctx.didChange(map.observable)) {
+						summary.push(ctx.change);
+					}
+					return true;
+				},
+			},
+		}, (reader, summary) => {
+			map.observable.read(reader);
+			changes.push(summary);
+		});
+
+		map.set('a', 1);
+		transaction(tx => {
+			map.set('a', 2, tx);
+			map.set('b', 3, tx);
+			map.delete('a', tx);
+		});
+		map.set('b', 3);
+		map.clear();
+
+		expect(changes).toEqual([
+			[],
+			[{ kind: 'added', key: 'a', oldValue: undefined, newValue: 1 }],
+			[
+				{ kind: 'updated', key: 'a', oldValue: 1, newValue: 2 },
+				{ kind: 'added', key: 'b', oldValue: undefined, newValue: 3 },
+				{ kind: 'deleted', key: 'a', oldValue: 2, newValue: undefined },
+			],
+			[{ kind: 'deleted', key: 'b', oldValue: 3, newValue: undefined }],
+		]);
+		d.dispose();
+	});
+
+	it('observeKey only reacts to changes of its key', () => {
+		const map = new ObservableMap<string, number>();
+		const recording = recordAutorunRuns(map.observeKey('a'));
+
+		map.set('b', 1);
+		map.set('a', 1);
+		map.set('b', 2);
+		map.delete('a');
+		expect(recording.values).toEqual([undefined, 1, undefined]);
+
+		recording.dispose();
+	});
+
+	it('observeKey returns the same observable while it is observed', () => {
+		const map = new ObservableMap<string, number>();
+		map.set('a', 1);
+		const keyObservables = new Set<unknown>();
+		const sum = derived(reader => {
+			const obs = map.observeKey('a');
+			keyObservables.add(obs);
+			return (obs.read(reader) ?? 0) + 1;
+		});
+		const recording = recordAutorunRuns(sum);
+
+		map.set('a', 2);
+		map.set('a', 3);
+		expect(recording.values).toEqual([2, 3, 4]);
+		expect(keyObservables.size).toBe(1);
+
+		recording.dispose();
+	});
+
+	it('observeKey only keeps observed observables', () => {
+		const map = new ObservableMap<string, number>();
+		const unobserved = map.observeKey('a');
+		const observed = map.observeKey('a');
+		expect(observed).not.toBe(unobserved);
+
+		const recording = recordAutorunRuns(observed);
+		expect(map.observeKey('a')).toBe(observed);
+
+		// Reading another instance without observing it must not evict the observed one
+		unobserved.get();
+		expect(map.observeKey('a')).toBe(observed);
+
+		recording.dispose();
+		expect(map.observeKey('a')).not.toBe(observed);
+	});
+
+	it('iterates like a Map', () => {
+		const map = new ObservableMap<string, number>();
+		map.set('a', 1).set('b', 2);
+		expect([...map]).toEqual([['a', 1], ['b', 2]]);
+		expect([...map.keys()]).toEqual(['a', 'b']);
+		expect([...map.values()]).toEqual([1, 2]);
+	});
+});
@@ -3,16 +3,35 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IObservable, ITransaction } from './base';
+import { IObservable, IObservableWithChange, ITransaction } from './base';
 import { observableValueOpts } from './observables/observableValueOpts';
-
+import { DerivedCachedWhileObserved } from './observables/derivedImpl';
+import { DebugNameData } from './debugName';
+import { DebugLocation } from './debugLocation';
+import { strictEquals } from './commonFacade/deps';
+import { subtransaction } from './transaction';
+
+/**
+ * Describes how a single entry of an {@link ObservableMap} changed.
+ */
+export type ObservableMapChange<K, V> =
+	| { readonly kind: 'added'; readonly key: K; readonly oldValue: undefined; readonly newValue: V }
+	| { readonly kind: 'deleted'; readonly key: K; readonly oldValue: V; readonly newValue: undefined }
+	| { readonly kind: 'updated'; readonly key: K; readonly oldValue: V; readonly newValue: V };
 
 export class ObservableMap<K, V> implements Map<K, V> {
 	private readonly _data = new Map<K, V>();
 
-	private readonly _obs = observableValueOpts({ equalsFn: () => false }, this);
+	private readonly _obs = observableValueOpts<Map<K, V>, ObservableMapChange<K, V>>({ equalsFn: () => false }, this);
+
+	/** The key observables that are currently observed (see {@link DerivedCachedWhileObserved}). */
+	private readonly _keyObservables = new Map<K, IObservable<V | undefined>>();
 
-	readonly observable: IObservable<Map<K, V>> = this._obs;
+	/**
+	 * Reports a change record for every added, deleted or updated entry.
+	 * Observers receive all records of a transaction in order.
+	 */
+	readonly observable: IObservableWithChange<Map<K, V>, ObservableMapChange<K, V>> = this._obs;
 
 	get size(): number {
 		return this._data.size;
@@ -31,24 +50,60 @@ export class ObservableMap<K, V> implements Map<K, V> {
 		const oldValue = this._data.get(key);
 		if (!hadKey || oldValue !== value) {
 			this._data.set(key, value);
-			this._obs.set(this, tx);
+			this._obs.set(this, tx, hadKey
+				? { kind: 'updated', key, oldValue: oldValue!, newValue: value }
+				: { kind: 'added', key, oldValue: undefined, newValue: value }
+			);
 		}
 		return this;
 	}
 
 	delete(key: K, tx?: ITransaction): boolean {
-		const result = this._data.delete(key);
-		if (result) {
-			this._obs.set(this, tx);
+		if (!this._data.has(key)) {
+			return false;
 		}
-		return result;
+		const oldValue = this._data.get(key)!;
+		this._data.delete(key);
+		this._obs.set(this, tx, { kind: 'deleted', key, oldValue, newValue: undefined });
+		return true;
 	}
 
 	clear(tx?: ITransaction): void {
 		if (this._data.size > 0) {
+			const entries = [...this._data];
 			this._data.clear();
-			this._obs.set(this, tx);
+			subtransaction(tx, tx => {
+				for (const [key, oldValue] of entries) {
+					this._obs.set(this, tx, { kind: 'deleted', key, oldValue, newValue: undefined });
+				}
+			}, () => `Clearing ${this._obs.debugName}`);
+		}
+	}
+
+	/**
+	 * Returns an observable of the value of the given key.
+	 * Readers of this observable only react to changes of this key.
+	 */
+	observeKey(key: K): IObservable<V | undefined> {
+		const obs = this._keyObservables.get(key);
+		if (obs) {
+			return obs;
 		}
+		return new DerivedCachedWhileObserved(
+			this._keyObservables,
+			key,
+			new DebugNameData(this, () => `observeKey(${String(key)})`, undefined),
+			reader => {
+				this._obs.read(reader);
+				return this._data.get(key);
+			},
+			{
+				createChangeSummary: () => undefined,
+				handleChange: (ctx) => ctx.didChange(this._obs) && ctx.change.key === key,
+			},
+			strictEquals,
+			DebugLocation.ofCaller(),
+		);
 	}
 
 	forEach(callbackfn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any): void {
@@ -57,19 +112,19 @@ export class ObservableMap<K, V> implements Map<K, V> {
 		});
 	}
 
-	*entries(): IterableIterator<[K, V]> {
-		yield* this._data.entries();
+	entries(): MapIterator<[K, V]> {
+		return this._data.entries();
 	}
 
-	*keys(): IterableIterator<K> {
-		yield* this._data.keys();
+	keys(): MapIterator<K> {
+		return this._data.keys();
 	}
 
-	*values(): IterableIterator<V> {
-		yield* this._data.values();
+	values(): MapIterator<V> {
+		return this._data.values();
 	}
 
-	[Symbol.iterator](): IterableIterator<[K, V]> {
+	[Symbol.iterator](): MapIterator<[K, V]> {
 		return this.entries();
 	}
 
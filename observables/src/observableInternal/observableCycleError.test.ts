@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { autorun, autorunOpts, derivedOpts, IObservable, ObservableCycleError, observableValue } from './index';
+import { recordAutorunRuns } from './testing';
+
+describe('cycle detection', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('throws for deriveds that read each other (unobserved)', () => {
+		const a: IObservable<number> = derivedOpts({ debugName: 'cycleA' }, reader => b.read(reader) + 1);
+		const b: IObservable<number> = derivedOpts({ debugName: 'cycleB' }, reader => a.read(reader) + 1);
+
+		let error: unknown;
+		try {
+			a.get();
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(ObservableCycleError);
+		expect((error as ObservableCycleError).chain.map(e => e.debugName)).toEqual(['cycleA', 'cycleB', 'cycleA']);
+		expect((error as ObservableCycleError).message).toContain('cycleA (indirectly) reads itself');
+	});
+
+	it('throws for deriveds that read each other (observed)', () => {
+		const enabled = observableValue('enabled', false);
+		const a: IObservable<number> = derivedOpts({ debugName: 'observedCycleA' }, reader => enabled.read(reader) ? b.read(reader) : 0);
+		const b: IObservable<number> = derivedOpts({ debugName: 'observedCycleB' }, reader => a.read(reader) + 1);
+		const recording = recordAutorunRuns(a);
+
+		expect(() => enabled.set(true, undefined)).toThrow(ObservableCycleError);
+
+		recording.dispose();
+	});
+
+	it('can recover after a cycle', () => {
+		const useCycle = observableValue('useCycle', true);
+		const a: IObservable<number> = derivedOpts({ debugName: 'recoverA' }, reader => useCycle.read(reader) ? b.read(reader) : 1);
+		const b: IObservable<number> = derivedOpts({ debugName: 'recoverB' }, reader => a.read(reader) + 1);
+
+		expect(() => a.get()).toThrow(ObservableCycleError);
+		expect(() => a.get()).toThrow(ObservableCycleError);
+		useCycle.set(false, undefined);
+		expect(a.get()).toBe(1);
+		expect(b.get()).toBe(2);
+	});
+
+	it('stops autoruns that keep triggering themselves', () => {
+		const errors: unknown[] = [];
+		vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => { errors.push(args[1]); });
+
+		const counter = observableValue('counter', 0);
+		let runs = 0;
+		const d = autorunOpts({ debugName: 'selfTriggering', maxReruns: 10 }, reader => {
+			runs++;
+			counter.set(counter.read(reader) + 1, undefined);
+		});
+
+		expect(runs).toBe(11);
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toBeInstanceOf(ObservableCycleError);
+		expect((errors[0] as ObservableCycleError).message).toContain('selfTriggering triggered itself 11 times in a row');
+
+		d.dispose();
+	});
+
+	it('allows autoruns that settle', () => {
+		const value = observableValue('value', 0);
+		const log: number[] = [];
+		const d = autorun(reader => {
+			const v = value.read(reader);
+			log.push(v);
+			if (v % 10 !== 0) {
+				value.set(v + 1, undefined);
+			}
+		});
+
+		value.set(1, undefined);
+		value.set(11, undefined);
+		expect(log).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+
+		d.dispose();
+	});
+});
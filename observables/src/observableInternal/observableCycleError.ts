@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { BugIndicatingError } from './commonFacade/deps';
+import { DebugLocation } from './debugLocation';
+
+export interface IObservableCycleElement {
+	readonly debugName: string;
+	readonly debugLocation: DebugLocation;
+}
+
+/**
+ * Is thrown when a derived (indirectly) reads itself while it is being computed,
+ * or reported when an autorun keeps triggering itself.
+ */
+export class ObservableCycleError extends BugIndicatingError {
+	public static forDeriveds(chain: readonly IObservableCycleElement[]): ObservableCycleError {
+		return new ObservableCycleError(
+			`Cycle detected: ${chain[0].debugName} (indirectly) reads itself while it is being computed.\n${formatChain(chain)}`,
+			chain,
+		);
+	}
+
+	public static forAutorun(autorun: IObservableCycleElement, runCount: number): ObservableCycleError {
+		return new ObservableCycleError(
+			`Cycle detected: ${autorun.debugName} triggered itself ${runCount} times in a row. Does it set an observable it reads?\n${formatChain([autorun])}`,
+			[autorun],
+		);
+	}
+
+	constructor(
+		message: string,
+		/**
+		 * The observables (and autoruns) that form the cycle.
+		 * For deriveds, the first element is repeated at the end.
+		 */
+		public readonly chain: readonly IObservableCycleElement[],
+	) {
+		super(message);
+		Object.setPrototypeOf(this, ObservableCycleError.prototype);
+		this.name = 'ObservableCycleError';
+	}
+}
+
+function formatChain(chain: readonly IObservableCycleElement[]): string {
+	return chain.map((e, idx) => {
+		const location = e.debugLocation ? ` (${e.debugLocation.fileName}:${e.debugLocation.line}:${e.debugLocation.column})` : '';
+		return `${idx === 0 ? '   ' : '-> '}${e.debugName}${location}`;
+	}).join('\n');
+}
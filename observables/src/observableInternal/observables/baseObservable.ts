@@ -10,6 +10,7 @@ import { DebugOwner, getFunctionName } from '../debugName';
 import { debugGetDependencyGraph } from '../logging/debugGetDependencyGraph';
 import { getLogger, logObservable } from '../logging/logging';
 import type { keepObserved, recomputeInitiallyAndOnChange } from '../utils/utils';
+import type { toRxObservable } from '../utils/interop';
 import { derivedOpts } from './derived';
 
 let _derived: typeof derivedOpts;
@@ -31,6 +32,17 @@ export function _setKeepObserved(keepObserved: typeof _keepObserved) {
 	_keepObserved = keepObserved;
 }
 
+let _toRxObservable: typeof toRxObservable;
+export function _setToRxObservable(toRxObservable: typeof _toRxObservable) {
+	_toRxObservable = toRxObservable;
+}
+
+/**
+ * The key of the TC39 Observable interop method.
+ * Like RxJS, this is `Symbol.observable` if it is defined (e.g. by a polyfill) and `'@@observable'` otherwise.
+ */
+export const symbolObservable: string | symbol = (typeof Symbol === 'function' && (Symbol as { observable?: symbol }).observable) || '@@observable';
+
 let _debugGetDependencyGraph: typeof debugGetDependencyGraph;
 export function _setDebugGetDependencyGraph(debugGetDependencyGraph: typeof _debugGetDependencyGraph) {
 	_debugGetDependencyGraph = debugGetDependencyGraph;
@@ -107,8 +119,8 @@ export abstract class ConvenientObservable<T, TChange> implements IObservableWit
 		);
 	}
 
-	public recomputeInitiallyAndOnChange(store: DisposableStore, handleValue?: (value: T) => void): IObservable<T> {
-		store.add(_recomputeInitiallyAndOnChange!(this, handleValue));
+	public recomputeInitiallyAndOnChange(store: DisposableStore, handleValue?: (value: T) => void, debugLocation = DebugLocation.ofCaller()): IObservable<T> {
+		store.add(_recomputeInitiallyAndOnChange!(this, handleValue, debugLocation));
 		return this;
 	}
 
@@ -117,11 +129,19 @@ export abstract class ConvenientObservable<T, TChange> implements IObservableWit
 	 * However, in case of deriveds, it does not force eager evaluation (only when the value is read/get).
 	 * Use `recomputeInitiallyAndOnChange` for eager evaluation.
 	 */
-	public keepObserved(store: DisposableStore): IObservable<T> {
-		store.add(_keepObserved!(this));
+	public keepObserved(store: DisposableStore, debugLocation = DebugLocation.ofCaller()): IObservable<T> {
+		store.add(_keepObserved!(this, debugLocation));
 		return this;
 	}
 
+	/**
+	 * Makes this observable consumable by RxJS (`from(observable)`) and other TC39 Observable implementations.
+	 * See `toRxObservable`.
+	 */
+	public [symbolObservable]() {
+		return _toRxObservable!(this);
+	}
+
 	public abstract get debugName(): string;
 
 	protected get debugValue() {
@@ -136,7 +156,12 @@ export abstract class ConvenientObservable<T, TChange> implements IObservableWit
 export abstract class BaseObservable<T, TChange = void> extends ConvenientObservable<T, TChange> {
 	protected readonly _observers = new Set<IObserver>();
 
-	constructor(debugLocation: DebugLocation) {
+	constructor(
+		/**
+		 * Where this observable was created (only available if {@link DebugLocation.enable} was called).
+		 */
+		public readonly debugLocation: DebugLocation,
+	) {
 		super();
 		getLogger()?.handleObservableCreated(this, debugLocation);
 	}
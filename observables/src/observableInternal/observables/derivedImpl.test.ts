@@ -0,0 +1,210 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { derived, derivedHandleChanges, derivedOpts, derivedWithSetter, derivedWithStore, observableValue, transaction } from '../index';
+import { expectRecomputeCount, ObservableTestRecorder, recordAutorunRuns } from '../testing';
+
+describe('derived', () => {
+	it('computes lazily and caches while observed', () => {
+		const value = observableValue('value', 1);
+		let computeCount = 0;
+		const doubled = derived(reader => {
+			computeCount++;
+			return value.read(reader) * 2;
+		});
+		expect(computeCount).toBe(0);
+
+		const recording = recordAutorunRuns(doubled);
+		expect(recording.values).toEqual([2]);
+		expect(computeCount).toBe(1);
+
+		doubled.get();
+		expect(computeCount).toBe(1);
+
+		value.set(2, undefined);
+		expect(recording.values).toEqual([2, 4]);
+		expect(computeCount).toBe(2);
+
+		recording.dispose();
+	});
+
+	it('recomputes on every get when not observed', () => {
+		const value = observableValue('value', 1);
+		let computeCount = 0;
+		const doubled = derived(reader => {
+			computeCount++;
+			return value.read(reader) * 2;
+		});
+
+		doubled.get();
+		doubled.get();
+		expect(computeCount).toBe(2);
+	});
+
+	it('does not notify observers if the value is equal', () => {
+		const value = observableValue('value', 1);
+		const isOdd = derived(reader => value.read(reader) % 2 === 1);
+		const recording = recordAutorunRuns(isOdd);
+
+		value.set(3, undefined);
+		value.set(4, undefined);
+		expect(recording.values).toEqual([true, false]);
+
+		recording.dispose();
+	});
+
+	it('uses the given equality comparer', () => {
+		const value = observableValue('value', { id: 1, name: 'a' });
+		const obj = derivedOpts<{ id: number; name: string }>({ equalsFn: (a, b) => a.id === b.id }, reader => value.read(reader));
+		const recording = recordAutorunRuns(obj);
+
+		value.set({ id: 1, name: 'b' }, undefined);
+		expect(recording.runCount).toBe(1);
+		value.set({ id: 2, name: 'b' }, undefined);
+		expect(recording.runCount).toBe(2);
+
+		recording.dispose();
+	});
+
+	it('only recomputes once per transaction (diamond)', () => {
+		const value = observableValue('value', 1);
+		const a = derived(reader => value.read(reader) + 1);
+		const b = derived(reader => value.read(reader) * 10);
+		const sum = derived(reader => a.read(reader) + b.read(reader));
+		const recording = recordAutorunRuns(sum);
+
+		expectRecomputeCount(sum, 1, () => {
+			transaction(tx => {
+				value.set(2, tx);
+				value.set(3, tx);
+			});
+		});
+		expect(recording.values).toEqual([12, 34]);
+
+		recording.dispose();
+	});
+
+	it('only counts recomputations of deriveds', () => {
+		const value = observableValue('value', 1);
+		const doubled = derived(reader => value.read(reader) * 2);
+		const recording = recordAutorunRuns(doubled);
+
+		const recorder = new ObservableTestRecorder();
+		value.set(2, undefined);
+		value.set(3, undefined);
+		recorder.dispose();
+		expect(recorder.getRecomputeCount(value)).toBe(0);
+		expect(recorder.getRecomputeCount(doubled)).toBe(2);
+
+		recording.dispose();
+	});
+
+	it('does not recompute dependents if an intermediate derived did not change', () => {
+		const value = observableValue('value', 1);
+		const isPositive = derived(reader => value.read(reader) > 0);
+		const label = derived(reader => isPositive.read(reader) ? 'positive' : 'negative');
+		const recording = recordAutorunRuns(label);
+
+		expectRecomputeCount(label, 0, () => value.set(2, undefined));
+		expectRecomputeCount(label, 1, () => value.set(-1, undefined));
+		expect(recording.values).toEqual(['positive', 'negative']);
+
+		recording.dispose();
+	});
+
+	it('updates dependencies dynamically', () => {
+		const useA = observableValue('useA', true);
+		const a = observableValue('a', 'a');
+		const b = observableValue('b', 'b');
+		const result = derived(reader => useA.read(reader) ? a.read(reader) : b.read(reader));
+		const recording = recordAutorunRuns(result);
+
+		b.set('b2', undefined);
+		expect(recording.runCount).toBe(1);
+
+		useA.set(false, undefined);
+		a.set('a2', undefined);
+		expect(recording.values).toEqual(['a', 'b2']);
+
+		recording.dispose();
+	});
+
+	it('reports the changes of its dependencies to the change tracker', () => {
+		const value = observableValue<number, { delta: number }>('value', 0);
+		const deltas: number[][] = [];
+		const d = derivedHandleChanges({
+			changeTracker: {
+				createChangeSummary: () => [] as number[],
+				handleChange: (ctx, summary) => {
+					if (ctx.didChange(value)) {
+						summary.push(ctx.change.delta);
+					}
+					return true;
+				},
+			},
+		}, (reader, summary) => {
+			deltas.push(summary);
+			return value.read(reader);
+		});
+		const recording = recordAutorunRuns(d);
+
+		transaction(tx => {
+			value.set(1, tx, { delta: 1 });
+			value.set(3, tx, { delta: 2 });
+		});
+		expect(deltas).toEqual([[], [1, 2]]);
+
+		recording.dispose();
+	});
+
+	it('supports setters', () => {
+		const value = observableValue('value', 1);
+		const doubled = derivedWithSetter(undefined, reader => value.read(reader) * 2, (newValue, tx) => value.set(newValue / 2, tx));
+
+		doubled.set(10, undefined);
+		expect(value.get()).toBe(5);
+		expect(doubled.get()).toBe(10);
+	});
+
+	it('disposes the store before recomputing and when no longer observed', () => {
+		const value = observableValue('value', 1);
+		const disposed: number[] = [];
+		const d = derivedWithStore((reader, store) => {
+			const v = value.read(reader);
+			store.add({ dispose: () => disposed.push(v) });
+			return v;
+		});
+		const recording = recordAutorunRuns(d);
+
+		value.set(2, undefined);
+		expect(disposed).toEqual([1]);
+
+		recording.dispose();
+		expect(disposed).toEqual([1, 2]);
+	});
+
+	it('is logged as recomputed', () => {
+		const value = observableValue('loggedValue', 1);
+		const doubled = derivedOpts({ debugName: 'loggedDoubled' }, reader => value.read(reader) * 2);
+		const recording = recordAutorunRuns(doubled);
+
+		const recorder = new ObservableTestRecorder();
+		value.set(2, undefined);
+		recorder.dispose();
+
+		expect(recorder.getEvents()).toMatchInlineSnapshot(`
+			[
+			  "begin transaction Setting loggedValue",
+			  "updated loggedValue: 1 -> 2",
+			  "updated loggedDoubled: 2 -> 4",
+			  "autorun recordAutorunRuns(loggedDoubled)",
+			  "end transaction Setting loggedValue",
+			]
+		`);
+
+		recording.dispose();
+	});
+});
@@ -10,6 +10,9 @@ import { BugIndicatingError, DisposableStore, EqualityComparer, assertFn, onBugI
 import { getLogger } from '../logging/logging';
 import { IChangeTracker } from '../changeTracker';
 import { DebugLocation } from '../debugLocation';
+import { ObservableCycleError } from '../observableCycleError';
+import { runWithAmbientReader } from '../ambientReader';
+import { IStrictModeCheckable, strictModeCheckGet, strictModeHandleObservedChanged, strictModeRunComputation, strictModeRunRead } from '../strictMode';
 
 export interface IDerivedReader<TChange = void> extends IReaderWithStore {
 	/**
@@ -50,7 +53,17 @@ function derivedStateToString(state: DerivedState): string {
 	}
 }
 
-export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObservable<T, TChange> implements IDerivedReader<TChange>, IObserver {
+/**
+ * The deriveds that are currently computing, used to report cycles.
+ */
+const computingDeriveds: Derived<any, any, any>[] = [];
+
+/**
+ * The deriveds that are currently propagating `beginUpdate` to their observers, used to report cycles.
+ */
+const updatingDeriveds: Derived<any, any, any>[] = [];
+
+export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObservable<T, TChange> implements IDerivedReader<TChange>, IObserver, IStrictModeCheckable {
 	private _state = DerivedState.initial;
 	private _value: T | undefined = undefined;
 	private _updateCount = 0;
@@ -82,7 +95,12 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 		this._changeSummary = this._changeTracker?.createChangeSummary(undefined);
 	}
 
+	protected override onFirstObserverAdded(): void {
+		strictModeHandleObservedChanged(this, true);
+	}
+
 	protected override onLastObserverRemoved(): void {
+		strictModeHandleObservedChanged(this, false);
 		/**
 		 * We are not tracking changes anymore, thus we have to assume
 		 * that our cache is invalid.
@@ -108,29 +126,35 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 	}
 
 	public override get(): T {
-		const checkEnabled = false; // TODO set to true
-		if (this._isComputing && checkEnabled) {
-			// investigate why this fails in the diff editor!
-			throw new BugIndicatingError('Cyclic deriveds are not supported yet!');
+		if (this._isComputing) {
+			const idx = computingDeriveds.lastIndexOf(this);
+			throw ObservableCycleError.forDeriveds([...computingDeriveds.slice(idx === -1 ? 0 : idx), this]);
 		}
+		strictModeCheckGet(this, this.debugLocation);
 
 		if (this._observers.size === 0) {
 			let result;
 			// Without observers, we don't know when to clean up stuff.
 			// Thus, we don't cache anything to prevent memory leaks.
+			getLogger()?.handleDerivedRecomputeStarted(this);
 			try {
+				this._isComputing = true;
+				computingDeriveds.push(this);
 				this._isReaderValid = true;
 				let changeSummary = undefined;
 				if (this._changeTracker) {
 					changeSummary = this._changeTracker.createChangeSummary(undefined);
 					this._changeTracker.beforeUpdate?.(this, changeSummary);
 				}
-				result = this._computeFn(this, changeSummary!);
+				result = strictModeRunComputation(this, true, () => runWithAmbientReader(this, () => this._computeFn(this, changeSummary!)));
 			} finally {
 				this._isReaderValid = false;
+				this._isComputing = false;
+				computingDeriveds.pop();
+				// Clear new dependencies (also if the computation failed)
+				this.onLastObserverRemoved();
+				getLogger()?.handleDerivedRecomputeFinished(this);
 			}
-			// Clear new dependencies
-			this.onLastObserverRemoved();
 			return result;
 
 		} else {
@@ -167,12 +191,14 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 	private _recompute() {
 		let didChange = false;
 		this._isComputing = true;
+		computingDeriveds.push(this);
 		this._didReportChange = false;
 
 		const emptySet = this._dependenciesToBeRemoved;
 		this._dependenciesToBeRemoved = this._dependencies;
 		this._dependencies = emptySet;
 
+		getLogger()?.handleDerivedRecomputeStarted(this);
 		try {
 			const changeSummary = this._changeSummary!;
 
@@ -198,7 +224,7 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 					this._store = undefined;
 				}
 				/** might call {@link handleChange} indirectly, which could invalidate us */
-				this._value = this._computeFn(this, changeSummary);
+				this._value = strictModeRunComputation(this, true, () => runWithAmbientReader(this, () => this._computeFn(this, changeSummary)));
 
 			} finally {
 				this._isReaderValid = false;
@@ -225,10 +251,12 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 			});
 		} catch (e) {
 			onBugIndicatingError(e);
+		} finally {
+			this._isComputing = false;
+			computingDeriveds.pop();
+			getLogger()?.handleDerivedRecomputeFinished(this);
 		}
 
-		this._isComputing = false;
-
 		if (!this._didReportChange && didChange) {
 			for (const r of this._observers) {
 				r.handleChange(this, undefined);
@@ -246,11 +274,13 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 
 	public beginUpdate<T>(_observable: IObservable<T>): void {
 		if (this._isUpdating) {
-			throw new BugIndicatingError('Cyclic deriveds are not supported yet!');
+			const idx = updatingDeriveds.lastIndexOf(this);
+			throw ObservableCycleError.forDeriveds([...updatingDeriveds.slice(idx === -1 ? 0 : idx), this]);
 		}
 
 		this._updateCount++;
 		this._isUpdating = true;
+		updatingDeriveds.push(this);
 		try {
 			const propagateBeginUpdate = this._updateCount === 1;
 			if (this._state === DerivedState.upToDate) {
@@ -269,6 +299,7 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 			}
 		} finally {
 			this._isUpdating = false;
+			updatingDeriveds.pop();
 		}
 	}
 
@@ -339,8 +370,17 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 
 		// Subscribe before getting the value to enable caching
 		observable.addObserver(this);
-		/** This might call {@link handleChange} indirectly, which could invalidate us */
-		const value = observable.get();
+		let value: T;
+		try {
+			/** This might call {@link handleChange} indirectly, which could invalidate us */
+			value = strictModeRunRead(() => observable.get());
+		} catch (e) {
+			if (!this._dependencies.has(observable) && !this._dependenciesToBeRemoved.has(observable)) {
+				// Don't keep observing observables that could not be read (e.g. because of a cycle).
+				observable.removeObserver(this);
+			}
+			throw e;
+		}
 		// Which is why we only add the observable to the dependencies now.
 		this._dependencies.add(observable);
 		this._dependenciesToBeRemoved.delete(observable);
@@ -421,6 +461,28 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 		}
 	}
 
+	public strictModeRecompute(): { readonly cachedValue: unknown; readonly newValue: unknown; readonly isEqual: boolean } | undefined {
+		if (this._state !== DerivedState.upToDate || this._updateCount > 0 || this._isComputing || this._observers.size === 0
+			|| this._changeTracker || this._handleLastObserverRemoved || this._store || this._delayedStore) {
+			return undefined;
+		}
+		const unsupported = () => { throw new StrictModeRecomputeUnsupportedError(); };
+		const reader: IDerivedReader<TChange> = {
+			readObservable: observable => strictModeRunRead(() => observable.get()),
+			reportChange: unsupported,
+			get store() { return unsupported(); },
+			get delayedStore() { return unsupported(); },
+		};
+		let newValue: T;
+		try {
+			newValue = strictModeRunComputation(this, true, () => runWithAmbientReader(reader, () => this._computeFn(reader, undefined!)));
+		} catch (e) {
+			// The compute function might depend on being called with the real reader.
+			return undefined;
+		}
+		return { cachedValue: this._value, newValue, isEqual: this._equalityComparator(this._value!, newValue) };
+	}
+
 	public setValue(newValue: T, tx: ITransaction, change: TChange): void {
 		this._value = newValue;
 		const observers = this._observers;
@@ -432,6 +494,8 @@ export class Derived<T, TChangeSummary = any, TChange = void> extends BaseObserv
 }
 
 
+class StrictModeRecomputeUnsupportedError extends Error { }
+
 export class DerivedWithSetter<T, TChangeSummary = any, TOutChanges = any> extends Derived<T, TChangeSummary, TOutChanges> implements ISettableObservable<T, TOutChanges> {
 	constructor(
 		debugNameData: DebugNameData,
@@ -452,3 +516,43 @@ export class DerivedWithSetter<T, TChangeSummary = any, TOutChanges = any> exten
 		);
 	}
 }
+
+/**
+ * Is stored in {@link _cache} while it is observed, so that readers get the same instance on every run,
+ * but instances that are not observed (anymore) can be garbage collected.
+ */
+export class DerivedCachedWhileObserved<TKey, T, TChangeSummary = any> extends Derived<T, TChangeSummary> {
+	constructor(
+		private readonly _cache: Map<TKey, IObservable<T>>,
+		private readonly _key: TKey,
+		debugNameData: DebugNameData,
+		computeFn: (reader: IDerivedReader, changeSummary: TChangeSummary) => T,
+		changeTracker: IChangeTracker<TChangeSummary> | undefined,
+		equalityComparator: EqualityComparer<T>,
+		debugLocation: DebugLocation,
+	) {
+		super(
+			debugNameData,
+			computeFn,
+			changeTracker,
+			undefined,
+			equalityComparator,
+			debugLocation,
+		);
+	}
+
+	protected override onFirstObserverAdded(): void {
+		super.onFirstObserverAdded();
+		if (!this._cache.has(this._key)) {
+			this._cache.set(this._key, this);
+		}
+	}
+
+	protected override onLastObserverRemoved(): void {
+		super.onLastObserverRemoved();
+		// Unobserved reads also end up here, they must not evict an instance that is observed by someone else
+		if (this._cache.get(this._key) === this) {
+			this._cache.delete(this._key);
+		}
+	}
+}
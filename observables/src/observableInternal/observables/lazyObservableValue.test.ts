@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { derived, observableValueOpts, runOnChange, transaction } from '../index';
+import { recordAutorunRuns } from '../testing';
+
+describe('lazy observableValue', () => {
+	it('notifies observers once the transaction ends', () => {
+		const value = observableValueOpts({ lazy: true }, 1);
+		const recording = recordAutorunRuns(value);
+
+		transaction(tx => {
+			value.set(2, tx);
+			value.set(3, tx);
+		});
+		expect(recording.values).toEqual([1, 3]);
+
+		recording.dispose();
+	});
+
+	it('reports all deltas in order', () => {
+		const value = observableValueOpts<number, { delta: number }>({ lazy: true }, 0);
+		const log: number[][] = [];
+		const d = runOnChange(value, (_value, _previous, deltas) => {
+			log.push(deltas.map(d => d.delta));
+		});
+
+		transaction(tx => {
+			value.set(1, tx, { delta: 1 });
+			value.set(3, tx, { delta: 2 });
+		});
+		expect(log).toEqual([[1, 2]]);
+
+		d.dispose();
+	});
+
+	it('does not notify if the value is equal', () => {
+		const value = observableValueOpts({ lazy: true }, 1);
+		const recording = recordAutorunRuns(value);
+
+		value.set(1, undefined);
+		expect(recording.runCount).toBe(1);
+
+		recording.dispose();
+	});
+
+	it('works with deriveds that are observed during the transaction', () => {
+		const value = observableValueOpts({ lazy: true }, 1);
+		const doubled = derived(reader => value.read(reader) * 2);
+		const recording = recordAutorunRuns(doubled);
+
+		transaction(tx => {
+			value.set(2, tx);
+			expect(doubled.get()).toBe(4);
+		});
+		expect(recording.values).toEqual([2, 4]);
+
+		recording.dispose();
+	});
+});
@@ -10,6 +10,7 @@ import { DebugNameData } from '../debugName';
 import { getLogger } from '../logging/logging';
 import { BaseObservable } from './baseObservable';
 import { DebugLocation } from '../debugLocation';
+import { strictModeCheckGet, strictModeCheckSet } from '../strictMode';
 
 /**
  * Holds off updating observers until the value is actually read.
@@ -36,6 +37,7 @@ export class LazyObservableValue<T, TChange = void>
 	}
 
 	public override get(): T {
+		strictModeCheckGet(this, this.debugLocation);
 		this._update();
 		return this._value;
 	}
@@ -109,6 +111,7 @@ export class LazyObservableValue<T, TChange = void>
 		if (change === undefined && this._equalityComparator(this._value, value)) {
 			return;
 		}
+		strictModeCheckSet(this, this.debugLocation);
 
 		let _tx: TransactionImpl | undefined;
 		if (!tx) {
@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { autorun, observableElementSize, observableFromDomEvent, observableFromEmitter, observableFromEvent, observableMediaQuery, observableWindowFocus, transaction } from '../index';
+import { recordAutorunRuns } from '../testing';
+
+class CountingEventTarget extends EventTarget {
+	public listenerCount = 0;
+
+	override addEventListener(...args: Parameters<EventTarget['addEventListener']>): void {
+		this.listenerCount++;
+		super.addEventListener(...args);
+	}
+
+	override removeEventListener(...args: Parameters<EventTarget['removeEventListener']>): void {
+		this.listenerCount--;
+		super.removeEventListener(...args);
+	}
+}
+
+class TestEmitter {
+	public readonly listeners = new Map<string | symbol, ((...args: any[]) => void)[]>();
+
+	on(eventName: string | symbol, listener: (...args: any[]) => void): void {
+		this.listeners.set(eventName, [...(this.listeners.get(eventName) ?? []), listener]);
+	}
+
+	removeListener(eventName: string | symbol, listener: (...args: any[]) => void): void {
+		this.listeners.set(eventName, (this.listeners.get(eventName) ?? []).filter(l => l !== listener));
+	}
+
+	emit(eventName: string | symbol, ...args: any[]): void {
+		for (const l of this.listeners.get(eventName) ?? []) {
+			l(...args);
+		}
+	}
+}
+
+describe('observableFromDomEvent', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('only listens while observed', () => {
+		const target = new CountingEventTarget();
+		let value = 1;
+		const obs = observableFromDomEvent(target, 'change', () => value);
+		expect(obs.get()).toBe(1);
+		expect(target.listenerCount).toBe(0);
+
+		const recording = recordAutorunRuns(obs);
+		expect(target.listenerCount).toBe(1);
+		value = 2;
+		target.dispatchEvent(new Event('change'));
+		expect(recording.values).toEqual([1, 2]);
+
+		recording.dispose();
+		expect(target.listenerCount).toBe(0);
+	});
+
+	it('supports batchEventsGlobally', () => {
+		const target1 = new EventTarget();
+		const target2 = new EventTarget();
+		let value = 1;
+		const obs1 = observableFromDomEvent(target1, 'change', () => value);
+		const obs2 = observableFromDomEvent(target2, 'change', () => value * 10);
+		const log: string[] = [];
+		const d = autorun(reader => {
+			log.push(`${obs1.read(reader)} ${obs2.read(reader)}`);
+		});
+
+		value = 2;
+		transaction(tx => {
+			observableFromEvent.batchEventsGlobally(tx, () => {
+				target1.dispatchEvent(new Event('change'));
+				target2.dispatchEvent(new Event('change'));
+			});
+		});
+		expect(log).toEqual(['1 10', '2 20']);
+		d.dispose();
+	});
+
+	it('observableFromEmitter receives the event arguments', () => {
+		const emitter = new TestEmitter();
+		const obs = observableFromEmitter<string, [string, number]>(emitter, 'data', args => args ? `${args[0]}:${args[1]}` : 'none');
+		expect(obs.get()).toBe('none');
+
+		const recording = recordAutorunRuns(obs);
+		emitter.emit('data', 'a', 1);
+		expect(recording.values).toEqual(['none', 'a:1']);
+
+		recording.dispose();
+		expect(emitter.listeners.get('data')).toEqual([]);
+	});
+
+	it('observableMediaQuery and observableWindowFocus', () => {
+		const mediaQueryList = Object.assign(new EventTarget(), { matches: false });
+		const targetWindow = Object.assign(new EventTarget(), {
+			matchMedia: () => mediaQueryList,
+			document: { hasFocus: () => hasFocus },
+		}) as unknown as Window;
+		let hasFocus = true;
+
+		const dark = recordAutorunRuns(observableMediaQuery('(prefers-color-scheme: dark)', targetWindow));
+		mediaQueryList.matches = true;
+		mediaQueryList.dispatchEvent(new Event('change'));
+		expect(dark.values).toEqual([false, true]);
+		dark.dispose();
+
+		const focus = recordAutorunRuns(observableWindowFocus(targetWindow));
+		hasFocus = false;
+		targetWindow.dispatchEvent(new Event('blur'));
+		hasFocus = true;
+		targetWindow.dispatchEvent(new Event('focus'));
+		expect(focus.values).toEqual([true, false, true]);
+		focus.dispose();
+	});
+
+	it('observableElementSize uses a ResizeObserver', () => {
+		const observers: { callback: ResizeObserverCallback; disconnected: boolean }[] = [];
+		vi.stubGlobal('ResizeObserver', class {
+			private readonly _entry: { callback: ResizeObserverCallback; disconnected: boolean };
+			constructor(callback: ResizeObserverCallback) {
+				this._entry = { callback, disconnected: false };
+				observers.push(this._entry);
+			}
+			observe() { }
+			disconnect() { this._entry.disconnected = true; }
+		});
+		const element = { getBoundingClientRect: () => ({ width: 10, height: 20 }) } as unknown as Element;
+		const resize = (width: number, height: number) => observers[0].callback([{ borderBoxSize: [{ inlineSize: width, blockSize: height }] } as unknown as ResizeObserverEntry], undefined!);
+
+		const size = observableElementSize(element);
+		expect(size.get()).toEqual({ width: 10, height: 20 });
+
+		const recording = recordAutorunRuns(size);
+		resize(10, 20);
+		resize(30, 40);
+		expect(recording.values).toEqual([{ width: 10, height: 20 }, { width: 30, height: 40 }]);
+
+		recording.dispose();
+		expect(observers[0].disconnected).toBe(true);
+	});
+});
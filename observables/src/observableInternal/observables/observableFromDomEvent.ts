@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable } from '../base';
+import { EqualityComparer } from '../commonFacade/deps';
+import { DebugOwner } from '../debugName';
+import { DebugLocation } from '../debugLocation';
+import { observableFromEventOpts } from './observableFromEvent';
+
+export interface IObservableFromDomEventOptions<T> {
+	readonly owner?: DebugOwner;
+	readonly equalsFn?: EqualityComparer<T>;
+	/** Passed to `addEventListener`. */
+	readonly listenerOptions?: AddEventListenerOptions;
+}
+
+/**
+ * Maps well known event targets to their event maps, so that `getValue` receives the correct event type.
+ */
+export type DomEventMap<TTarget extends EventTarget> =
+	TTarget extends Window ? WindowEventMap
+	: TTarget extends Document ? DocumentEventMap
+	: TTarget extends HTMLElement ? HTMLElementEventMap
+	: TTarget extends MediaQueryList ? MediaQueryListEventMap
+	: TTarget extends Element ? ElementEventMap
+	: Record<string, Event>;
+
+export type DomEventOf<TTarget extends EventTarget, TEventName extends string> =
+	TEventName extends keyof DomEventMap<TTarget> ? DomEventMap<TTarget>[TEventName] : Event;
+
+/**
+ * Creates an observable whose value is computed by `getValue` initially and whenever `target` dispatches `eventName`.
+ * Like `observableFromEvent`, the listener is only added while the observable is observed
+ * and `getValue` is called with `undefined` if there is no event (e.g. when the observable is not observed).
+ */
+export function observableFromDomEvent<TTarget extends EventTarget, TEventName extends string, T>(
+	target: TTarget,
+	eventName: TEventName,
+	getValue: (event: DomEventOf<TTarget, TEventName> | undefined) => T,
+	options: IObservableFromDomEventOptions<T> = {},
+	debugLocation = DebugLocation.ofCaller()
+): IObservable<T> {
+	return observableFromEventOpts<T, DomEventOf<TTarget, TEventName>>(
+		{ owner: options.owner, debugName: eventName, debugReferenceFn: getValue, equalsFn: options.equalsFn },
+		listener => {
+			const handler = (e: Event) => listener(e as DomEventOf<TTarget, TEventName>);
+			target.addEventListener(eventName, handler, options.listenerOptions);
+			return {
+				dispose() {
+					target.removeEventListener(eventName, handler, options.listenerOptions);
+				},
+			};
+		},
+		getValue,
+		debugLocation
+	);
+}
+
+/**
+ * The part of a Node.js `EventEmitter` that is needed to listen to it.
+ */
+export interface IEventEmitterLike {
+	on(eventName: string | symbol, listener: (...args: any[]) => void): unknown;
+	removeListener(eventName: string | symbol, listener: (...args: any[]) => void): unknown;
+}
+
+export interface IObservableFromEmitterOptions<T> {
+	readonly owner?: DebugOwner;
+	readonly equalsFn?: EqualityComparer<T>;
+}
+
+/**
+ * Creates an observable whose value is computed by `getValue` initially and whenever `emitter` emits `eventName`.
+ * `getValue` receives all arguments of the emitted event, or `undefined` if there is no event.
+ * The listener is only added while the observable is observed.
+ */
+export function observableFromEmitter<T, TArgs extends unknown[] = any[]>(
+	emitter: IEventEmitterLike,
+	eventName: string | symbol,
+	getValue: (args: TArgs | undefined) => T,
+	options: IObservableFromEmitterOptions<T> = {},
+	debugLocation = DebugLocation.ofCaller()
+): IObservable<T> {
+	return observableFromEventOpts<T, TArgs>(
+		{ owner: options.owner, debugName: String(eventName), debugReferenceFn: getValue, equalsFn: options.equalsFn },
+		listener => {
+			const handler = (...args: any[]) => listener(args as TArgs);
+			emitter.on(eventName, handler);
+			return {
+				dispose() {
+					emitter.removeListener(eventName, handler);
+				},
+			};
+		},
+		getValue,
+		debugLocation
+	);
+}
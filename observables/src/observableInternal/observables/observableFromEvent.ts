@@ -10,6 +10,7 @@ import { DebugOwner, DebugNameData, IDebugNameData } from '../debugName';
 import { getLogger } from '../logging/logging';
 import { BaseObservable } from './baseObservable';
 import { DebugLocation } from '../debugLocation';
+import { strictModeCheckGet } from '../strictMode';
 
 
 export function observableFromEvent<T, TArgs = unknown>(
@@ -135,6 +136,7 @@ export class FromEventObservable<TArgs, T> extends BaseObservable<T> {
 	}
 
 	public get(): T {
+		strictModeCheckGet(this, this.debugLocation);
 		if (this._subscription) {
 			if (!this._hasValue) {
 				this.handleEvent(undefined);
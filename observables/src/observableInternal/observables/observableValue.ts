@@ -10,6 +10,7 @@ import { EqualityComparer, IDisposable, strictEquals } from '../commonFacade/dep
 import { DebugNameData } from '../debugName';
 import { getLogger } from '../logging/logging';
 import { DebugLocation } from '../debugLocation';
+import { strictModeCheckGet, strictModeCheckSet } from '../strictMode';
 
 /**
  * Creates an observable value.
@@ -51,6 +52,7 @@ export class ObservableValue<T, TChange = void>
 		getLogger()?.handleObservableUpdated(this, { hadValue: false, newValue: initialValue, change: undefined, didChange: true, oldValue: undefined });
 	}
 	public override get(): T {
+		strictModeCheckGet(this, this.debugLocation);
 		return this._value;
 	}
 
@@ -58,6 +60,7 @@ export class ObservableValue<T, TChange = void>
 		if (change === undefined && this._equalityComparator(this._value, value)) {
 			return;
 		}
+		strictModeCheckSet(this, this.debugLocation);
 
 		let _tx: TransactionImpl | undefined;
 		if (!tx) {
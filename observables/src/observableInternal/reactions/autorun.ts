@@ -9,6 +9,8 @@ import { DisposableStore, IDisposable, toDisposable } from '../commonFacade/deps
 import { DebugNameData, IDebugNameData } from '../debugName';
 import { AutorunObserver } from './autorunImpl';
 import { DebugLocation } from '../debugLocation';
+import type { ObservableCycleError } from '../observableCycleError';
+import type { AutorunScheduler, IAutorunScheduler } from './autorunScheduler';
 
 /**
  * Runs immediately and whenever a transaction ends and an observed observable changed.
@@ -27,12 +29,32 @@ export function autorun(fn: (reader: IReaderWithStore) => void, debugLocation =
  * Runs immediately and whenever a transaction ends and an observed observable changed.
  * {@link fn} should start with a JS Doc using `@description` to name the autorun.
  */
-export function autorunOpts(options: IDebugNameData & {}, fn: (reader: IReaderWithStore) => void, debugLocation = DebugLocation.ofCaller()): IDisposable {
+export function autorunOpts(
+	options: IDebugNameData & {
+		/**
+		 * How often the autorun can run again because of changes it caused itself (e.g. by setting an observable it reads).
+		 * When exceeded, an {@link ObservableCycleError} is reported and the autorun stops re-running until the next change.
+		 * Defaults to {@link AutorunObserver.defaultMaxReruns}.
+		 */
+		maxReruns?: number;
+
+		/**
+		 * Decides when the autorun reacts to changes, e.g. {@link AutorunScheduler.animationFrame} to coalesce all changes within a frame.
+		 * The first run is always synchronous.
+		 * Defaults to {@link AutorunScheduler.sync}.
+		 */
+		scheduler?: IAutorunScheduler;
+	},
+	fn: (reader: IReaderWithStore) => void,
+	debugLocation = DebugLocation.ofCaller()
+): IDisposable {
 	return new AutorunObserver(
 		new DebugNameData(options.owner, options.debugName, options.debugReferenceFn ?? fn),
 		fn,
 		undefined,
-		debugLocation
+		debugLocation,
+		options.maxReruns,
+		options.scheduler,
 	);
 }
 
@@ -0,0 +1,163 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { autorun, autorunDelta, autorunHandleChanges, autorunIterableDelta, derived, observableValue, transaction } from '../index';
+
+describe('autorun', () => {
+	it('runs immediately and on change', () => {
+		const value = observableValue('value', 1);
+		const log: number[] = [];
+		const d = autorun(reader => {
+			log.push(value.read(reader));
+		});
+		expect(log).toEqual([1]);
+
+		value.set(2, undefined);
+		value.set(2, undefined);
+		expect(log).toEqual([1, 2]);
+
+		d.dispose();
+		value.set(3, undefined);
+		expect(log).toEqual([1, 2]);
+	});
+
+	it('runs once at the end of a transaction', () => {
+		const a = observableValue('a', 1);
+		const b = observableValue('b', 1);
+		const log: string[] = [];
+		const d = autorun(reader => {
+			log.push(`${a.read(reader)},${b.read(reader)}`);
+		});
+
+		transaction(tx => {
+			a.set(2, tx);
+			b.set(2, tx);
+			expect(log).toEqual(['1,1']);
+		});
+		expect(log).toEqual(['1,1', '2,2']);
+
+		d.dispose();
+	});
+
+	it('does not run if a derived dependency did not change', () => {
+		const value = observableValue('value', 1);
+		const isEven = derived(reader => value.read(reader) % 2 === 0);
+		let runCount = 0;
+		const d = autorun(reader => {
+			isEven.read(reader);
+			runCount++;
+		});
+
+		value.set(3, undefined);
+		expect(runCount).toBe(1);
+		value.set(4, undefined);
+		expect(runCount).toBe(2);
+
+		d.dispose();
+	});
+
+	it('runs again if it changes its own dependencies', () => {
+		const value = observableValue('value', 0);
+		const log: number[] = [];
+		const d = autorun(reader => {
+			const v = value.read(reader);
+			log.push(v);
+			if (v < 3) {
+				value.set(v + 1, undefined);
+			}
+		});
+		expect(log).toEqual([0, 1, 2, 3]);
+
+		d.dispose();
+	});
+
+	it('disposes the reader store before the next run and on dispose', () => {
+		const value = observableValue('value', 1);
+		const disposed: number[] = [];
+		const d = autorun(reader => {
+			const v = value.read(reader);
+			reader.store.add({ dispose: () => disposed.push(v) });
+		});
+
+		value.set(2, undefined);
+		expect(disposed).toEqual([1]);
+		d.dispose();
+		expect(disposed).toEqual([1, 2]);
+	});
+
+	it('collects changes with a change tracker', () => {
+		const value = observableValue<number, { added: number }>('value', 0);
+		const summaries: number[][] = [];
+		const d = autorunHandleChanges({
+			changeTracker: {
+				createChangeSummary: () => [] as number[],
+				handleChange: (ctx, summary) => {
+					if (ctx.didChange(value)) {
+						summary.push(ctx.change.added);
+					}
+					return true;
+				},
+			},
+		}, (reader, summary) => {
+			value.read(reader);
+			summaries.push(summary);
+		});
+
+		transaction(tx => {
+			value.set(1, tx, { added: 1 });
+			value.set(3, tx, { added: 2 });
+		});
+		expect(summaries).toEqual([[], [1, 2]]);
+
+		d.dispose();
+	});
+
+	it('does not run if the change tracker ignores the change', () => {
+		const value = observableValue<number, { ignore: boolean }>('value', 0);
+		let runCount = 0;
+		const d = autorunHandleChanges({
+			changeTracker: {
+				createChangeSummary: () => undefined,
+				handleChange: (ctx) => !(ctx.didChange(value) && ctx.change.ignore),
+			},
+		}, reader => {
+			value.read(reader);
+			runCount++;
+		});
+
+		value.set(1, undefined, { ignore: true });
+		expect(runCount).toBe(1);
+		value.set(2, undefined, { ignore: false });
+		expect(runCount).toBe(2);
+
+		d.dispose();
+	});
+
+	it('reports the last and new value with autorunDelta', () => {
+		const value = observableValue('value', 1);
+		const log: string[] = [];
+		const d = autorunDelta(value, ({ lastValue, newValue }) => log.push(`${lastValue} -> ${newValue}`));
+
+		value.set(2, undefined);
+		expect(log).toEqual(['undefined -> 1', '1 -> 2']);
+
+		d.dispose();
+	});
+
+	it('reports added and removed values with autorunIterableDelta', () => {
+		const items = observableValue<readonly string[]>('items', ['a', 'b']);
+		const log: string[] = [];
+		const d = autorunIterableDelta(
+			reader => items.read(reader),
+			({ addedValues, removedValues }) => log.push(`+${addedValues.join(',')} -${removedValues.join(',')}`),
+		);
+
+		items.set(['b', 'c'], undefined);
+		expect(log).toEqual(['+a,b -', '+c -a']);
+
+		d.dispose();
+	});
+});
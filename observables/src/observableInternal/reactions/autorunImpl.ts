@@ -5,10 +5,14 @@
 
 import { IObservable, IObservableWithChange, IObserver, IReaderWithStore } from '../base';
 import { DebugNameData } from '../debugName';
-import { assertFn, BugIndicatingError, DisposableStore, IDisposable, markAsDisposed, onBugIndicatingError, trackDisposable } from '../commonFacade/deps';
+import { assertFn, BugIndicatingError, DisposableStore, IDisposable, markAsDisposed, onBugIndicatingError, onUnexpectedError, trackDisposable } from '../commonFacade/deps';
 import { getLogger } from '../logging/logging';
 import { IChangeTracker } from '../changeTracker';
 import { DebugLocation } from '../debugLocation';
+import { ObservableCycleError } from '../observableCycleError';
+import { strictModeRunComputation } from '../strictMode';
+import { runWithAmbientReader } from '../ambientReader';
+import type { IAutorunScheduler } from './autorunScheduler';
 
 export const enum AutorunState {
 	/**
@@ -34,6 +38,11 @@ function autorunStateToString(state: AutorunState): string {
 }
 
 export class AutorunObserver<TChangeSummary = any> implements IObserver, IReaderWithStore, IDisposable {
+	/**
+	 * How often an autorun can run again because of changes it caused itself, before it is considered to be in an infinite loop.
+	 */
+	public static defaultMaxReruns = 100;
+
 	private _state = AutorunState.stale;
 	private _updateCount = 0;
 	private _disposed = false;
@@ -41,6 +50,9 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 	private _dependenciesToBeRemoved = new Set<IObservable<any>>();
 	private _changeSummary: TChangeSummary | undefined;
 	private _isRunning = false;
+	private _settleDepth = 0;
+	private _runCountWithoutSettling = 0;
+	private _scheduledSettle: IDisposable | undefined = undefined;
 
 	public get debugName(): string {
 		return this._debugNameData.getDebugName(this) ?? '(anonymous)';
@@ -50,11 +62,18 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 		public readonly _debugNameData: DebugNameData,
 		public readonly _runFn: (reader: IReaderWithStore, changeSummary: TChangeSummary) => void,
 		private readonly _changeTracker: IChangeTracker<TChangeSummary> | undefined,
-		debugLocation: DebugLocation
+		public readonly debugLocation: DebugLocation,
+		private readonly _maxReruns: number = AutorunObserver.defaultMaxReruns,
+		private readonly _scheduler: IAutorunScheduler | undefined = undefined,
 	) {
 		this._changeSummary = this._changeTracker?.createChangeSummary(undefined);
 		getLogger()?.handleAutorunCreated(this, debugLocation);
-		this._run();
+		this._settleDepth++;
+		try {
+			this._run();
+		} finally {
+			this._endSettle();
+		}
 
 		trackDisposable(this);
 	}
@@ -64,6 +83,8 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 			return;
 		}
 		this._disposed = true;
+		this._scheduledSettle?.dispose();
+		this._scheduledSettle = undefined;
 		for (const o of this._dependencies) {
 			o.removeObserver(this); // Warning: external call!
 		}
@@ -80,7 +101,15 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 		markAsDisposed(this);
 	}
 
+	private _endSettle(): void {
+		this._settleDepth--;
+		if (this._settleDepth === 0) {
+			this._runCountWithoutSettling = 0;
+		}
+	}
+
 	private _run() {
+		this._runCountWithoutSettling++;
 		const emptySet = this._dependenciesToBeRemoved;
 		this._dependenciesToBeRemoved = this._dependencies;
 		this._dependencies = emptySet;
@@ -106,7 +135,7 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 						this._store = undefined;
 					}
 
-					this._runFn(this, changeSummary); // Warning: external call!
+					strictModeRunComputation(this, false, () => runWithAmbientReader(this, () => this._runFn(this, changeSummary))); // Warning: external call!
 				} catch (e) {
 					onBugIndicatingError(e);
 				} finally {
@@ -143,29 +172,75 @@ export class AutorunObserver<TChangeSummary = any> implements IObserver, IReader
 
 	public endUpdate(_observable: IObservable<any>): void {
 		try {
-			if (this._updateCount === 1) {
-				do {
-					if (this._state === AutorunState.dependenciesMightHaveChanged) {
-						this._state = AutorunState.upToDate;
-						for (const d of this._dependencies) {
-							d.reportChanges(); // Warning: external call!
-							if (this._state as AutorunState === AutorunState.stale) {
-								// The other dependencies will refresh on demand
-								break;
-							}
-						}
-					}
-
-					if (this._state !== AutorunState.upToDate) {
-						this._run(); // Warning: indirect external call!
-					}
-				} while (this._state !== AutorunState.upToDate);
+			if (this._updateCount === 1 && !this._scheduler) {
+				this._settleDepth++;
+				try {
+					this._settle();
+				} finally {
+					this._endSettle();
+				}
 			}
 		} finally {
 			this._updateCount--;
 		}
 
 		assertFn(() => this._updateCount >= 0);
+
+		if (this._scheduler && this._updateCount === 0 && this._state !== AutorunState.upToDate) {
+			this._scheduleSettle(this._scheduler);
+		}
+	}
+
+	private _scheduleSettle(scheduler: IAutorunScheduler): void {
+		if (this._scheduledSettle || this._disposed) {
+			return;
+		}
+		let didRun = false;
+		const scheduled = scheduler.schedule(() => {
+			didRun = true;
+			this._scheduledSettle = undefined;
+			// If a transaction is updating this autorun, its end schedules the autorun again
+			if (this._disposed || this._updateCount > 0) {
+				return;
+			}
+			// Like in endUpdate, so that dependencies reporting changes while settling don't schedule again
+			this._updateCount++;
+			this._settleDepth++;
+			try {
+				this._settle();
+			} finally {
+				this._endSettle();
+				this._updateCount--;
+			}
+		});
+		if (!didRun) {
+			this._scheduledSettle = scheduled;
+		}
+	}
+
+	private _settle(): void {
+		do {
+			if (this._state === AutorunState.dependenciesMightHaveChanged) {
+				this._state = AutorunState.upToDate;
+				for (const d of this._dependencies) {
+					d.reportChanges(); // Warning: external call!
+					if (this._state as AutorunState === AutorunState.stale) {
+						// The other dependencies will refresh on demand
+						break;
+					}
+				}
+			}
+
+			if (this._state !== AutorunState.upToDate) {
+				if (this._runCountWithoutSettling > this._maxReruns) {
+					// The autorun keeps invalidating itself, stop the loop.
+					this._state = AutorunState.upToDate;
+					onUnexpectedError(ObservableCycleError.forAutorun(this, this._runCountWithoutSettling));
+					break;
+				}
+				this._run(); // Warning: indirect external call!
+			}
+		} while (this._state !== AutorunState.upToDate);
 	}
 
 	public handlePossibleChange(observable: IObservable<any>): void {
@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { autorunOpts, AutorunScheduler, derived, observableValue, transaction } from '../index';
+
+function createManualScheduler() {
+	const flushes: (() => void)[] = [];
+	const scheduler = AutorunScheduler.batched(flush => flushes.push(flush));
+	return {
+		scheduler,
+		get pendingFlushes() { return flushes.length; },
+		flush() {
+			for (const f of flushes.splice(0)) {
+				f();
+			}
+		},
+	};
+}
+
+describe('AutorunScheduler', () => {
+	it('runs synchronously first and coalesces changes until the flush', () => {
+		const s = createManualScheduler();
+		const value = observableValue('value', 1);
+		const log: number[] = [];
+		const d = autorunOpts({ scheduler: s.scheduler }, reader => {
+			log.push(value.read(reader));
+		});
+		expect(log).toEqual([1]);
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		expect(log).toEqual([1]);
+		expect(s.pendingFlushes).toBe(1);
+
+		s.flush();
+		expect(log).toEqual([1, 3]);
+
+		value.set(3, undefined);
+		s.flush();
+		expect(log).toEqual([1, 3]);
+		d.dispose();
+	});
+
+	it('does not run while a transaction is updating the autorun', () => {
+		const s = createManualScheduler();
+		const a = observableValue('a', 1);
+		const b = observableValue('b', 1);
+		const sum = derived(reader => a.read(reader) + b.read(reader));
+		const log: string[] = [];
+		const d = autorunOpts({ scheduler: s.scheduler }, reader => {
+			log.push(`${a.read(reader)} + ${b.read(reader)} = ${sum.read(reader)}`);
+		});
+
+		a.set(2, undefined);
+		transaction(tx => {
+			a.set(3, tx);
+			s.flush();
+			b.set(3, tx);
+		});
+		expect(log).toEqual(['1 + 1 = 2']);
+
+		s.flush();
+		expect(log).toEqual(['1 + 1 = 2', '3 + 3 = 6']);
+		d.dispose();
+	});
+
+	it('runs autoruns that are triggered by other autoruns in the same flush', () => {
+		const s = createManualScheduler();
+		const source = observableValue('source', 1);
+		const copy = observableValue('copy', 1);
+		const log: string[] = [];
+		const d1 = autorunOpts({ scheduler: s.scheduler }, reader => {
+			const v = source.read(reader);
+			copy.set(v, undefined);
+		});
+		const d2 = autorunOpts({ scheduler: s.scheduler }, reader => {
+			log.push(`copy ${copy.read(reader)}`);
+		});
+
+		source.set(2, undefined);
+		s.flush();
+		expect(log).toEqual(['copy 1', 'copy 2']);
+		expect(s.pendingFlushes).toBe(0);
+		d1.dispose();
+		d2.dispose();
+	});
+
+	it('cancels scheduled runs on dispose', () => {
+		const s = createManualScheduler();
+		const value = observableValue('value', 1);
+		const log: number[] = [];
+		const d = autorunOpts({ scheduler: s.scheduler }, reader => {
+			log.push(value.read(reader));
+		});
+
+		value.set(2, undefined);
+		d.dispose();
+		s.flush();
+		expect(log).toEqual([1]);
+	});
+
+	it('supports the sync and microtask schedulers', async () => {
+		const value = observableValue('value', 1);
+		const syncLog: number[] = [];
+		const microtaskLog: number[] = [];
+		const d1 = autorunOpts({ scheduler: AutorunScheduler.sync }, reader => {
+			syncLog.push(value.read(reader));
+		});
+		const d2 = autorunOpts({ scheduler: AutorunScheduler.microtask }, reader => {
+			microtaskLog.push(value.read(reader));
+		});
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		expect(syncLog).toEqual([1, 2, 3]);
+		expect(microtaskLog).toEqual([1]);
+
+		await Promise.resolve();
+		expect(microtaskLog).toEqual([1, 3]);
+		d1.dispose();
+		d2.dispose();
+	});
+});
@@ -0,0 +1,112 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IDisposable, onUnexpectedError, toDisposable } from '../commonFacade/deps';
+
+/**
+ * Decides when an autorun reacts to changes of its dependencies.
+ * The first run of an autorun always happens synchronously, so that its dependencies are known.
+ *
+ * Scheduled autoruns only run when no transaction is updating them,
+ * so every run observes a consistent snapshot of its dependencies.
+ */
+export interface IAutorunScheduler {
+	/**
+	 * Calls `run` at some later point (or immediately).
+	 * Disposing the result cancels the call.
+	 */
+	schedule(run: () => void): IDisposable;
+}
+
+class BatchedAutorunScheduler implements IAutorunScheduler {
+	/**
+	 * Limits how often a flush picks up autoruns that were scheduled by the flush itself,
+	 * so that autoruns that keep triggering each other don't block the thread.
+	 */
+	private static readonly _maxPasses = 100;
+
+	private readonly _queue = new Set<() => void>();
+	private _isFlushRequested = false;
+
+	constructor(
+		private readonly _requestFlush: (flush: () => void) => void,
+	) { }
+
+	public schedule(run: () => void): IDisposable {
+		// Wrap, so that the same function can be scheduled multiple times
+		const entry = () => run();
+		this._queue.add(entry);
+		if (!this._isFlushRequested) {
+			this._isFlushRequested = true;
+			this._requestFlush(() => this._flush());
+		}
+		return toDisposable(() => {
+			this._queue.delete(entry);
+		});
+	}
+
+	private _flush(): void {
+		for (let pass = 0; pass < BatchedAutorunScheduler._maxPasses && this._queue.size > 0; pass++) {
+			const entries = [...this._queue];
+			this._queue.clear();
+			for (const entry of entries) {
+				try {
+					entry();
+				} catch (e) {
+					onUnexpectedError(e);
+				}
+			}
+		}
+		this._isFlushRequested = false;
+		if (this._queue.size > 0) {
+			this._isFlushRequested = true;
+			this._requestFlush(() => this._flush());
+		}
+	}
+}
+
+export namespace AutorunScheduler {
+	/**
+	 * Runs autoruns at the end of the transaction that changed them. This is the default.
+	 */
+	export const sync: IAutorunScheduler = {
+		schedule(run) {
+			run();
+			return toDisposable(() => { });
+		}
+	};
+
+	/**
+	 * Collects scheduled autoruns and runs them together once `requestFlush` calls its callback.
+	 * Autoruns that are scheduled while flushing run in the same flush.
+	 */
+	export function batched(requestFlush: (flush: () => void) => void): IAutorunScheduler {
+		return new BatchedAutorunScheduler(requestFlush);
+	}
+
+	export const microtask: IAutorunScheduler = batched(flush => queueMicrotask(flush));
+
+	/**
+	 * Coalesces all changes within a frame. Uses `setTimeout` where `requestAnimationFrame` is not available.
+	 */
+	export const animationFrame: IAutorunScheduler = batched(flush => {
+		if (typeof requestAnimationFrame === 'function') {
+			requestAnimationFrame(() => flush());
+		} else {
+			setTimeout(flush, 16);
+		}
+	});
+
+	/**
+	 * Uses `setTimeout` where `requestIdleCallback` is not available.
+	 */
+	export const idle: IAutorunScheduler = batched(flush => {
+		if (typeof requestIdleCallback === 'function') {
+			requestIdleCallback(() => flush());
+		} else {
+			setTimeout(flush, 0);
+		}
+	});
+}
@@ -0,0 +1,118 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { effect, ErrorBoundary, observableValue } from '../index';
+
+describe('effect', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('calls the cleanup after the next run and on dispose', () => {
+		const value = observableValue('value', 1);
+		const log: string[] = [];
+		const d = effect(undefined, reader => {
+			const v = value.read(reader);
+			log.push(`run ${v}`);
+			return () => log.push(`cleanup ${v}`);
+		});
+
+		value.set(2, undefined);
+		expect(log).toEqual(['run 1', 'run 2', 'cleanup 1']);
+
+		d.dispose();
+		expect(log).toEqual(['run 1', 'run 2', 'cleanup 1', 'cleanup 2']);
+	});
+
+	it('routes errors to onError and keeps reacting', () => {
+		const value = observableValue('value', 1);
+		const errors: unknown[] = [];
+		const d = effect(undefined, reader => {
+			if (value.read(reader) % 2 === 0) {
+				throw new Error(`even ${value.read(reader)}`);
+			}
+		}, { onError: e => errors.push((e as Error).message) });
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		value.set(4, undefined);
+		expect(errors).toEqual(['even 2', 'even 4']);
+		d.dispose();
+	});
+
+	it('routes errors to the enclosing error boundary', () => {
+		const boundary = new ErrorBoundary();
+		const shouldFail = observableValue('shouldFail', false);
+		const d = boundary.run(() => effect(undefined, reader => {
+			if (shouldFail.read(reader)) {
+				throw new Error('failed');
+			}
+		}));
+		expect(boundary.error.get()).toBeUndefined();
+
+		shouldFail.set(true, undefined);
+		expect((boundary.error.get() as Error).message).toBe('failed');
+
+		boundary.clear();
+		expect(boundary.error.get()).toBeUndefined();
+		expect(ErrorBoundary.current).toBeUndefined();
+		d.dispose();
+	});
+
+	it('retries with backoff', () => {
+		let attempts = 0;
+		let failures = 3;
+		const errors: unknown[] = [];
+		const d = effect(undefined, () => {
+			attempts++;
+			if (failures-- > 0) {
+				throw new Error('flaky');
+			}
+		}, { retry: { maxRetries: 3, initialDelayMs: 100 }, onError: e => errors.push(e) });
+		expect(attempts).toBe(1);
+
+		vi.advanceTimersByTime(99);
+		expect(attempts).toBe(1);
+		vi.advanceTimersByTime(1);
+		expect(attempts).toBe(2);
+		vi.advanceTimersByTime(200);
+		expect(attempts).toBe(3);
+		vi.advanceTimersByTime(400);
+		expect(attempts).toBe(4);
+		expect(errors).toEqual([]);
+
+		vi.advanceTimersByTime(10000);
+		expect(attempts).toBe(4);
+		d.dispose();
+	});
+
+	it('reports the error once all retries failed and cancels retries on dispose', () => {
+		let attempts = 0;
+		const errors: unknown[] = [];
+		const d1 = effect(undefined, () => {
+			attempts++;
+			throw new Error('always');
+		}, { retry: { maxRetries: 1, initialDelayMs: 10 }, onError: e => errors.push((e as Error).message) });
+
+		vi.advanceTimersByTime(10);
+		expect(attempts).toBe(2);
+		expect(errors).toEqual(['always']);
+		d1.dispose();
+
+		let attempts2 = 0;
+		const d2 = effect(undefined, () => {
+			attempts2++;
+			throw new Error('disposed');
+		}, { retry: {}, onError: e => errors.push(e) });
+		d2.dispose();
+		vi.advanceTimersByTime(1000);
+		expect(attempts2).toBe(1);
+	});
+});
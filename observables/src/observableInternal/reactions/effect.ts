@@ -0,0 +1,144 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IReaderWithStore, ITransaction } from '../base';
+import { IDisposable, onUnexpectedError, toDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import { DebugNameData, DebugNameSource, DebugOwner } from '../debugName';
+import { observableSignal } from '../observables/observableSignal';
+import { observableValue } from '../observables/observableValue';
+import { AutorunObserver } from './autorunImpl';
+import { IAutorunScheduler } from './autorunScheduler';
+
+export interface IEffectOptions {
+	readonly debugName?: DebugNameSource;
+
+	/**
+	 * Receives errors thrown by the effect (after all retries failed).
+	 * Defaults to the enclosing {@link ErrorBoundary} or `onUnexpectedError`.
+	 */
+	readonly onError?: (error: unknown) => void;
+
+	/**
+	 * If set, failing runs are retried with an exponential backoff.
+	 * Changes of dependencies cancel a pending retry and run the effect again immediately.
+	 */
+	readonly retry?: IEffectRetryOptions;
+
+	readonly scheduler?: IAutorunScheduler;
+}
+
+export interface IEffectRetryOptions {
+	/** Defaults to 3. */
+	readonly maxRetries?: number;
+	/** Defaults to 100. */
+	readonly initialDelayMs?: number;
+	/** Defaults to 2. */
+	readonly backoffFactor?: number;
+	/** Defaults to 30000. */
+	readonly maxDelayMs?: number;
+}
+
+/**
+ * Like an autorun, but `fn` can return a cleanup function and errors thrown by `fn` don't escape the effect.
+ *
+ * The cleanup is called after the next run (like {@link IReaderWithStore.delayedStore}) or when the effect is disposed.
+ * Errors go to {@link IEffectOptions.onError}, the {@link ErrorBoundary} that was running when the effect was created,
+ * or `onUnexpectedError`, in this order.
+ */
+export function effect(
+	owner: DebugOwner,
+	fn: (reader: IReaderWithStore) => void | (() => void),
+	options: IEffectOptions = {},
+	debugLocation = DebugLocation.ofCaller()
+): IDisposable {
+	const errorBoundary = ErrorBoundary.current;
+	const handleError = options.onError ?? (errorBoundary ? (e: unknown) => errorBoundary.reportError(e) : onUnexpectedError);
+
+	const retrySignal = observableSignal('effect.retry');
+	let failedRuns = 0;
+	let retryTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+	const cancelRetry = () => {
+		if (retryTimeout !== undefined) {
+			clearTimeout(retryTimeout);
+			retryTimeout = undefined;
+		}
+	};
+
+	const autorun = new AutorunObserver(
+		new DebugNameData(owner, options.debugName, fn),
+		reader => {
+			cancelRetry();
+			retrySignal.read(reader);
+			try {
+				const cleanup = fn(reader);
+				if (cleanup) {
+					reader.delayedStore.add(toDisposable(cleanup));
+				}
+				failedRuns = 0;
+			} catch (e) {
+				failedRuns++;
+				const retry = options.retry;
+				if (retry && failedRuns <= (retry.maxRetries ?? 3)) {
+					const delay = Math.min((retry.initialDelayMs ?? 100) * Math.pow(retry.backoffFactor ?? 2, failedRuns - 1), retry.maxDelayMs ?? 30000);
+					retryTimeout = setTimeout(() => {
+						retryTimeout = undefined;
+						retrySignal.trigger(undefined);
+					}, delay);
+				} else {
+					failedRuns = 0;
+					handleError(e);
+				}
+			}
+		},
+		undefined,
+		debugLocation,
+		undefined,
+		options.scheduler,
+	);
+
+	return toDisposable(() => {
+		cancelRetry();
+		autorun.dispose();
+	});
+}
+
+/**
+ * Collects errors of the effects that are created in {@link run}.
+ */
+export class ErrorBoundary {
+	private static readonly _stack: ErrorBoundary[] = [];
+
+	/**
+	 * The innermost boundary whose {@link run} is executing.
+	 */
+	public static get current(): ErrorBoundary | undefined {
+		return ErrorBoundary._stack[ErrorBoundary._stack.length - 1];
+	}
+
+	private readonly _error = observableValue<unknown>(this, undefined);
+
+	/**
+	 * The last reported error, until {@link clear} is called.
+	 */
+	public readonly error: IObservable<unknown> = this._error;
+
+	public run<T>(fn: () => T): T {
+		ErrorBoundary._stack.push(this);
+		try {
+			return fn();
+		} finally {
+			ErrorBoundary._stack.pop();
+		}
+	}
+
+	public reportError(error: unknown, tx?: ITransaction): void {
+		this._error.set(error, tx);
+	}
+
+	public clear(tx?: ITransaction): void {
+		this._error.set(undefined, tx);
+	}
+}
@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { autorunHandleChanges, derived, ObservableSet, ObservableSetChange, transaction } from './index';
+import { recordAutorunRuns } from './testing';
+
+describe('ObservableSet', () => {
+	it('reports change records in order', () => {
+		const set = new ObservableSet<string>();
+		const changes: ObservableSetChange<string>[][] = [];
+		const d = autorunHandleChanges({
+			changeTracker: {
+				createChangeSummary: () => [] as ObservableSetChange<string>[],
+				handleChange: (ctx, summary) => {
+					if (ctx.didChange(set.observable)) {
+						summary.push(ctx.change);
+					}
+					return true;
+				},
+			},
+		}, (reader, summary) => {
+			set.observable.read(reader);
+			changes.push(summary);
+		});
+
+		transaction(tx => {
+			set.add('a', tx);
+			set.add('a', tx);
+			set.add('b', tx);
+		});
+		set.delete('c');
+		set.clear();
+
+		expect(changes).toEqual([
+			[],
+			[
+				{ kind: 'added', key: 'a', oldValue: undefined, newValue: 'a' },
+				{ kind: 'added', key: 'b', oldValue: undefined, newValue: 'b' },
+			],
+			[
+				{ kind: 'deleted', key: 'a', oldValue: 'a', newValue: undefined },
+				{ kind: 'deleted', key: 'b', oldValue: 'b', newValue: undefined },
+			],
+		]);
+		d.dispose();
+	});
+
+	it('observeHas only reacts to changes of its value', () => {
+		const set = new ObservableSet<string>();
+		const recording = recordAutorunRuns(set.observeHas('a'));
+
+		set.add('b');
+		set.add('a');
+		set.delete('b');
+		set.delete('a');
+		expect(recording.values).toEqual([false, true, false]);
+
+		recording.dispose();
+	});
+
+	it('observeHas returns the same observable while it is observed', () => {
+		const set = new ObservableSet<string>();
+		const hasObservables = new Set<unknown>();
+		const label = derived(reader => {
+			const obs = set.observeHas('a');
+			hasObservables.add(obs);
+			return obs.read(reader) ? 'yes' : 'no';
+		});
+		const recording = recordAutorunRuns(label);
+
+		set.add('a');
+		set.delete('a');
+		expect(recording.values).toEqual(['no', 'yes', 'no']);
+		expect(hasObservables.size).toBe(1);
+
+		recording.dispose();
+	});
+
+	it('observeHas only keeps observed observables', () => {
+		const set = new ObservableSet<string>();
+		const unobserved = set.observeHas('a');
+		const observed = set.observeHas('a');
+		expect(observed).not.toBe(unobserved);
+
+		const recording = recordAutorunRuns(observed);
+		expect(set.observeHas('a')).toBe(observed);
+
+		// Reading another instance without observing it must not evict the observed one
+		unobserved.get();
+		expect(set.observeHas('a')).toBe(observed);
+
+		recording.dispose();
+		expect(set.observeHas('a')).not.toBe(observed);
+	});
+});
@@ -3,16 +3,35 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IObservable, ITransaction } from './base';
+import { IObservable, IObservableWithChange, ITransaction } from './base';
 import { observableValueOpts } from './observables/observableValueOpts';
+import { DerivedCachedWhileObserved } from './observables/derivedImpl';
+import { DebugNameData } from './debugName';
+import { DebugLocation } from './debugLocation';
+import { strictEquals } from './commonFacade/deps';
+import { subtransaction } from './transaction';
+
+/**
+ * Describes how a single value of an {@link ObservableSet} changed.
+ */
+export type ObservableSetChange<T> =
+	| { readonly kind: 'added'; readonly key: T; readonly oldValue: undefined; readonly newValue: T }
+	| { readonly kind: 'deleted'; readonly key: T; readonly oldValue: T; readonly newValue: undefined };
 
 export class ObservableSet<T> implements Set<T> {
 
 	private readonly _data = new Set<T>();
 
-	private _obs = observableValueOpts({ equalsFn: () => false }, this);
+	private _obs = observableValueOpts<Set<T>, ObservableSetChange<T>>({ equalsFn: () => false }, this);
 
-	readonly observable: IObservable<Set<T>> = this._obs;
+	/** The value observables that are currently observed (see {@link DerivedCachedWhileObserved}). */
+	private readonly _hasObservables = new Map<T, IObservable<boolean>>();
+
+	/**
+	 * Reports a change record for every added or deleted value.
+	 * Observers receive all records of a transaction in order.
+	 */
+	readonly observable: IObservableWithChange<Set<T>, ObservableSetChange<T>> = this._obs;
 
 	get size(): number {
 		return this._data.size;
@@ -26,7 +45,7 @@ export class ObservableSet<T> implements Set<T> {
 		const hadValue = this._data.has(value);
 		if (!hadValue) {
 			this._data.add(value);
-			this._obs.set(this, tx);
+			this._obs.set(this, tx, { kind: 'added', key: value, oldValue: undefined, newValue: value });
 		}
 		return this;
 	}
@@ -34,39 +53,68 @@ export class ObservableSet<T> implements Set<T> {
 	delete(value: T, tx?: ITransaction): boolean {
 		const result = this._data.delete(value);
 		if (result) {
-			this._obs.set(this, tx);
+			this._obs.set(this, tx, { kind: 'deleted', key: value, oldValue: value, newValue: undefined });
 		}
 		return result;
 	}
 
 	clear(tx?: ITransaction): void {
 		if (this._data.size > 0) {
+			const values = [...this._data];
 			this._data.clear();
-			this._obs.set(this, tx);
+			subtransaction(tx, tx => {
+				for (const value of values) {
+					this._obs.set(this, tx, { kind: 'deleted', key: value, oldValue: value, newValue: undefined });
+				}
+			}, () => `Clearing ${this._obs.debugName}`);
 		}
 	}
 
+	/**
+	 * Returns an observable that indicates whether the set contains the given value.
+	 * Readers of this observable only react to changes of this value.
+	 */
+	observeHas(value: T): IObservable<boolean> {
+		const obs = this._hasObservables.get(value);
+		if (obs) {
+			return obs;
+		}
+		return new DerivedCachedWhileObserved(
+			this._hasObservables,
+			value,
+			new DebugNameData(this, () => `observeHas(${String(value)})`, undefined),
+			reader => {
+				this._obs.read(reader);
+				return this._data.has(value);
+			},
+			{
+				createChangeSummary: () => undefined,
+				handleChange: (ctx) => ctx.didChange(this._obs) && ctx.change.key === value,
+			},
+			strictEquals,
+			DebugLocation.ofCaller(),
+		);
+	}
+
 	forEach(callbackfn: (value: T, value2: T, set: Set<T>) => void, thisArg?: any): void {
 		this._data.forEach((value, value2, _set) => {
 			callbackfn.call(thisArg, value, value2, this as any);
 		});
 	}
 
-	*entries(): IterableIterator<[T, T]> {
-		for (const value of this._data) {
-			yield [value, value];
-		}
+	entries(): SetIterator<[T, T]> {
+		return this._data.entries();
 	}
 
-	*keys(): IterableIterator<T> {
-		yield* this._data.keys();
+	keys(): SetIterator<T> {
+		return this._data.keys();
 	}
 
-	*values(): IterableIterator<T> {
-		yield* this._data.values();
+	values(): SetIterator<T> {
+		return this._data.values();
 	}
 
-	[Symbol.iterator](): IterableIterator<T> {
+	[Symbol.iterator](): SetIterator<T> {
 		return this.values();
 	}
 
@@ -0,0 +1,99 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { derived, IStorePatch, observableStore, runOnChange, transaction } from './index';
+import { recordAutorunRuns } from './testing';
+
+function createStore() {
+	return observableStore({
+		user: { name: 'Jane', address: { city: 'Zurich' } },
+		todos: [{ title: 'a', done: false }, { title: 'b', done: false }],
+	});
+}
+
+describe('observableStore', () => {
+	it('only tracks the paths that are read through the store', () => {
+		const store = createStore();
+		let cityComputations = 0;
+		const city = derived(() => {
+			cityComputations++;
+			return store.user.address.city;
+		});
+		const recording = recordAutorunRuns(city);
+
+		store.set(['user', 'name'], 'John');
+		store.set(['todos', 0, 'done'], true);
+		expect(cityComputations).toBe(1);
+
+		store.set(['user', 'address', 'city'], 'Bern');
+		expect(recording.values).toEqual(['Zurich', 'Bern']);
+		expect(cityComputations).toBe(2);
+
+		recording.dispose();
+	});
+
+	it('tracks the keys when iterating', () => {
+		const store = createStore();
+		const titles = derived(() => store.todos.map(t => t.title).join(','));
+		const recording = recordAutorunRuns(titles);
+
+		store.set(['todos', 2], { title: 'c', done: false });
+		store.delete(['todos', 0]);
+		expect(recording.values).toEqual(['a,b', 'a,b,c', 'b,c']);
+
+		recording.dispose();
+	});
+
+	it('supports an explicit reader and the state view', () => {
+		const store = createStore();
+		const name = derived(reader => store.read(reader).user.name + store.state.todos.length);
+		const recording = recordAutorunRuns(name);
+
+		store.set(['user', 'name'], 'John');
+		expect(recording.values).toEqual(['Jane2', 'John2']);
+		expect(store.user.name).toBe('John');
+
+		recording.dispose();
+	});
+
+	it('reports JSON patches and keeps the state immutable', () => {
+		const store = createStore();
+		const initial = store.get();
+		const patches: IStorePatch[][] = [];
+		const d = runOnChange(store.observable, (_value, _previous, changes) => {
+			patches.push(changes);
+		});
+
+		transaction(tx => {
+			store.set(['user', 'name'], 'John', tx);
+			store.set(['todos', 2], { title: 'c', done: false }, tx);
+			store.delete(['todos', 0], tx);
+		});
+		store.set(['user', 'name'], 'John');
+
+		expect(patches).toEqual([[
+			{ op: 'replace', path: '/user/name', value: 'John' },
+			{ op: 'add', path: '/todos/2', value: { title: 'c', done: false } },
+			{ op: 'remove', path: '/todos/0' },
+		]]);
+		expect(initial.user.name).toBe('Jane');
+		expect(store.get().user.address).toBe(initial.user.address);
+		expect(() => (store.user as { name: string }).name = 'x').toThrow();
+
+		d.dispose();
+	});
+
+	it('observe changes when anything below the path changes', () => {
+		const store = createStore();
+		const recording = recordAutorunRuns(store.observe(['user']));
+
+		store.set(['todos', 0, 'done'], true);
+		store.set(['user', 'address', 'city'], 'Bern');
+		expect(recording.values.map(u => u.address.city)).toEqual(['Zurich', 'Bern']);
+
+		recording.dispose();
+	});
+});
@@ -0,0 +1,429 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IObservableWithChange, IReader, ISettableObservable, ITransaction } from './base';
+import { BugIndicatingError } from './commonFacade/deps';
+import { BaseObservable } from './observables/baseObservable';
+import { observableValueOpts } from './observables/observableValueOpts';
+import { subtransaction } from './transaction';
+import { getAmbientReader } from './ambientReader';
+
+/**
+ * A path into the state of an {@link ObservableStore}, e.g. `['todos', 0, 'title']`.
+ */
+export type StorePath = readonly (string | number)[];
+
+/**
+ * A JSON patch (RFC 6902) style description of a single store modification.
+ */
+export interface IStorePatch {
+	readonly op: 'add' | 'replace' | 'remove';
+	/**
+	 * A JSON pointer (RFC 6901) to the modified location, e.g. `/todos/0/title`.
+	 */
+	readonly path: string;
+	/**
+	 * The new value. Undefined for `remove`.
+	 */
+	readonly value?: unknown;
+}
+
+export type DeepReadonly<T> =
+	T extends (...args: any[]) => any ? T
+	: T extends readonly (infer U)[] ? readonly DeepReadonly<U>[]
+	: T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+	: T;
+
+/**
+ * The type of the value at the given path.
+ */
+export type ValueAtPath<T, P extends StorePath> =
+	P extends readonly [] ? T
+	: P extends readonly [infer THead, ...infer TRest extends StorePath]
+	? (THead extends keyof NonNullable<T> ? ValueAtPath<NonNullable<T>[THead], TRest> : never)
+	: unknown;
+
+/**
+ * An {@link ObservableStore} whose state can be read through its properties, e.g. `store.todos[0].title`.
+ * Top-level keys that collide with members of the store have to be read through {@link ObservableStore.state}.
+ */
+export type ObservableStoreWithState<T extends object> = ObservableStore<T> & Omit<DeepReadonly<T>, keyof ObservableStore<T>>;
+
+/**
+ * Creates a store for (large) nested state.
+ * Reading `store.a.b.c` inside a derived or autorun only subscribes it to that path,
+ * so writes to unrelated paths don't cause recomputations.
+ */
+export function observableStore<T extends object>(initial: T): ObservableStoreWithState<T> {
+	return new ObservableStore(initial) as ObservableStoreWithState<T>;
+}
+
+export class ObservableStore<T extends object> {
+	private readonly _root: ISettableObservable<DeepReadonly<T>, IStorePatch>;
+	private readonly _observedNodes = new Set<StoreNodeObservable>();
+	private readonly _nodeByKey = new Map<string, StoreNodeObservable>();
+
+	/**
+	 * The current (immutable) state.
+	 * Reports a patch for every modification, observers receive all patches of a transaction in order.
+	 */
+	public readonly observable: IObservableWithChange<DeepReadonly<T>, IStorePatch>;
+
+	/**
+	 * A read-only view of the state.
+	 * Inside the compute function of a derived or autorun, every property access (e.g. `store.state.a.b.c`) only subscribes it to the accessed path.
+	 * Outside of them, property accesses don't subscribe to anything.
+	 */
+	public readonly state: DeepReadonly<T>;
+
+	constructor(initial: T) {
+		this._root = observableValueOpts<DeepReadonly<T>, IStorePatch>({ owner: this, debugName: 'root', equalsFn: () => false }, toDeepReadonly(initial));
+		this.observable = this._root;
+		this.state = this._createView([], getAmbientReader) as DeepReadonly<T>;
+
+		// Forwards property accesses that are not members of the store to the state.
+		return new Proxy(this, {
+			get: (target, p) => p in target ? Reflect.get(target, p, target) : Reflect.get(target.state, p),
+			has: (target, p) => p in target || p in target.state,
+		});
+	}
+
+	/**
+	 * Returns the current state without subscribing to it.
+	 * The returned object is never mutated by the store.
+	 */
+	public get(): DeepReadonly<T> {
+		return this._root.get();
+	}
+
+	/**
+	 * Like {@link state}, but subscribes the given reader.
+	 * The view must not be used after the compute function of the reader returned.
+	 */
+	public read(reader: IReader | undefined): DeepReadonly<T> {
+		if (!reader) {
+			return this.get();
+		}
+		return this._createView([], () => reader) as DeepReadonly<T>;
+	}
+
+	/**
+	 * Returns an observable of the value at the given path.
+	 * It changes whenever the value at that path or anything below it changes.
+	 */
+	public observe<const P extends StorePath>(path: P): IObservable<DeepReadonly<ValueAtPath<T, P>>> {
+		return this._getNode(normalizePath(path), StoreNodeKind.deep) as IObservable<DeepReadonly<ValueAtPath<T, P>>>;
+	}
+
+	/**
+	 * Sets the value at the given path. The parent of the path must exist.
+	 */
+	public set<const P extends StorePath>(path: P, value: ValueAtPath<T, P>, tx?: ITransaction): void {
+		const p = normalizePath(path);
+		const result = updateAtPath(this._root.get(), p, 0, (parent, key) => {
+			if (Array.isArray(parent)) {
+				const idx = parseArrayIndex(key, parent.length);
+				const copy = [...parent];
+				copy[idx] = value;
+				return { newParent: copy, existed: idx < parent.length, oldValue: parent[idx] };
+			}
+			const existed = Object.prototype.hasOwnProperty.call(parent, key);
+			return { newParent: { ...parent, [key]: value }, existed, oldValue: parent[key] };
+		}, value);
+
+		if (result.existed && result.oldValue === value) {
+			return;
+		}
+
+		const op = result.existed ? 'replace' : 'add';
+		subtransaction(tx, tx => {
+			this._root.set(result.newRoot as DeepReadonly<T>, tx, { op, path: toJsonPointer(p), value });
+			this._triggerNodes(p, op, false, tx);
+		}, () => `Setting ${this._root.debugName}${toJsonPointer(p)}`);
+	}
+
+	/**
+	 * Removes the value at the given path.
+	 * Removing an array item shifts the following items.
+	 */
+	public delete(path: StorePath, tx?: ITransaction): void {
+		const p = normalizePath(path);
+		if (p.length === 0) {
+			throw new BugIndicatingError('Cannot delete the root of a store');
+		}
+		let isArrayItem = false;
+		const result = updateAtPath(this._root.get(), p, 0, (parent, key) => {
+			if (Array.isArray(parent)) {
+				isArrayItem = true;
+				const idx = parseArrayIndex(key, parent.length - 1);
+				const copy = [...parent];
+				copy.splice(idx, 1);
+				return { newParent: copy, existed: true, oldValue: parent[idx] };
+			}
+			const existed = Object.prototype.hasOwnProperty.call(parent, key);
+			const copy = { ...parent };
+			delete copy[key];
+			return { newParent: copy, existed, oldValue: parent[key] };
+		}, undefined);
+
+		if (!result.existed) {
+			return;
+		}
+
+		subtransaction(tx, tx => {
+			this._root.set(result.newRoot as DeepReadonly<T>, tx, { op: 'remove', path: toJsonPointer(p) });
+			this._triggerNodes(p, 'remove', isArrayItem, tx);
+		}, () => `Deleting ${this._root.debugName}${toJsonPointer(p)}`);
+	}
+
+	private _triggerNodes(path: readonly string[], op: IStorePatch['op'], shiftsSiblings: boolean, tx: ITransaction): void {
+		const parentPath = path.slice(0, -1);
+		// Removing an array item changes all following items.
+		const changedPath = shiftsSiblings ? parentPath : path;
+		const changesKeys = op !== 'replace' || shiftsSiblings;
+
+		for (const node of [...this._observedNodes]) {
+			if (isPrefix(changedPath, node.path)) {
+				node.trigger(tx);
+			} else if (node.kind === StoreNodeKind.deep && isPrefix(node.path, changedPath)) {
+				node.trigger(tx);
+			} else if (node.kind === StoreNodeKind.keys && changesKeys && isEqualPath(node.path, parentPath)) {
+				node.trigger(tx);
+			}
+		}
+	}
+
+	/**
+	 * Creates a view of the object at {@link path} that subscribes the reader returned by {@link getReader} to the accessed paths.
+	 */
+	private _createView(path: readonly string[], getReader: () => IReader | undefined): object {
+		const current = (): StoreContainer => {
+			const value = getAtPath(this._root.get(), path);
+			return isObject(value) ? value : {};
+		};
+		const readKeys = () => {
+			const reader = getReader();
+			if (reader) {
+				this._getNode(path, StoreNodeKind.keys).read(reader);
+			}
+		};
+
+		return new Proxy(Array.isArray(current()) ? [] : {}, {
+			get: (_target, p) => {
+				const value = current();
+				if (typeof p === 'symbol' || !Object.prototype.hasOwnProperty.call(value, p) || (Array.isArray(value) && p === 'length')) {
+					// Depends on the set of keys (e.g. for iteration or properties that don't exist yet).
+					readKeys();
+					return Reflect.get(value, p);
+				}
+				const childPath = [...path, p];
+				const reader = getReader();
+				const childValue = reader ? this._getNode(childPath, StoreNodeKind.value).read(reader) : getChild(value, p);
+				return isObject(childValue) ? this._createView(childPath, getReader) : childValue;
+			},
+			has: (_target, p) => {
+				readKeys();
+				return p in current();
+			},
+			ownKeys: () => {
+				readKeys();
+				return Reflect.ownKeys(current());
+			},
+			getOwnPropertyDescriptor: (target, p) => {
+				readKeys();
+				const desc = Reflect.getOwnPropertyDescriptor(current(), p);
+				if (!desc) {
+					return undefined;
+				}
+				const targetDesc = Reflect.getOwnPropertyDescriptor(target, p);
+				// Proxy invariant: Only properties that are non-configurable on the target can be reported as non-configurable.
+				return { ...desc, configurable: targetDesc ? targetDesc.configurable : true };
+			},
+			set: () => { throw new BugIndicatingError('Use ObservableStore.set to modify the store'); },
+			deleteProperty: () => { throw new BugIndicatingError('Use ObservableStore.delete to modify the store'); },
+			defineProperty: () => { throw new BugIndicatingError('Use ObservableStore.set to modify the store'); },
+		});
+	}
+
+	private _getNode(path: readonly string[], kind: StoreNodeKind): StoreNodeObservable {
+		const key = kind + JSON.stringify(path);
+		const existing = this._nodeByKey.get(key);
+		if (existing) {
+			return existing;
+		}
+		return new StoreNodeObservable(
+			path,
+			kind,
+			key,
+			() => getAtPath(this._root.get(), path),
+			() => `${this._root.debugName}${toJsonPointer(path)}${kind === StoreNodeKind.keys ? ' (keys)' : ''}`,
+			this._handleNodeObserved,
+		);
+	}
+
+	private readonly _handleNodeObserved = (node: StoreNodeObservable, observed: boolean) => {
+		if (observed) {
+			this._observedNodes.add(node);
+			if (!this._nodeByKey.has(node.key)) {
+				this._nodeByKey.set(node.key, node);
+			}
+		} else {
+			this._observedNodes.delete(node);
+			if (this._nodeByKey.get(node.key) === node) {
+				this._nodeByKey.delete(node.key);
+			}
+		}
+	};
+}
+
+const enum StoreNodeKind {
+	/** Changes when the value at the path is replaced. */
+	value = 'v',
+	/** Changes when a key is added to or removed from the value at the path. */
+	keys = 'k',
+	/** Changes when anything at or below the path changes. */
+	deep = 'd',
+}
+
+class StoreNodeObservable extends BaseObservable<unknown> {
+	constructor(
+		public readonly path: readonly string[],
+		public readonly kind: StoreNodeKind,
+		public readonly key: string,
+		private readonly _getValue: () => unknown,
+		private readonly _getDebugName: () => string,
+		private readonly _handleObserved: (node: StoreNodeObservable, observed: boolean) => void,
+	) {
+		super(undefined);
+	}
+
+	public get debugName(): string {
+		return this._getDebugName();
+	}
+
+	public get(): unknown {
+		return this._getValue();
+	}
+
+	protected override onFirstObserverAdded(): void {
+		this._handleObserved(this, true);
+	}
+
+	protected override onLastObserverRemoved(): void {
+		this._handleObserved(this, false);
+	}
+
+	public trigger(tx: ITransaction): void {
+		for (const o of this._observers) {
+			tx.updateObserver(o, this);
+			o.handleChange(this, undefined);
+		}
+	}
+
+	public override toString(): string {
+		return this.debugName;
+	}
+}
+
+/**
+ * An object or array in the state.
+ */
+type StoreContainer = Record<string, unknown> | unknown[];
+
+interface IUpdateResult {
+	newParent: unknown;
+	existed: boolean;
+	oldValue: unknown;
+}
+
+function updateAtPath(
+	value: unknown,
+	path: readonly string[],
+	idx: number,
+	update: (parent: StoreContainer, key: string) => IUpdateResult,
+	rootValue: unknown,
+): { newRoot: unknown; existed: boolean; oldValue: unknown } {
+	if (path.length === 0) {
+		return { newRoot: rootValue, existed: true, oldValue: value };
+	}
+	if (!isObject(value)) {
+		throw new BugIndicatingError(`Cannot modify ${toJsonPointer(path)}: ${toJsonPointer(path.slice(0, idx))} is not an object`);
+	}
+	const key = path[idx];
+	if (idx === path.length - 1) {
+		const r = update(value, key);
+		return { newRoot: r.newParent, existed: r.existed, oldValue: r.oldValue };
+	}
+	const child = getChild(value, key);
+	const r = updateAtPath(child, path, idx + 1, update, rootValue);
+	if (r.existed && r.newRoot === child) {
+		return { newRoot: value, existed: r.existed, oldValue: r.oldValue };
+	}
+	let copy: StoreContainer;
+	if (Array.isArray(value)) {
+		copy = [...value];
+		copy[Number(key)] = r.newRoot;
+	} else {
+		copy = { ...value, [key]: r.newRoot };
+	}
+	return { newRoot: copy, existed: r.existed, oldValue: r.oldValue };
+}
+
+function getAtPath(value: unknown, path: readonly string[]): unknown {
+	for (const key of path) {
+		if (!isObject(value)) {
+			return undefined;
+		}
+		value = getChild(value, key);
+	}
+	return value;
+}
+
+function getChild(container: StoreContainer, key: string): unknown {
+	return Array.isArray(container) ? container[Number(key)] : container[key];
+}
+
+/**
+ * The store never mutates its state, so it can be handed out as deeply readonly.
+ */
+function toDeepReadonly<T>(value: T): DeepReadonly<T> {
+	return value as DeepReadonly<T>;
+}
+
+function parseArrayIndex(key: string, maxIndex: number): number {
+	const idx = Number(key);
+	if (!Number.isInteger(idx) || idx < 0 || idx > maxIndex) {
+		throw new BugIndicatingError(`Invalid array index "${key}"`);
+	}
+	return idx;
+}
+
+function normalizePath(path: StorePath): string[] {
+	return path.map(p => String(p));
+}
+
+function isObject(value: unknown): value is StoreContainer {
+	return typeof value === 'object' && value !== null;
+}
+
+function isPrefix(prefix: readonly string[], path: readonly string[]): boolean {
+	if (prefix.length > path.length) {
+		return false;
+	}
+	for (let i = 0; i < prefix.length; i++) {
+		if (prefix[i] !== path[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function isEqualPath(a: readonly string[], b: readonly string[]): boolean {
+	return a.length === b.length && isPrefix(a, b);
+}
+
+function toJsonPointer(path: readonly string[]): string {
+	return path.map(p => '/' + p.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
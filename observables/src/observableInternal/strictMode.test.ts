@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { derived, derivedDisposable, derivedHandleChanges, derivedOpts, derivedWithStore, IReader, observableValue, ObservableStrictMode, transaction } from './index';
+import { recordAutorunRuns } from './testing';
+
+describe('ObservableStrictMode', () => {
+	let reports: string[];
+
+	beforeEach(() => {
+		ObservableStrictMode.enable();
+		reports = [];
+		vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+			const err = args.find(a => a instanceof Error);
+			if (err && args[0] === 'Unexpected error:') {
+				reports.push((err as Error).message);
+			}
+		});
+	});
+
+	afterEach(() => {
+		ObservableStrictMode.disable();
+		vi.restoreAllMocks();
+	});
+
+	it('does not report correct usages', () => {
+		const value = observableValue('value', 1);
+		const doubled = derived(reader => value.read(reader) * 2);
+		const obj = derived(reader => ({ doubled: doubled.read(reader) }));
+		const recording = recordAutorunRuns(obj);
+
+		transaction(tx => value.set(2, tx));
+		value.set(3, undefined);
+
+		expect(recording.values).toEqual([{ doubled: 2 }, { doubled: 4 }, { doubled: 6 }]);
+		expect(reports).toEqual([]);
+		recording.dispose();
+	});
+
+	it('reports .get() inside a derived compute function', () => {
+		const value = observableValue('strictGetValue', 1);
+		const d = derivedOpts({ debugName: 'strictGetDerived' }, () => value.get());
+		const recording = recordAutorunRuns(d);
+
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toContain('"strictGetDerived" (created at ');
+		expect(reports[0]).toContain('called .get() on "strictGetValue" (created at ');
+		expect(reports[0]).toContain('strictMode.test.ts');
+		recording.dispose();
+	});
+
+	it('reports .set() inside a derived compute function', () => {
+		const source = observableValue('strictSource', 1);
+		const target = observableValue('strictTarget', 0);
+		const d = derivedOpts({ debugName: 'strictSetDerived' }, reader => {
+			const v = source.read(reader);
+			target.set(v, undefined);
+			return v;
+		});
+		const recording = recordAutorunRuns(d);
+
+		expect(reports.some(r => r.includes('"strictSetDerived"') && r.includes('set "strictTarget"'))).toBe(true);
+		recording.dispose();
+	});
+
+	it('reports up-to-date deriveds that would recompute to a different value', () => {
+		const tracked = observableValue('strictTracked', 1);
+		const untracked = { value: 1 };
+		const sum = derivedOpts({ debugName: 'strictSum' }, reader => tracked.read(reader) + untracked.value);
+		const recording = recordAutorunRuns(sum);
+
+		untracked.value = 2;
+		const unrelated = observableValue('unrelated', 0);
+		const d = recordAutorunRuns(unrelated);
+		unrelated.set(1, undefined);
+
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toContain('"strictSum"');
+		expect(reports[0]).toContain('cached: 2, recomputed: 3');
+
+		d.dispose();
+		recording.dispose();
+	});
+
+	it('does not recompute deriveds with a change tracker, an onLastObserverRemoved handler or a store', () => {
+		const value = observableValue('value', 1);
+		let computeCount = 0;
+		const computeFn = (reader: IReader) => {
+			computeCount++;
+			return { value: value.read(reader) };
+		};
+		const deriveds = [
+			derivedWithStore((reader, _store) => computeFn(reader)),
+			derived(reader => { reader.store.add({ dispose: () => { } }); return computeFn(reader); }),
+			derivedDisposable(reader => ({ ...computeFn(reader), dispose: () => { } })),
+			derivedOpts({ onLastObserverRemoved: () => { } }, computeFn),
+			derivedHandleChanges({ changeTracker: { createChangeSummary: () => undefined, handleChange: () => true } }, computeFn),
+		];
+		const recordings = deriveds.map(d => recordAutorunRuns(d));
+		const other = observableValue('other', 0);
+		const otherRecording = recordAutorunRuns(other);
+
+		other.set(1, undefined);
+		expect(computeCount).toBe(deriveds.length);
+		expect(reports).toEqual([]);
+
+		otherRecording.dispose();
+		recordings.forEach(r => r.dispose());
+	});
+});
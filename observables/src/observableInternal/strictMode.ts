@@ -0,0 +1,185 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { handleBugIndicatingErrorRecovery, IObservable } from './base';
+import { DebugLocation, ILocation } from './debugLocation';
+
+/**
+ * Opt-in checks that detect incorrect usages of observables.
+ * This is expensive and should only be enabled in tests or during development.
+ *
+ * - After a transaction, all observed and up-to-date deriveds are recomputed.
+ *   If the new value differs from the cached value, the derived missed a change (e.g. because it used `.get()`).
+ *   Deriveds with a change tracker (`derivedHandleChanges`), an `onLastObserverRemoved` handler or disposables
+ *   (`reader.store`, `derivedDisposable`) are not recomputed, as recomputing them would have side effects.
+ *   The same applies to compute functions that throw when they are recomputed this way.
+ * - Calling `.get()` on an observable inside a derived compute function is reported (use `.read(reader)` instead).
+ * - Calling `.set()` inside a derived compute function is reported.
+ *
+ * Violations are reported through {@link handleBugIndicatingErrorRecovery}.
+ */
+export namespace ObservableStrictMode {
+	let enabled = false;
+
+	/**
+	 * Also enables {@link DebugLocation}, so that violations can point to the creation of the offending observables.
+	 */
+	export function enable(): void {
+		enabled = true;
+		DebugLocation.enable();
+	}
+
+	export function disable(): void {
+		enabled = false;
+	}
+
+	export function isEnabled(): boolean {
+		return enabled;
+	}
+}
+
+/**
+ * Implemented by {@link Derived} to allow strict mode to verify its cached value.
+ */
+export interface IStrictModeCheckable {
+	readonly debugName: string;
+	readonly debugLocation: DebugLocation;
+	/**
+	 * Recomputes the value without changing any state.
+	 * Returns `undefined` if this is not possible (e.g. because the derived is not up to date or uses a store).
+	 */
+	strictModeRecompute(): { readonly cachedValue: unknown; readonly newValue: unknown; readonly isEqual: boolean } | undefined;
+}
+
+interface IComputation {
+	readonly owner: { readonly debugName: string; readonly debugLocation: DebugLocation };
+	readonly isDerived: boolean;
+	isReading: boolean;
+}
+
+const computationStack: IComputation[] = [];
+const observedDeriveds = new Set<IStrictModeCheckable>();
+
+export function strictModeHandleObservedChanged(derived: IStrictModeCheckable, isObserved: boolean): void {
+	if (!isObserved) {
+		observedDeriveds.delete(derived);
+	} else if (ObservableStrictMode.isEnabled()) {
+		observedDeriveds.add(derived);
+	}
+}
+
+/**
+ * Tracks that {@link fn} is the compute function of a derived (or the run function of an autorun).
+ */
+export function strictModeRunComputation<T>(owner: IComputation['owner'], isDerived: boolean, fn: () => T): T {
+	if (!ObservableStrictMode.isEnabled()) {
+		return fn();
+	}
+	computationStack.push({ owner, isDerived, isReading: false });
+	try {
+		return fn();
+	} finally {
+		computationStack.pop();
+	}
+}
+
+/**
+ * Tracks that {@link fn} reads an observable through a reader.
+ */
+export function strictModeRunRead<T>(fn: () => T): T {
+	const computation = ObservableStrictMode.isEnabled() ? computationStack[computationStack.length - 1] : undefined;
+	if (!computation || computation.isReading) {
+		return fn();
+	}
+	computation.isReading = true;
+	try {
+		return fn();
+	} finally {
+		computation.isReading = false;
+	}
+}
+
+export function strictModeCheckGet(observable: IObservable<any>, debugLocation: DebugLocation): void {
+	if (!ObservableStrictMode.isEnabled()) {
+		return;
+	}
+	const computation = computationStack[computationStack.length - 1];
+	if (computation && computation.isDerived && !computation.isReading) {
+		handleBugIndicatingErrorRecovery(
+			`Derived ${describe(computation.owner.debugName, computation.owner.debugLocation)} called .get() on ${describe(observable.debugName, debugLocation)} inside its compute function. Use .read(reader) instead, otherwise changes are missed.`
+		);
+	}
+}
+
+export function strictModeCheckSet(observable: IObservable<any>, debugLocation: DebugLocation): void {
+	if (!ObservableStrictMode.isEnabled()) {
+		return;
+	}
+	const computation = computationStack.find(c => c.isDerived);
+	if (computation) {
+		handleBugIndicatingErrorRecovery(
+			`Derived ${describe(computation.owner.debugName, computation.owner.debugLocation)} set ${describe(observable.debugName, debugLocation)} inside its compute function. Deriveds must not have side effects.`
+		);
+	}
+}
+
+/**
+ * Verifies that all observed up-to-date deriveds would recompute to an equal value.
+ */
+export function strictModeVerifyAfterTransaction(): void {
+	if (!ObservableStrictMode.isEnabled() || computationStack.length > 0) {
+		return;
+	}
+
+	for (const derived of [...observedDeriveds]) {
+		const result = derived.strictModeRecompute();
+		if (result && !result.isEqual && !structurallyEquals(result.cachedValue, result.newValue)) {
+			handleBugIndicatingErrorRecovery(
+				`Derived ${describe(derived.debugName, derived.debugLocation)} is up to date, but recomputing it gives a different value (cached: ${String(result.cachedValue)}, recomputed: ${String(result.newValue)}). Did it read an observable without its reader?`
+			);
+		}
+	}
+}
+
+function describe(debugName: string, debugLocation: DebugLocation): string {
+	return debugLocation ? `"${debugName}" (created at ${formatLocation(debugLocation)})` : `"${debugName}"`;
+}
+
+function formatLocation(location: ILocation): string {
+	return `${location.fileName}:${location.line}:${location.column}`;
+}
+
+/**
+ * Compares plain data (primitives, arrays and plain objects) structurally.
+ * Returns `true` for everything else, as class instances cannot be compared reliably.
+ */
+function structurallyEquals(a: unknown, b: unknown): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+		return typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b);
+	}
+	if (Array.isArray(a) || Array.isArray(b)) {
+		if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+			return false;
+		}
+		return a.every((item, idx) => structurallyEquals(item, b[idx]));
+	}
+	if (!isPlainObject(a) || !isPlainObject(b)) {
+		return true;
+	}
+	const keysA = Object.keys(a);
+	const keysB = Object.keys(b);
+	if (keysA.length !== keysB.length) {
+		return false;
+	}
+	return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && structurallyEquals((a as any)[key], (b as any)[key]));
+}
+
+function isPlainObject(value: object): boolean {
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,226 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, ISettableObservable } from './base';
+import { IDisposable } from './commonFacade/deps';
+import { DebugLocation } from './debugLocation';
+import { formatValue } from './logging/consoleObservableLogger';
+import { addLogger, IChangeInformation, IObservableLogger, removeLogger } from './logging/logging';
+import type { Derived } from './observables/derivedImpl';
+import { autorunOpts } from './reactions/autorun';
+import type { AutorunObserver } from './reactions/autorunImpl';
+import { TransactionImpl } from './transaction';
+import { debouncedObservable } from './utils/utils';
+
+/**
+ * Records the values an autorun sees when reading {@link recordAutorunRuns}'s observable.
+ */
+export class AutorunRunRecording<T> implements IDisposable {
+	private readonly _values: T[] = [];
+	private readonly _autorun: IDisposable;
+
+	constructor(observable: IObservable<T>) {
+		this._autorun = autorunOpts({ debugName: () => `recordAutorunRuns(${observable.debugName})` }, reader => {
+			this._values.push(observable.read(reader));
+		});
+	}
+
+	/**
+	 * The values of all runs, including the initial run.
+	 */
+	public get values(): readonly T[] { return this._values; }
+
+	public get runCount(): number { return this._values.length; }
+
+	/**
+	 * Returns the values recorded since the last call and clears them.
+	 */
+	public takeValues(): T[] {
+		return this._values.splice(0, this._values.length);
+	}
+
+	public dispose(): void {
+		this._autorun.dispose();
+	}
+}
+
+/**
+ * Creates an autorun that reads the given observable and records the value of every run.
+ * Keeps the observable observed until the recording is disposed.
+ */
+export function recordAutorunRuns<T>(observable: IObservable<T>): AutorunRunRecording<T> {
+	return new AutorunRunRecording(observable);
+}
+
+/**
+ * Runs {@link fn} and throws if {@link derived} did not recompute exactly {@link expected} times.
+ * Unobserved deriveds don't cache their value, so every `get()` of an unobserved derived counts as a recomputation.
+ */
+export function expectRecomputeCount(derived: IObservable<any>, expected: number, fn: () => void): void {
+	const recorder = new ObservableTestRecorder();
+	try {
+		fn();
+	} finally {
+		recorder.dispose();
+	}
+	const actual = recorder.getRecomputeCount(derived);
+	if (actual !== expected) {
+		throw new Error(`Expected ${derived.debugName} to recompute ${expected} time(s), but it recomputed ${actual} time(s).`);
+	}
+}
+
+/**
+ * Advances (fake) timers.
+ * With vitest, pass `ms => vi.advanceTimersByTime(ms)`.
+ */
+export type AdvanceTimersFn = (ms: number) => void;
+
+/**
+ * Drives a {@link debouncedObservable} of a settable source with fake timers.
+ * The debounced observable is kept observed, so that timers are scheduled.
+ */
+export class DebouncedObservableDriver<T> implements IDisposable {
+	public readonly debounced: IObservable<T>;
+	private readonly _recording: AutorunRunRecording<T>;
+
+	constructor(
+		public readonly source: ISettableObservable<T>,
+		public readonly debounceMs: number,
+		private readonly _advanceTimers: AdvanceTimersFn,
+	) {
+		this.debounced = debouncedObservable(source, debounceMs);
+		this._recording = recordAutorunRuns(this.debounced);
+	}
+
+	/**
+	 * All values the debounced observable reported so far, including the initial value.
+	 */
+	public get values(): readonly T[] { return this._recording.values; }
+
+	public set(value: T): void {
+		this.source.set(value, undefined);
+	}
+
+	/**
+	 * Advances the timers by the given time.
+	 */
+	public advance(ms: number): void {
+		this._advanceTimers(ms);
+	}
+
+	/**
+	 * Advances the timers by the debounce delay, so that pending values are reported.
+	 */
+	public flush(): void {
+		this._advanceTimers(this.debounceMs);
+	}
+
+	public dispose(): void {
+		this._recording.dispose();
+	}
+}
+
+/**
+ * Records what happens to observables, autoruns and transactions while it is not disposed.
+ * Events are recorded as human readable strings, which works well with (inline) snapshots.
+ */
+export class ObservableTestRecorder implements IObservableLogger, IDisposable {
+	private readonly _events: string[] = [];
+	private readonly _recomputeCounts = new Map<Derived<any>, number>();
+	private readonly _autorunRunCounts = new Map<AutorunObserver, number>();
+	private _disposed = false;
+
+	constructor() {
+		addLogger(this);
+	}
+
+	public dispose(): void {
+		if (!this._disposed) {
+			this._disposed = true;
+			removeLogger(this);
+		}
+	}
+
+	/**
+	 * Returns the events recorded since the last call and clears them.
+	 */
+	public takeEvents(): string[] {
+		return this._events.splice(0, this._events.length);
+	}
+
+	public getEvents(): readonly string[] {
+		return this._events;
+	}
+
+	/**
+	 * Returns how often the given derived recomputed while recording.
+	 * Is 0 for observables that are not deriveds.
+	 */
+	public getRecomputeCount(derived: IObservable<any>): number {
+		return this._recomputeCounts.get(derived as Derived<any>) ?? 0;
+	}
+
+	/**
+	 * Returns how often the given autorun ran while recording.
+	 */
+	public getAutorunRunCount(autorun: IDisposable): number {
+		return this._autorunRunCounts.get(autorun as AutorunObserver) ?? 0;
+	}
+
+	handleObservableCreated(observable: IObservable<any>, location: DebugLocation): void {
+	}
+
+	handleOnListenerCountChanged(observable: IObservable<any>, newCount: number): void {
+	}
+
+	handleObservableUpdated(observable: IObservable<any>, info: IChangeInformation): void {
+		if (info.didChange) {
+			this._events.push(`updated ${observable.debugName}: ${formatValue(info.oldValue, 50)} -> ${formatValue(info.newValue, 50)}`);
+		} else if (!info.hadValue) {
+			this._events.push(`computed ${observable.debugName}: ${formatValue(info.newValue, 50)}`);
+		} else {
+			this._events.push(`recomputed ${observable.debugName} (unchanged)`);
+		}
+	}
+
+	handleAutorunCreated(autorun: AutorunObserver, location: DebugLocation): void {
+	}
+
+	handleAutorunDisposed(autorun: AutorunObserver): void {
+	}
+
+	handleAutorunDependencyChanged(autorun: AutorunObserver, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleAutorunStarted(autorun: AutorunObserver): void {
+		this._autorunRunCounts.set(autorun, (this._autorunRunCounts.get(autorun) ?? 0) + 1);
+		this._events.push(`autorun ${autorun.debugName}`);
+	}
+
+	handleAutorunFinished(autorun: AutorunObserver): void {
+	}
+
+	handleDerivedDependencyChanged(derived: Derived<any>, observable: IObservable<any>, change: unknown): void {
+	}
+
+	handleDerivedCleared(observable: Derived<any>): void {
+		this._events.push(`cleared ${observable.debugName}`);
+	}
+
+	handleDerivedRecomputeStarted(derived: Derived<any>): void {
+		this._recomputeCounts.set(derived, this.getRecomputeCount(derived) + 1);
+	}
+
+	handleDerivedRecomputeFinished(derived: Derived<any>): void {
+	}
+
+	handleBeginTransaction(transaction: TransactionImpl): void {
+		this._events.push(`begin transaction ${transaction.getDebugName() ?? '(anonymous)'}`);
+	}
+
+	handleEndTransaction(transaction: TransactionImpl): void {
+		this._events.push(`end transaction ${transaction.getDebugName() ?? '(anonymous)'}`);
+	}
+}
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { asyncTransaction, autorun, derived, globalTransaction, observableValue, subtransaction, transaction } from './index';
+import { ObservableTestRecorder, recordAutorunRuns } from './testing';
+
+describe('transaction', () => {
+	it('batches updates until the transaction ends', () => {
+		const value = observableValue('value', 1);
+		const recording = recordAutorunRuns(value);
+
+		transaction(tx => {
+			value.set(2, tx);
+			value.set(3, tx);
+			expect(value.get()).toBe(3);
+			expect(recording.values).toEqual([1]);
+		});
+		expect(recording.values).toEqual([1, 3]);
+
+		recording.dispose();
+	});
+
+	it('does not rerun dependents of deriveds whose value was reset within the transaction', () => {
+		const value = observableValue('value', 1);
+		const doubled = derived(reader => value.read(reader) * 2);
+		const recording = recordAutorunRuns(doubled);
+
+		transaction(tx => {
+			value.set(2, tx);
+			value.set(1, tx);
+		});
+		expect(recording.values).toEqual([2]);
+
+		recording.dispose();
+	});
+
+	it('finishes the transaction if the function throws', () => {
+		const value = observableValue('value', 1);
+		const recording = recordAutorunRuns(value);
+
+		expect(() => transaction(tx => {
+			value.set(2, tx);
+			throw new Error('error');
+		})).toThrow('error');
+		expect(recording.values).toEqual([1, 2]);
+
+		recording.dispose();
+	});
+
+	it('reuses the given transaction in subtransaction', () => {
+		const value = observableValue('value', 1);
+		const recording = recordAutorunRuns(value);
+
+		transaction(tx => {
+			subtransaction(tx, tx => value.set(2, tx));
+			subtransaction(tx, tx => value.set(3, tx));
+		});
+		expect(recording.values).toEqual([1, 3]);
+
+		subtransaction(undefined, tx => value.set(4, tx));
+		expect(recording.values).toEqual([1, 3, 4]);
+
+		recording.dispose();
+	});
+
+	it('nests global transactions', () => {
+		const value = observableValue('value', 1);
+		const recording = recordAutorunRuns(value);
+
+		globalTransaction(tx1 => {
+			value.set(2, tx1);
+			globalTransaction(tx2 => {
+				expect(tx2).toBe(tx1);
+				value.set(3, tx2);
+			});
+			expect(recording.values).toEqual([1]);
+		});
+		expect(recording.values).toEqual([1, 3]);
+
+		recording.dispose();
+	});
+
+	it('keeps async transactions open until the promise settles', async () => {
+		const value = observableValue('value', 1);
+		const recording = recordAutorunRuns(value);
+
+		await asyncTransaction(async tx => {
+			value.set(2, tx);
+			await Promise.resolve();
+			expect(recording.values).toEqual([1]);
+			value.set(3, tx);
+		});
+		expect(recording.values).toEqual([1, 3]);
+
+		recording.dispose();
+	});
+
+	it('logs the debug name of the transaction', () => {
+		const value = observableValue('txValue', 1);
+		const d = autorun(reader => { value.read(reader); });
+
+		const recorder = new ObservableTestRecorder();
+		transaction(tx => value.set(2, tx), () => 'Rename');
+		recorder.dispose();
+
+		expect(recorder.getEvents()[0]).toBe('begin transaction Rename');
+		const events = recorder.getEvents();
+		expect(events[events.length - 1]).toBe('end transaction Rename');
+
+		d.dispose();
+	});
+});
@@ -6,6 +6,7 @@
 import { handleBugIndicatingErrorRecovery, IObservable, IObserver, ITransaction } from './base';
 import { getFunctionName } from './debugName';
 import { getLogger } from './logging/logging';
+import { ObservableStrictMode, strictModeVerifyAfterTransaction } from './strictMode';
 
 /**
  * Starts a transaction in which many observables can be changed at once.
@@ -60,6 +61,16 @@ export function subtransaction(tx: ITransaction | undefined, fn: (tx: ITransacti
 		fn(tx);
 	}
 } export class TransactionImpl implements ITransaction {
+	private static _currentlyUpdating: TransactionImpl | undefined = undefined;
+
+	/**
+	 * Returns the transaction that is currently calling {@link IObserver.beginUpdate} through {@link updateObserver}.
+	 * Observers can use this in `beginUpdate` to find out which transaction changed an observable.
+	 */
+	public static getCurrentlyUpdating(): TransactionImpl | undefined {
+		return TransactionImpl._currentlyUpdating;
+	}
+
 	private _updatingObservers: { observer: IObserver; observable: IObservable<any> }[] | null = [];
 
 	constructor(public readonly _fn: Function, private readonly _getDebugName?: () => string) {
@@ -87,7 +98,13 @@ export function subtransaction(tx: ITransaction | undefined, fn: (tx: ITransacti
 
 		// When this gets called while finish is active, they will still get considered
 		this._updatingObservers.push({ observer, observable });
-		observer.beginUpdate(observable);
+		const previous = TransactionImpl._currentlyUpdating;
+		TransactionImpl._currentlyUpdating = this;
+		try {
+			observer.beginUpdate(observable);
+		} finally {
+			TransactionImpl._currentlyUpdating = previous;
+		}
 	}
 
 	public finish(): void {
@@ -104,6 +121,10 @@ export function subtransaction(tx: ITransaction | undefined, fn: (tx: ITransacti
 		// Prevent anyone from updating observers from now on.
 		this._updatingObservers = null;
 		getLogger()?.handleEndTransaction(this);
+
+		if (ObservableStrictMode.isEnabled()) {
+			strictModeVerifyAfterTransaction();
+		}
 	}
 
 	public debugGetUpdatingObservers() {
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { CancellationToken } from '../commonFacade/cancellation';
+import { AsyncState, derivedAsync, observableValue } from '../index';
+import { recordAutorunRuns } from '../testing';
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+	return { promise, resolve, reject };
+}
+
+function describeState<T>(state: AsyncState<T>): string {
+	return `${state.kind} ${String(state.value ?? state.error ?? '')} (last: ${String(state.lastValue)})`.trimEnd();
+}
+
+describe('derivedAsync', () => {
+	it('reports loading, resolved and rejected states', async () => {
+		const input = observableValue('input', 1);
+		const runs = new Map<number, ReturnType<typeof deferred<string>>>();
+		const obs = derivedAsync(reader => {
+			const value = input.read(reader);
+			const d = deferred<string>();
+			runs.set(value, d);
+			return d.promise;
+		});
+		const recording = recordAutorunRuns(obs);
+
+		runs.get(1)!.resolve('one');
+		await Promise.resolve();
+		input.set(2, undefined);
+		runs.get(2)!.reject('boom');
+		await Promise.resolve();
+
+		expect(recording.values.map(describeState)).toEqual([
+			'loading  (last: undefined)',
+			'resolved one (last: one)',
+			'loading  (last: one)',
+			'rejected boom (last: one)',
+		]);
+
+		recording.dispose();
+	});
+
+	it('cancels the previous run when dependencies change and when it is no longer observed', async () => {
+		const input = observableValue('input', 1);
+		const tokens: CancellationToken[] = [];
+		const resolvers: (() => void)[] = [];
+		const obs = derivedAsync((reader, token) => {
+			const value = input.read(reader);
+			tokens.push(token);
+			return new Promise<number>(resolve => resolvers.push(() => resolve(value)));
+		});
+		const recording = recordAutorunRuns(obs);
+
+		input.set(2, undefined);
+		expect(tokens.map(t => t.isCancellationRequested)).toEqual([true, false]);
+
+		// Cancelled runs don't update the state
+		resolvers[0]();
+		await Promise.resolve();
+		expect(obs.get().kind).toBe('loading');
+
+		resolvers[1]();
+		await Promise.resolve();
+		expect(obs.get().value).toBe(2);
+
+		recording.dispose();
+		expect(tokens[1].isCancellationRequested).toBe(true);
+	});
+
+	it('returns a loading state when read without observers', () => {
+		const tokens: CancellationToken[] = [];
+		const obs = derivedAsync((_reader, token) => {
+			tokens.push(token);
+			return Promise.resolve(1);
+		});
+
+		expect(obs.get().kind).toBe('loading');
+		expect(tokens).toHaveLength(1);
+		expect(tokens[0].isCancellationRequested).toBe(true);
+	});
+});
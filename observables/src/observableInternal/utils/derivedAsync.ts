@@ -0,0 +1,148 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IReader } from '../base';
+import { CancellationToken, CancellationTokenSource } from '../commonFacade/cancellation';
+import { strictEquals } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
+import { DebugNameData, DebugOwner } from '../debugName';
+import { Derived } from '../observables/derivedImpl';
+import { observableValue } from '../observables/observableValue';
+import { transaction } from '../transaction';
+import { PromiseResult } from './promise';
+
+export type AsyncStateKind = 'loading' | 'resolved' | 'rejected';
+
+/**
+ * The state of an asynchronous computation (see {@link derivedAsync}).
+ */
+export class AsyncState<T> {
+	public static loading<T>(lastValue: T | undefined): AsyncState<T> {
+		return new AsyncState<T>('loading', undefined, lastValue);
+	}
+
+	public static fromResult<T>(result: PromiseResult<T>, lastValue: T | undefined): AsyncState<T> {
+		if (result.error !== undefined) {
+			return new AsyncState<T>('rejected', result, lastValue);
+		}
+		return new AsyncState<T>('resolved', result, result.data);
+	}
+
+	private constructor(
+		public readonly kind: AsyncStateKind,
+
+		/**
+		 * The result of the latest computation.
+		 * Undefined while loading.
+		 */
+		public readonly result: PromiseResult<T> | undefined,
+
+		/**
+		 * The value of the latest computation that resolved.
+		 * Stays available while a new computation is loading or after it rejected.
+		 */
+		public readonly lastValue: T | undefined,
+	) { }
+
+	public equals(other: AsyncState<T>): boolean {
+		return this.kind === other.kind && this.result === other.result && this.lastValue === other.lastValue;
+	}
+
+	public get isLoading(): boolean {
+		return this.kind === 'loading';
+	}
+
+	/**
+	 * The value of the latest computation if it resolved, otherwise undefined.
+	 */
+	public get value(): T | undefined {
+		return this.kind === 'resolved' ? this.result!.data : undefined;
+	}
+
+	/**
+	 * The error of the latest computation if it rejected, otherwise undefined.
+	 */
+	public get error(): unknown | undefined {
+		return this.kind === 'rejected' ? this.result!.error : undefined;
+	}
+}
+
+class AsyncRun<T> {
+	private readonly _result = observableValue<PromiseResult<T> | undefined>(this, undefined);
+
+	public readonly result: IObservable<PromiseResult<T> | undefined> = this._result;
+
+	constructor(promise: Promise<T>, token: CancellationToken) {
+		promise.then(value => {
+			if (token.isCancellationRequested) { return; }
+			transaction(tx => {
+				/** @description derivedAsync: resolved */
+				this._result.set(new PromiseResult(value, undefined), tx);
+			});
+		}, error => {
+			if (token.isCancellationRequested) { return; }
+			transaction(tx => {
+				/** @description derivedAsync: rejected */
+				this._result.set(new PromiseResult<T>(undefined, error ?? new Error('Promise rejected without reason')), tx);
+			});
+		});
+	}
+}
+
+type AsyncComputeFn<T> = (reader: IReader, cancellationToken: CancellationToken) => Promise<T>;
+
+/**
+ * Creates an observable that runs the given async function and reports its state.
+ *
+ * Only observables that are read before the first `await` are tracked (the reader cannot be used afterwards).
+ * When one of them changes, the cancellation token of the current run is cancelled and the function runs again.
+ * While the new run is loading, {@link AsyncState.lastValue} still provides the last resolved value.
+ *
+ * The function only runs while the returned observable is observed.
+ * Thus, `get()` on an unobserved observable always returns a loading state:
+ * the run it starts is cancelled as soon as `get()` returns.
+ */
+export function derivedAsync<T>(computeFn: AsyncComputeFn<T>): IObservable<AsyncState<T>>;
+export function derivedAsync<T>(owner: DebugOwner, computeFn: AsyncComputeFn<T>): IObservable<AsyncState<T>>;
+export function derivedAsync<T>(...args: [computeFn: AsyncComputeFn<T>] | [owner: DebugOwner, computeFn: AsyncComputeFn<T>]): IObservable<AsyncState<T>> {
+	const [owner, computeFn] = args.length === 1 ? [undefined, args[0]] : args;
+	const debugLocation = DebugLocation.ofCaller();
+
+	let cancellationTokenSource: CancellationTokenSource | undefined = undefined;
+	const currentRun = new Derived(
+		new DebugNameData(owner, undefined, computeFn),
+		r => {
+			cancellationTokenSource?.dispose();
+			cancellationTokenSource = new CancellationTokenSource();
+			let promise: Promise<T>;
+			try {
+				promise = computeFn(r, cancellationTokenSource.token);
+			} catch (e) {
+				promise = Promise.reject(e);
+			}
+			return new AsyncRun(promise, cancellationTokenSource.token);
+		}, undefined,
+		() => {
+			cancellationTokenSource?.dispose();
+			cancellationTokenSource = undefined;
+		},
+		strictEquals,
+		debugLocation
+	);
+
+	let lastValue: T | undefined = undefined;
+	return new Derived(
+		new DebugNameData(owner, undefined, computeFn),
+		reader => {
+			const result = currentRun.read(reader).result.read(reader);
+			const state = result ? AsyncState.fromResult(result, lastValue) : AsyncState.loading(lastValue);
+			lastValue = state.lastValue;
+			return state;
+		}, undefined,
+		undefined,
+		(a, b) => a.equals(b),
+		debugLocation
+	);
+}
@@ -0,0 +1,77 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable } from '../base';
+import { DebugLocation } from '../debugLocation';
+import { observableFromDomEvent } from '../observables/observableFromDomEvent';
+import { observableFromEventOpts } from '../observables/observableFromEvent';
+
+/**
+ * Tracks whether the media query matches (e.g. `(prefers-color-scheme: dark)`).
+ */
+export function observableMediaQuery(query: string, targetWindow: Window = window, debugLocation = DebugLocation.ofCaller()): IObservable<boolean> {
+	const mediaQueryList = targetWindow.matchMedia(query);
+	return observableFromDomEvent(mediaQueryList, 'change', () => mediaQueryList.matches, {}, debugLocation);
+}
+
+export interface IElementSize {
+	readonly width: number;
+	readonly height: number;
+}
+
+/**
+ * Tracks the border box size of the element with a `ResizeObserver`.
+ * When not observed, the size is measured with `getBoundingClientRect`.
+ */
+export function observableElementSize(element: Element, debugLocation = DebugLocation.ofCaller()): IObservable<IElementSize> {
+	return observableFromEventOpts<IElementSize, ResizeObserverEntry>(
+		{
+			debugName: 'elementSize',
+			equalsFn: (a, b) => a.width === b.width && a.height === b.height,
+		},
+		listener => {
+			const resizeObserver = new ResizeObserver(entries => {
+				listener(entries[entries.length - 1]);
+			});
+			resizeObserver.observe(element, { box: 'border-box' });
+			return {
+				dispose() {
+					resizeObserver.disconnect();
+				},
+			};
+		},
+		entry => {
+			const borderBoxSize = entry?.borderBoxSize?.[0];
+			if (borderBoxSize) {
+				return { width: borderBoxSize.inlineSize, height: borderBoxSize.blockSize };
+			}
+			const rect = element.getBoundingClientRect();
+			return { width: rect.width, height: rect.height };
+		},
+		debugLocation
+	);
+}
+
+/**
+ * Tracks whether the window has focus (`document.hasFocus()`).
+ */
+export function observableWindowFocus(targetWindow: Window = window, debugLocation = DebugLocation.ofCaller()): IObservable<boolean> {
+	return observableFromEventOpts<boolean, void>(
+		{ debugName: 'windowFocus' },
+		listener => {
+			const handler = () => listener();
+			targetWindow.addEventListener('focus', handler);
+			targetWindow.addEventListener('blur', handler);
+			return {
+				dispose() {
+					targetWindow.removeEventListener('focus', handler);
+					targetWindow.removeEventListener('blur', handler);
+				},
+			};
+		},
+		() => targetWindow.document.hasFocus(),
+		debugLocation
+	);
+}
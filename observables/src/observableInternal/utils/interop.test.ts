@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, expect, it } from 'vitest';
+import { derived, fromRxObservable, observableFromEvent, IInteropObserver, IInteropSubscribable, ObservableArray, observableValue, symbolObservable, toAsyncIterable, toRxObservable, toRxObservableWithChanges, transaction } from '../index';
+import { recordAutorunRuns } from '../testing';
+
+/** A minimal stand-in for an RxJS `Subject`. */
+class TestSubject<T> implements IInteropSubscribable<T> {
+	public readonly observers = new Set<Partial<IInteropObserver<T>>>();
+
+	public subscribe(observer: Partial<IInteropObserver<T>>) {
+		this.observers.add(observer);
+		return { unsubscribe: () => this.observers.delete(observer) };
+	}
+
+	public next(value: T): void {
+		for (const o of [...this.observers]) {
+			o.next?.(value);
+		}
+	}
+}
+
+function createCountingObservable<T>(initialValue: T) {
+	let value = initialValue;
+	let subscriptions = 0;
+	let fire: (e: unknown) => void = () => { };
+	const observable = observableFromEvent(cb => {
+		subscriptions++;
+		fire = cb;
+		return { dispose: () => subscriptions-- };
+	}, () => value);
+	return {
+		observable,
+		get subscriptions() { return subscriptions; },
+		set(newValue: T) {
+			value = newValue;
+			fire(undefined);
+		},
+	};
+}
+
+describe('interop', () => {
+	it('toRxObservable emits the current value and changes while subscribed', () => {
+		const source = createCountingObservable(1);
+		const doubled = derived(reader => source.observable.read(reader) * 2);
+		const values: number[] = [];
+		const rx = toRxObservable(doubled);
+		expect(source.subscriptions).toBe(0);
+
+		const subscription = rx.subscribe(v => values.push(v));
+		source.set(2);
+		source.set(4);
+		expect(values).toEqual([2, 4, 8]);
+		expect(source.subscriptions).toBe(1);
+
+		subscription.unsubscribe();
+		expect(subscription.closed).toBe(true);
+		expect(source.subscriptions).toBe(0);
+	});
+
+	it('toRxObservable forwards errors and ends the subscription', () => {
+		const failing = derived<number>(() => {
+			throw new Error('failed');
+		});
+		const log: string[] = [];
+		const subscription = toRxObservable(failing).subscribe({
+			next: v => log.push(`next ${v}`),
+			error: e => log.push(`error ${(e as Error).message}`),
+		});
+
+		expect(log).toEqual(['error failed']);
+		expect(subscription.closed).toBe(true);
+	});
+
+	it('toRxObservableWithChanges forwards change deltas', () => {
+		const array = new ObservableArray<string>();
+		const values: unknown[] = [];
+		const subscription = toRxObservableWithChanges(array.observable).subscribe(v => values.push({ value: [...v.value], changes: v.changes }));
+
+		transaction(tx => {
+			array.push('a', tx);
+			array.push('b', tx);
+		});
+		expect(values).toEqual([
+			{ value: [], changes: [] },
+			{
+				value: ['a', 'b'], changes: [
+					{ start: 0, deleteCount: 0, items: ['a'] },
+					{ start: 1, deleteCount: 0, items: ['b'] },
+				]
+			},
+		]);
+		subscription.unsubscribe();
+	});
+
+	it('observables implement the interop symbol', () => {
+		const value = observableValue('value', 1);
+		const interop = (value as any)[symbolObservable]();
+		expect(interop[symbolObservable]()).toBe(interop);
+
+		const values: number[] = [];
+		const subscription = interop.subscribe({ next: (v: number) => values.push(v) });
+		value.set(2, undefined);
+		subscription.unsubscribe();
+		expect(values).toEqual([1, 2]);
+	});
+
+	it('fromRxObservable only subscribes while observed', () => {
+		const subject = new TestSubject<number>();
+		const obs = fromRxObservable(subject, 0);
+		expect(obs.get()).toBe(0);
+		expect(subject.observers.size).toBe(0);
+
+		const recording = recordAutorunRuns(obs);
+		expect(subject.observers.size).toBe(1);
+		subject.next(1);
+		subject.next(2);
+		expect(recording.values).toEqual([0, 1, 2]);
+
+		recording.dispose();
+		expect(subject.observers.size).toBe(0);
+		expect(obs.get()).toBe(0);
+	});
+
+	it('toAsyncIterable yields distinct values and unsubscribes when the iteration ends', async () => {
+		const source = createCountingObservable(1);
+		const iterator = toAsyncIterable(source.observable)[Symbol.asyncIterator]();
+		expect(source.subscriptions).toBe(0);
+
+		expect(await iterator.next()).toEqual({ value: 1, done: false });
+		expect(source.subscriptions).toBe(1);
+		source.set(2);
+		source.set(3);
+		expect(await iterator.next()).toEqual({ value: 2, done: false });
+		expect(await iterator.next()).toEqual({ value: 3, done: false });
+
+		const next = iterator.next();
+		source.set(4);
+		expect(await next).toEqual({ value: 4, done: false });
+
+		await iterator.return!();
+		expect(source.subscriptions).toBe(0);
+	});
+});
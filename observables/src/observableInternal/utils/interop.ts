@@ -0,0 +1,219 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IObservable, IObservableWithChange } from '../base';
+import { collectChanges } from '../changeTracker';
+import { IDisposable, onUnexpectedError } from '../commonFacade/deps';
+import { _setToRxObservable, symbolObservable } from '../observables/baseObservable';
+import { observableFromEvent } from '../observables/observableFromEvent';
+import { autorunHandleChanges } from '../reactions/autorun';
+
+export { symbolObservable };
+
+/**
+ * An observer as used by RxJS and the TC39 Observable proposal.
+ */
+export interface IInteropObserver<T> {
+	next(value: T): void;
+	error(error: unknown): void;
+	complete(): void;
+}
+
+export interface IInteropSubscription {
+	readonly closed: boolean;
+	unsubscribe(): void;
+}
+
+/**
+ * The part of an RxJS (or TC39) observable that is needed to subscribe to it.
+ */
+export interface IInteropSubscribable<T> {
+	subscribe(observer: Partial<IInteropObserver<T>>): { unsubscribe(): void };
+}
+
+/**
+ * Can be passed to RxJS `from`, or be subscribed to directly.
+ */
+export interface IInteropObservable<T> extends IInteropSubscribable<T> {
+	subscribe(observer?: Partial<IInteropObserver<T>> | ((value: T) => void)): IInteropSubscription;
+}
+
+export interface IValueWithChanges<T, TChange> {
+	readonly value: T;
+	/**
+	 * The change deltas that were reported since the previous value. Empty for the first value.
+	 */
+	readonly changes: readonly TChange[];
+}
+
+class InteropObservable<T> implements IInteropObservable<T> {
+	constructor(
+		private readonly _subscribe: (observer: Partial<IInteropObserver<T>>) => IDisposable,
+	) { }
+
+	public subscribe(observerOrNext?: Partial<IInteropObserver<T>> | ((value: T) => void)): IInteropSubscription {
+		const observer = typeof observerOrNext === 'function' ? { next: observerOrNext } : (observerOrNext ?? {});
+		let closed = false;
+		let subscription: IDisposable | undefined = undefined;
+		subscription = this._subscribe({
+			next: value => {
+				if (!closed) {
+					observer.next?.(value);
+				}
+			},
+			error: error => {
+				if (closed) {
+					return;
+				}
+				closed = true;
+				subscription?.dispose();
+				if (observer.error) {
+					observer.error(error);
+				} else {
+					onUnexpectedError(error);
+				}
+			},
+		});
+		if (closed) {
+			subscription.dispose();
+		}
+		return {
+			get closed() { return closed; },
+			unsubscribe() {
+				if (!closed) {
+					closed = true;
+					subscription!.dispose();
+				}
+			},
+		};
+	}
+
+	public [symbolObservable](): IInteropObservable<T> {
+		return this;
+	}
+}
+
+/**
+ * Converts the observable into an RxJS/TC39 compatible observable that emits the current value on subscription and then every change.
+ * The observable is only observed while there are subscriptions.
+ * An error thrown while reading the observable is forwarded to the subscriber and ends the subscription.
+ */
+export function toRxObservable<T>(observable: IObservable<T>): IInteropObservable<T> {
+	return new InteropObservable<T>(observer => subscribeWithChanges(observable, (value) => observer.next!(value), observer));
+}
+
+/**
+ * Like {@link toRxObservable}, but also emits the change deltas that led to each value.
+ */
+export function toRxObservableWithChanges<T, TChange>(observable: IObservableWithChange<T, TChange>): IInteropObservable<IValueWithChanges<T, TChange>> {
+	return new InteropObservable<IValueWithChanges<T, TChange>>(observer => subscribeWithChanges(observable, (value, changes) => observer.next!({ value, changes }), observer));
+}
+
+_setToRxObservable(toRxObservable);
+
+function subscribeWithChanges<T, TChange>(
+	observable: IObservableWithChange<T, TChange>,
+	handleValue: (value: T, changes: readonly TChange[]) => void,
+	observer: Partial<IInteropObserver<unknown>>
+): IDisposable {
+	const d = autorunHandleChanges({
+		debugName: 'toRxObservable',
+		changeTracker: collectChanges(observable),
+	}, (reader, changes) => {
+		let value: T;
+		try {
+			value = observable.read(reader);
+		} catch (e) {
+			observer.error!(e);
+			return;
+		}
+		handleValue(value, changes);
+	});
+	return d;
+}
+
+/**
+ * Creates an observable that has the last value emitted by the RxJS/TC39 observable, or `initialValue` if it did not emit yet.
+ * Like `observableFromEvent`, it only subscribes to `observable` while it is observed itself
+ * (and has `initialValue` again after it is no longer observed).
+ * Errors of `observable` are reported to `onUnexpectedError`.
+ */
+export function fromRxObservable<T>(observable: IInteropSubscribable<T>, initialValue: T): IObservable<T> {
+	let hasValue = false;
+	let lastValue: T | undefined;
+
+	return observableFromEvent<T, void>(cb => {
+		const subscription = observable.subscribe({
+			next: value => {
+				hasValue = true;
+				lastValue = value;
+				cb();
+			},
+			error: e => onUnexpectedError(e),
+		});
+		return {
+			dispose() {
+				subscription.unsubscribe();
+				hasValue = false;
+				lastValue = undefined;
+			},
+		};
+	}, () => {
+		if (hasValue) {
+			return lastValue!;
+		} else {
+			return initialValue;
+		}
+	});
+}
+
+/**
+ * Iterates over the current value of the observable and each following distinct value.
+ * The observable is observed from the first `next` call until the iteration ends.
+ * Values are queued if the consumer is slower than the observable.
+ */
+export function toAsyncIterable<T>(observable: IObservable<T>): AsyncIterable<T> {
+	return {
+		[Symbol.asyncIterator]: () => iterateValues(observable),
+	};
+}
+
+async function* iterateValues<T>(observable: IObservable<T>): AsyncGenerator<T, void, undefined> {
+	const queue: T[] = [];
+	let hasLastValue = false;
+	let lastValue: T | undefined;
+	let error: { error: unknown } | undefined;
+	let wakeUp: (() => void) | undefined;
+
+	const subscription = toRxObservable(observable).subscribe({
+		next: value => {
+			if (hasLastValue && lastValue === value) {
+				return;
+			}
+			hasLastValue = true;
+			lastValue = value;
+			queue.push(value);
+			wakeUp?.();
+		},
+		error: e => {
+			error = { error: e };
+			wakeUp?.();
+		},
+	});
+	try {
+		while (true) {
+			while (queue.length > 0) {
+				yield queue.shift()!;
+			}
+			if (error) {
+				throw error.error;
+			}
+			await new Promise<void>(resolve => wakeUp = resolve);
+			wakeUp = undefined;
+		}
+	} finally {
+		subscription.unsubscribe();
+	}
+}
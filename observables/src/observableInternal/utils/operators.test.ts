@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { bufferedChanges, combineLatest, derived, distinctUntilChanged, ObservableArray, observableSignal, observableValue, runOnChange, sampledObservable, scanObservable, throttledObservable, transaction } from '../index';
+import { recordAutorunRuns } from '../testing';
+
+describe('operators', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('throttledObservable forwards the leading and the trailing value', () => {
+		const value = observableValue('value', 0);
+		const throttled = throttledObservable(value, 100);
+		const recording = recordAutorunRuns(throttled);
+
+		value.set(1, undefined);
+		value.set(2, undefined);
+		value.set(3, undefined);
+		expect(recording.values).toEqual([0, 1]);
+
+		vi.advanceTimersByTime(100);
+		expect(recording.values).toEqual([0, 1, 3]);
+
+		vi.advanceTimersByTime(100);
+		value.set(4, undefined);
+		expect(recording.values).toEqual([0, 1, 3, 4]);
+		recording.dispose();
+
+		value.set(5, undefined);
+		expect(throttled.get()).toBe(5);
+	});
+
+	it('throttledObservable forwards the change deltas of the throttle period', () => {
+		const array = new ObservableArray<number>();
+		const log: unknown[] = [];
+		const d = runOnChange(throttledObservable(array.observable, 100), (value, _previous, changes) => {
+			log.push({ value: [...value], changes });
+		});
+
+		array.push(1, undefined);
+		array.push(2, undefined);
+		array.push(3, undefined);
+		vi.advanceTimersByTime(100);
+		expect(log).toEqual([
+			{ value: [1], changes: [{ start: 0, deleteCount: 0, items: [1] }] },
+			{ value: [1, 2, 3], changes: [{ start: 1, deleteCount: 0, items: [2] }, { start: 2, deleteCount: 0, items: [3] }] },
+		]);
+		d.dispose();
+	});
+
+	it('sampledObservable only changes when the signal changes', () => {
+		const value = observableValue('value', 0);
+		const signal = observableSignal('signal');
+		const recording = recordAutorunRuns(sampledObservable(value, signal));
+
+		value.set(1, undefined);
+		value.set(2, undefined);
+		expect(recording.values).toEqual([0]);
+
+		signal.trigger(undefined);
+		expect(recording.values).toEqual([0, 2]);
+		recording.dispose();
+	});
+
+	it('sampledObservable forwards the change deltas since the last sample', () => {
+		const array = new ObservableArray<number>();
+		const signal = observableSignal('signal');
+		const log: unknown[] = [];
+		const d = runOnChange(sampledObservable(array.observable, signal), (value, _previous, changes) => {
+			log.push({ value: [...value], changes });
+		});
+
+		array.push(1, undefined);
+		array.push(2, undefined);
+		expect(log).toEqual([]);
+
+		signal.trigger(undefined);
+		signal.trigger(undefined);
+		expect(log).toEqual([
+			{ value: [1, 2], changes: [{ start: 0, deleteCount: 0, items: [1] }, { start: 1, deleteCount: 0, items: [2] }] },
+		]);
+		d.dispose();
+	});
+
+	it('bufferedChanges collects the change deltas of a period', () => {
+		const array = new ObservableArray<number>();
+		const buffered = bufferedChanges(array.observable, 50);
+		const recording = recordAutorunRuns(buffered);
+
+		array.push(1, undefined);
+		array.push(2, undefined);
+		expect(recording.values).toEqual([[]]);
+
+		vi.advanceTimersByTime(50);
+		expect(recording.values).toEqual([[], [
+			{ start: 0, deleteCount: 0, items: [1] },
+			{ start: 1, deleteCount: 0, items: [2] },
+		]]);
+		recording.dispose();
+		expect(buffered.get()).toEqual([]);
+	});
+
+	it('scanObservable accumulates values and resets when unobserved', () => {
+		const value = observableValue('value', 1);
+		const sum = scanObservable(value, (acc, v) => acc + v, 100);
+		const recording = recordAutorunRuns(sum);
+
+		value.set(2, undefined);
+		transaction(tx => {
+			value.set(3, tx);
+			value.set(4, tx);
+		});
+		expect(recording.values).toEqual([101, 103, 107]);
+		recording.dispose();
+
+		expect(sum.get()).toBe(104);
+	});
+
+	it('combineLatest combines values and reports keyed deltas', () => {
+		const a = observableValue('a', 1);
+		const b = new ObservableArray<string>();
+		const combined = combineLatest({ a, b: b.observable });
+		const log: unknown[] = [];
+		const d = runOnChange(combined, (value, _previous, changes) => {
+			log.push({ a: value.a, b: [...value.b], changes });
+		});
+
+		transaction(tx => {
+			a.set(2, tx);
+			b.push('x', tx);
+		});
+		expect(log).toEqual([{
+			a: 2,
+			b: ['x'],
+			changes: [[
+				{ key: 'a', change: undefined },
+				{ key: 'b', change: { start: 0, deleteCount: 0, items: ['x'] } },
+			]],
+		}]);
+		d.dispose();
+	});
+
+	it('distinctUntilChanged ignores equal values', () => {
+		const value = observableValue('value', { id: 1, label: 'a' });
+		const distinct = distinctUntilChanged(value, (x, y) => x.id === y.id);
+		const labels = derived(reader => distinct.read(reader).label);
+		const recording = recordAutorunRuns(labels);
+
+		value.set({ id: 1, label: 'b' }, undefined);
+		expect(recording.values).toEqual(['a']);
+
+		value.set({ id: 2, label: 'c' }, undefined);
+		expect(recording.values).toEqual(['a', 'c']);
+		recording.dispose();
+	});
+});
@@ -0,0 +1,309 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+type Timeout = ReturnType<typeof setTimeout>;
+
+import { IObservable, IObservableWithChange } from '../base';
+import { collectChanges } from '../changeTracker';
+import { EqualityComparer } from '../commonFacade/deps';
+import { derivedHandleChanges } from '../observables/derived';
+import { observableFromEvent } from '../observables/observableFromEvent';
+import { autorunHandleChanges } from '../reactions/autorun';
+
+const emptyChanges: readonly never[] = [];
+
+/**
+ * Creates an observable that forwards the first change immediately and then at most one change every `throttleMs`.
+ * The last value of a throttled change is forwarded when the throttle period ends, together with all change deltas of the period.
+ * Like `debouncedObservable`, it only subscribes to `observable` while it is observed itself.
+ */
+export function throttledObservable<T, TChange>(observable: IObservableWithChange<T, TChange>, throttleMs: number): IObservableWithChange<T, TChange> {
+	let hasValue = false;
+	let last: IValueWithChanges<T, TChange> | undefined;
+
+	let timeout: Timeout | undefined = undefined;
+	let hasPendingValue = false;
+	let pendingValue: T | undefined;
+	let pendingChanges: TChange[] = [];
+
+	return reportChangesOf('throttledObservable', observableFromEvent<IValueWithChanges<T, TChange>, void>(cb => {
+		const startThrottling = () => {
+			timeout = setTimeout(() => {
+				timeout = undefined;
+				if (hasPendingValue) {
+					last = { value: pendingValue!, changes: pendingChanges };
+					hasPendingValue = false;
+					pendingValue = undefined;
+					pendingChanges = [];
+					cb();
+					startThrottling();
+				}
+			}, throttleMs);
+		};
+
+		const d = autorunHandleChanges({
+			changeTracker: collectChanges(observable),
+		}, (reader, changes) => {
+			const value = observable.read(reader);
+
+			if (!hasValue) {
+				hasValue = true;
+				last = { value, changes: emptyChanges };
+			} else if (timeout === undefined) {
+				last = { value, changes };
+				cb();
+				startThrottling();
+			} else {
+				hasPendingValue = true;
+				pendingValue = value;
+				pendingChanges.push(...changes);
+			}
+		});
+		return {
+			dispose() {
+				d.dispose();
+				if (timeout !== undefined) {
+					clearTimeout(timeout);
+					timeout = undefined;
+				}
+				hasValue = false;
+				last = undefined;
+				hasPendingValue = false;
+				pendingValue = undefined;
+				pendingChanges = [];
+			},
+		};
+	}, () => {
+		if (hasValue) {
+			return last!;
+		} else {
+			return { value: observable.get(), changes: emptyChanges };
+		}
+	}));
+}
+
+/**
+ * Creates an observable that takes the value of `observable` whenever `signal` changes.
+ * Changes of `observable` alone don't change the sampled observable, their change deltas are forwarded with the next sample.
+ */
+export function sampledObservable<T, TChange>(observable: IObservableWithChange<T, TChange>, signal: IObservableWithChange<unknown, unknown>): IObservableWithChange<T, TChange> {
+	let hasValue = false;
+	let last: IValueWithChanges<T, TChange> | undefined;
+
+	return reportChangesOf('sampledObservable', observableFromEvent<IValueWithChanges<T, TChange>, void>(cb => {
+		const d = autorunHandleChanges({
+			changeTracker: {
+				createChangeSummary: (): TChange[] => [],
+				handleChange(ctx, changes) {
+					if (ctx.didChange(observable)) {
+						changes.push(ctx.change);
+					}
+					return ctx.didChange(signal);
+				},
+			},
+		}, (reader, changes) => {
+			signal.read(reader);
+			const value = observable.read(reader);
+
+			if (!hasValue) {
+				hasValue = true;
+				last = { value, changes: emptyChanges };
+			} else {
+				last = { value, changes };
+				cb();
+			}
+		});
+		return {
+			dispose() {
+				d.dispose();
+				hasValue = false;
+				last = undefined;
+			},
+		};
+	}, () => {
+		if (hasValue) {
+			return last!;
+		} else {
+			return { value: observable.get(), changes: emptyChanges };
+		}
+	}));
+}
+
+interface IValueWithChanges<T, TChange> {
+	readonly value: T;
+	/** The change deltas since the previous value. */
+	readonly changes: readonly TChange[];
+}
+
+/**
+ * Unwraps the value of `observable` and reports its change deltas.
+ */
+function reportChangesOf<T, TChange>(debugName: string, observable: IObservable<IValueWithChanges<T, TChange>>): IObservableWithChange<T, TChange> {
+	return derivedHandleChanges<T, TChange, void>({
+		debugName,
+		changeTracker: {
+			createChangeSummary: () => undefined,
+			handleChange: () => true,
+		},
+	}, reader => {
+		const { value, changes } = observable.read(reader);
+		for (const change of changes) {
+			reader.reportChange(change);
+		}
+		return value;
+	});
+}
+
+/**
+ * Creates an observable of the change deltas that `observable` reported within the last `bufferMs`.
+ * The buffer starts with the first change and is emitted when `bufferMs` have passed.
+ * Initially (and when not observed), the buffered observable is an empty array.
+ */
+export function bufferedChanges<T, TChange>(observable: IObservableWithChange<T, TChange>, bufferMs: number): IObservable<readonly TChange[]> {
+	let lastChanges: readonly TChange[] = emptyChanges;
+
+	let timeout: Timeout | undefined = undefined;
+	let buffer: TChange[] = [];
+
+	return observableFromEvent<readonly TChange[], void>(cb => {
+		const d = autorunHandleChanges({
+			changeTracker: collectChanges(observable),
+		}, (reader, changes) => {
+			observable.read(reader);
+			if (changes.length === 0) {
+				return;
+			}
+
+			buffer.push(...changes);
+			if (timeout === undefined) {
+				timeout = setTimeout(() => {
+					timeout = undefined;
+					lastChanges = buffer;
+					buffer = [];
+					cb();
+				}, bufferMs);
+			}
+		});
+		return {
+			dispose() {
+				d.dispose();
+				if (timeout !== undefined) {
+					clearTimeout(timeout);
+					timeout = undefined;
+				}
+				buffer = [];
+				lastChanges = emptyChanges;
+			},
+		};
+	}, () => lastChanges);
+}
+
+/**
+ * Creates an observable that accumulates the values of `observable`.
+ * When it starts being observed, the accumulator is `reducer(seed, observable.get(), [])`.
+ * Every following change calls `reducer` with the previous accumulator, the new value and the change deltas since the last call.
+ * Like `debouncedObservable`, the accumulator is reset when the observable is no longer observed.
+ */
+export function scanObservable<T, TChange, TAcc>(
+	observable: IObservableWithChange<T, TChange>,
+	reducer: (accumulator: TAcc, value: T, changes: readonly TChange[]) => TAcc,
+	seed: TAcc
+): IObservable<TAcc> {
+	let hasValue = false;
+	let accumulator: TAcc | undefined;
+
+	return observableFromEvent<TAcc, void>(cb => {
+		const d = autorunHandleChanges({
+			changeTracker: collectChanges(observable),
+		}, (reader, changes) => {
+			const value = observable.read(reader);
+
+			if (!hasValue) {
+				hasValue = true;
+				accumulator = reducer(seed, value, changes);
+			} else {
+				accumulator = reducer(accumulator!, value, changes);
+				cb();
+			}
+		});
+		return {
+			dispose() {
+				d.dispose();
+				hasValue = false;
+				accumulator = undefined;
+			},
+		};
+	}, () => {
+		if (hasValue) {
+			return accumulator!;
+		} else {
+			return reducer(seed, observable.get(), []);
+		}
+	});
+}
+
+export type CombinedValues<TObs extends Record<string, IObservableWithChange<any, any>>> = { [TKey in keyof TObs]: ReturnType<TObs[TKey]['get']> };
+
+export type CombinedChanges<TObs extends Record<string, IObservableWithChange<any, any>>> =
+	readonly ({ [TKey in keyof TObs]: { key: TKey; change: TObs[TKey]['TChange'] } }[keyof TObs])[];
+
+/**
+ * Combines the latest values of the given observables into a single object.
+ * The combined observable reports the change deltas of the observables that changed, together with their keys.
+ */
+export function combineLatest<TObs extends Record<string, IObservableWithChange<any, any>>>(
+	observables: TObs
+): IObservableWithChange<CombinedValues<TObs>, CombinedChanges<TObs>> {
+	return derivedHandleChanges<CombinedValues<TObs>, CombinedChanges<TObs>, { key: keyof TObs; change: unknown }[]>({
+		debugName: 'combineLatest',
+		changeTracker: {
+			createChangeSummary: () => [],
+			handleChange(ctx, changes) {
+				for (const key in observables) {
+					if (ctx.didChange(observables[key])) {
+						changes.push({ key, change: ctx.change });
+					}
+				}
+				return true;
+			},
+		},
+	}, (reader, changes) => {
+		const result = {} as CombinedValues<TObs>;
+		for (const key in observables) {
+			result[key] = observables[key].read(reader);
+		}
+		if (changes.length > 0) {
+			reader.reportChange(changes as CombinedChanges<TObs>);
+		}
+		return result;
+	});
+}
+
+/**
+ * Creates an observable that only changes if the new value of `observable` is not equal to its previous value.
+ * The change deltas of `observable` are forwarded for such changes.
+ */
+export function distinctUntilChanged<T, TChange>(
+	observable: IObservableWithChange<T, TChange>,
+	equalityComparer: EqualityComparer<T>
+): IObservableWithChange<T, TChange> {
+	let lastValue: T | undefined;
+
+	return derivedHandleChanges<T, TChange, TChange[]>({
+		debugName: 'distinctUntilChanged',
+		changeTracker: collectChanges(observable),
+		equalityComparer,
+	}, (reader, changes) => {
+		const value = observable.read(reader);
+		// Reporting a change would bypass the equality comparer
+		if (changes.length > 0 && !equalityComparer(lastValue!, value)) {
+			for (const change of changes) {
+				reader.reportChange(change);
+			}
+		}
+		lastValue = value;
+		return value;
+	});
+}
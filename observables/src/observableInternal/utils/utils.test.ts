@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { derived, derivedObservableWithCache, keepObserved, mapObservableArrayCached, observableValue, recomputeInitiallyAndOnChange, runOnChange, transaction, waitForState } from '../index';
+import { DebouncedObservableDriver, recordAutorunRuns } from '../testing';
+
+describe('debouncedObservable', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('reports the last value after the delay', () => {
+		const driver = new DebouncedObservableDriver(observableValue('value', 1), 100, ms => vi.advanceTimersByTime(ms));
+
+		driver.set(2);
+		driver.advance(50);
+		driver.set(3);
+		driver.advance(50);
+		expect(driver.values).toEqual([1]);
+
+		driver.flush();
+		expect(driver.values).toEqual([1, 3]);
+
+		driver.dispose();
+	});
+
+	it('reports the current value when not observed', () => {
+		const driver = new DebouncedObservableDriver(observableValue('value', 1), 100, ms => vi.advanceTimersByTime(ms));
+		driver.dispose();
+
+		driver.set(2);
+		expect(driver.debounced.get()).toBe(2);
+	});
+});
+
+describe('keepObserved', () => {
+	it('caches the value of a derived', () => {
+		const value = observableValue('value', 1);
+		let computeCount = 0;
+		const doubled = derived(reader => {
+			computeCount++;
+			return value.read(reader) * 2;
+		});
+		const d = keepObserved(doubled);
+
+		doubled.get();
+		doubled.get();
+		expect(computeCount).toBe(1);
+
+		value.set(2, undefined);
+		expect(computeCount).toBe(1);
+		expect(doubled.get()).toBe(4);
+		expect(computeCount).toBe(2);
+
+		d.dispose();
+	});
+});
+
+describe('recomputeInitiallyAndOnChange', () => {
+	it('recomputes eagerly', () => {
+		const value = observableValue('value', 1);
+		const log: number[] = [];
+		const d = recomputeInitiallyAndOnChange(derived(reader => value.read(reader) * 2), v => log.push(v));
+
+		value.set(2, undefined);
+		expect(log).toEqual([2, 4]);
+
+		d.dispose();
+	});
+});
+
+describe('derivedObservableWithCache', () => {
+	it('passes the last value to the compute function', () => {
+		const value = observableValue('value', 1);
+		const max = derivedObservableWithCache<number>(undefined, (reader, lastValue) => Math.max(value.read(reader), lastValue ?? 0));
+		const recording = recordAutorunRuns(max);
+
+		value.set(5, undefined);
+		value.set(3, undefined);
+		expect(recording.values).toEqual([1, 5]);
+
+		recording.dispose();
+	});
+});
+
+describe('mapObservableArrayCached', () => {
+	it('reuses mapped items and disposes removed items', () => {
+		const items = observableValue<readonly string[]>('items', ['a', 'b']);
+		const disposed: string[] = [];
+		let mapCount = 0;
+		const mapped = mapObservableArrayCached(undefined, items, (item, store) => {
+			mapCount++;
+			store.add({ dispose: () => disposed.push(item) });
+			return { item };
+		});
+		const recording = recordAutorunRuns(mapped);
+		const [a] = mapped.get();
+
+		items.set(['a', 'c'], undefined);
+		expect(mapped.get()[0]).toBe(a);
+		expect(mapCount).toBe(3);
+		expect(disposed).toEqual(['b']);
+
+		recording.dispose();
+		expect(disposed.sort()).toEqual(['a', 'b', 'c']);
+	});
+});
+
+describe('runOnChange', () => {
+	it('does not run initially and reports the previous value', () => {
+		const value = observableValue('value', 1);
+		const log: string[] = [];
+		const d = runOnChange(value, (newValue, previousValue) => log.push(`${previousValue} -> ${newValue}`));
+		expect(log).toEqual([]);
+
+		transaction(tx => {
+			value.set(2, tx);
+			value.set(3, tx);
+		});
+		expect(log).toEqual(['1 -> 3']);
+
+		d.dispose();
+	});
+});
+
+describe('waitForState', () => {
+	it('resolves once the predicate is true', async () => {
+		const value = observableValue('value', 1);
+		const promise = waitForState(value, v => v > 2);
+
+		value.set(2, undefined);
+		value.set(3, undefined);
+		await expect(promise).resolves.toBe(3);
+	});
+
+	it('resolves immediately if the predicate is already true', async () => {
+		const value = observableValue<string | undefined>('value', 'a');
+		await expect(waitForState(value)).resolves.toBe('a');
+	});
+});
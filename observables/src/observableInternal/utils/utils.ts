@@ -10,7 +10,8 @@ import { IObservable, IObservableWithChange, IObserver, IReader, ITransaction }
 import { transaction } from '../transaction';
 import { observableValue } from '../observables/observableValue';
 import { DebugOwner } from '../debugName';
-import { DisposableStore, Event, IDisposable, toDisposable } from '../commonFacade/deps';
+import { DisposableStore, Event, IDisposable, markAsDisposed, trackDisposable } from '../commonFacade/deps';
+import { DebugLocation } from '../debugLocation';
 import { derived, derivedOpts } from '../observables/derived';
 import { observableFromEvent } from '../observables/observableFromEvent';
 import { observableSignal } from '../observables/observableSignal';
@@ -123,12 +124,10 @@ export function wasEventTriggeredRecently(event: Event<any>, timeoutMs: number,
 /**
  * This makes sure the observable is being observed and keeps its cache alive.
  */
-export function keepObserved<T>(observable: IObservable<T>): IDisposable {
+export function keepObserved<T>(observable: IObservable<T>, debugLocation: DebugLocation = DebugLocation.ofCaller()): IDisposable {
 	const o = new KeepAliveObserver(false, undefined);
 	observable.addObserver(o);
-	return toDisposable(() => {
-		observable.removeObserver(o);
-	});
+	return new KeepAliveSubscription('keepObserved', observable, o, debugLocation);
 }
 
 _setKeepObserved(keepObserved);
@@ -136,7 +135,7 @@ _setKeepObserved(keepObserved);
 /**
  * This converts the given observable into an autorun.
  */
-export function recomputeInitiallyAndOnChange<T>(observable: IObservable<T>, handleValue?: (value: T) => void): IDisposable {
+export function recomputeInitiallyAndOnChange<T>(observable: IObservable<T>, handleValue?: (value: T) => void, debugLocation: DebugLocation = DebugLocation.ofCaller()): IDisposable {
 	const o = new KeepAliveObserver(true, handleValue);
 	observable.addObserver(o);
 	try {
@@ -145,13 +144,37 @@ export function recomputeInitiallyAndOnChange<T>(observable: IObservable<T>, han
 		o.endUpdate(observable);
 	}
 
-	return toDisposable(() => {
-		observable.removeObserver(o);
-	});
+	return new KeepAliveSubscription('recomputeInitiallyAndOnChange', observable, o, debugLocation);
 }
 
 _setRecomputeInitiallyAndOnChange(recomputeInitiallyAndOnChange);
 
+/**
+ * Returned by {@link keepObserved} and {@link recomputeInitiallyAndOnChange}.
+ * Tracked as disposable, so that subscriptions that are never disposed can be found.
+ */
+export class KeepAliveSubscription implements IDisposable {
+	private _disposed = false;
+
+	constructor(
+		public readonly kind: 'keepObserved' | 'recomputeInitiallyAndOnChange',
+		public readonly observable: IObservable<any>,
+		private readonly _observer: KeepAliveObserver,
+		public readonly debugLocation: DebugLocation,
+	) {
+		trackDisposable(this);
+	}
+
+	public dispose(): void {
+		if (this._disposed) {
+			return;
+		}
+		this._disposed = true;
+		this.observable.removeObserver(this._observer);
+		markAsDisposed(this);
+	}
+}
+
 export class KeepAliveObserver implements IObserver {
 	private _counter = 0;
 
@@ -0,0 +1 @@
+export * from './observableInternal/testing';